@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthSecret } from '../../../lib/auth';
+import { OIDC_STATE_COOKIE_NAME, getCookieOptions, setSessionCookie } from '../../../lib/auth/http';
+import { completeOidcLogin } from '../../../lib/auth/oidc';
+import type { OidcLoginState } from '../../../lib/auth/oidc';
+import { readSignedToken } from '../../../lib/auth/signedToken';
+
+export const dynamic = 'force-dynamic';
+
+function redirectToLogin(req: NextRequest, error: string) {
+  const loginPage = new URL('/login', req.url);
+  loginPage.searchParams.set('error', error);
+  const response = NextResponse.redirect(loginPage);
+  response.cookies.set(OIDC_STATE_COOKIE_NAME, '', getCookieOptions(0));
+  return response;
+}
+
+// The identity provider redirects here with an authorization code after the user signs in
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  if (params.get('error')) {
+    console.warn(`OIDC provider returned an error: ${params.get('error')} ${params.get('error_description') || ''}`);
+    return redirectToLogin(req, 'sso_failed');
+  }
+
+  const loginState = await readSignedToken<OidcLoginState>(
+    req.cookies.get(OIDC_STATE_COOKIE_NAME)?.value,
+    getAuthSecret()
+  );
+  const code = params.get('code');
+  if (!loginState || !code || params.get('state') !== loginState.state) {
+    // Missing or expired state cookie, or a callback this browser did not start
+    return redirectToLogin(req, 'sso_expired');
+  }
+
+  try {
+    const identity = await completeOidcLogin(code, loginState);
+    console.log(`Signed in ${identity.id} with OIDC`);
+
+    const response = NextResponse.redirect(new URL(loginState.returnTo, req.url));
+    response.cookies.set(OIDC_STATE_COOKIE_NAME, '', getCookieOptions(0));
+    await setSessionCookie(response, identity);
+    return response;
+  } catch (error: any) {
+    console.error('Error completing OIDC login:', error);
+    return redirectToLogin(req, error?.code === 'email_not_allowed' ? 'sso_not_allowed' : 'sso_failed');
+  }
+}
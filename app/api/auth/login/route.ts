@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthMode, getAuthSecret } from '../../../lib/auth';
+import { verifyPassword } from '../../../lib/auth/credentials';
+import {
+  OIDC_STATE_COOKIE_NAME,
+  OIDC_STATE_MAX_AGE_SECONDS,
+  getCookieOptions,
+  sanitizeReturnTo,
+  setSessionCookie
+} from '../../../lib/auth/http';
+import { buildAuthorizationUrl, createOidcLoginState, isOidcConfigured } from '../../../lib/auth/oidc';
+import { createSignedToken } from '../../../lib/auth/signedToken';
+import { checkRateLimit, getRateLimitClient } from '../../../lib/rateLimit';
+
+export const dynamic = 'force-dynamic';
+
+// Start an OIDC login: redirect to the identity provider, remembering where to return afterwards
+export async function GET(req: NextRequest) {
+  const loginPage = new URL('/login', req.url);
+  if (getAuthMode() !== 'oidc' || !isOidcConfigured()) {
+    loginPage.searchParams.set('error', 'sso_unavailable');
+    return NextResponse.redirect(loginPage);
+  }
+
+  try {
+    const loginState = createOidcLoginState(
+      new URL('/api/auth/callback', req.url).toString(),
+      sanitizeReturnTo(req.nextUrl.searchParams.get('returnTo'))
+    );
+    const response = NextResponse.redirect(await buildAuthorizationUrl(loginState));
+    response.cookies.set(
+      OIDC_STATE_COOKIE_NAME,
+      await createSignedToken(loginState, getAuthSecret(), OIDC_STATE_MAX_AGE_SECONDS),
+      getCookieOptions(OIDC_STATE_MAX_AGE_SECONDS)
+    );
+    return response;
+  } catch (error) {
+    console.error('Error starting OIDC login:', error);
+    loginPage.searchParams.set('error', 'sso_failed');
+    return NextResponse.redirect(loginPage);
+  }
+}
+
+// Password login with { username, password }; sets the session cookie on success
+export async function POST(req: NextRequest) {
+  if (getAuthMode() !== 'password') {
+    return NextResponse.json(
+      { error: 'password_login_disabled', message: 'Password login is not enabled' },
+      { status: 404 }
+    );
+  }
+
+  // Login attempts take from the same per-client bucket as chat requests, which slows down guessing.
+  const rateLimit = checkRateLimit(getRateLimitClient(req.headers));
+  if (rateLimit && !rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: 'rate_limited',
+        message: 'Too many sign-in attempts. Please wait a moment.',
+        retryAfterSeconds: rateLimit.retryAfterSeconds
+      },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const identity =
+    typeof body?.username === 'string' && typeof body?.password === 'string'
+      ? await verifyPassword(body.username, body.password)
+      : null;
+  if (!identity) {
+    console.warn(`Failed password login for "${String(body?.username || '')}"`);
+    return NextResponse.json(
+      { error: 'invalid_credentials', message: 'Incorrect username or password' },
+      { status: 401 }
+    );
+  }
+
+  console.log(`Signed in ${identity.id} with a password`);
+  const response = NextResponse.json({ user: identity });
+  await setSessionCookie(response, identity);
+  return response;
+}
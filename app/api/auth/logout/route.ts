@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '../../../lib/auth/http';
+
+export async function POST() {
+  const response = NextResponse.json({ signedOut: true });
+  clearSessionCookie(response);
+  return response;
+}
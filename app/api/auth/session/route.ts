@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthMode, getRequestIdentity } from '../../../lib/auth';
+import type { AuthSessionInfo } from '../../../lib/auth/types';
+
+export const dynamic = 'force-dynamic';
+
+// Auth mode and the signed-in user, so the UI can show who is signed in and offer to sign out
+export async function GET(req: NextRequest) {
+  const session: AuthSessionInfo = { mode: getAuthMode(), user: getRequestIdentity(req.headers) };
+  return NextResponse.json(session);
+}
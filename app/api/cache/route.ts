@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getResponseCache } from '../../lib/responseCache';
+
+// Counters change on every chat request, so never serve them from the route cache.
+export const dynamic = 'force-dynamic';
+
+// Response cache size and hit/miss counters
+export async function GET() {
+  const cache = getResponseCache();
+  if (!cache) {
+    return NextResponse.json(
+      { error: 'response_cache_disabled', message: 'The response cache is disabled' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ stats: await cache.stats() });
+  } catch (error) {
+    console.error('Error reading response cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to read cache stats', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
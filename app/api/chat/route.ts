@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { runGlobalPaymentsDocsAgent } from '../../lib/agent';
-import type { ConversationMessage } from '../../lib/agent';
+import type { AgentStreamEvent, ConversationMessage } from '../../lib/agent';
+import { describeIdentity, getRequestIdentity } from '../../lib/auth';
+import type { AuthIdentity } from '../../lib/auth/types';
+import { readDocsVersion } from '../../lib/docsVersion';
+import { getKnowledgeBase } from '../../lib/knowledgeBases';
+import { checkDailyQuota, checkRateLimit, getRateLimitClient, recordDailyUsage } from '../../lib/rateLimit';
+import { getResponseCache } from '../../lib/responseCache';
 
-// Simple in-memory cache for responses
-// In a production app, you might use Redis or another solution
-const responseCache = new Map();
-const CACHE_TTL = 1000 * 60 * 60; // 1 hour in milliseconds
 const DEFAULT_CONTEXT_MAX_MESSAGES = 40;
 const DEFAULT_CONTEXT_MAX_CHARS = 32000;
 const MIN_CONTEXT_MESSAGES = 1;
@@ -13,6 +15,7 @@ const MIN_CONTEXT_CHARS = 1000;
 const APPROX_CHARS_PER_TOKEN = 4;
 const CONTEXT_WINDOW_EXPIRED_MESSAGE =
   'The chat context window has expired. Older messages are no longer included in context. Start a new chat or refresh the page to clear chat history.';
+const RATE_LIMITED_MESSAGE = "You're sending messages too quickly. Please wait a moment before asking again.";
 
 function parsePositiveIntFromEnv(
   value: string | undefined,
@@ -52,6 +55,13 @@ interface ContextWindowSummary {
   approxTokens: number;
 }
 
+// What is kept in the response cache for a successful answer
+interface CachedChatResponse {
+  response: string;
+  metadata: any;
+  contextWindow: ContextWindowSummary;
+}
+
 interface ContextWindowResult {
   messages: ConversationMessage[];
   totalMessages: number;
@@ -65,6 +75,109 @@ interface OpenAIError {
   message?: string;
 }
 
+type ChatStreamEventName = 'retrieval_started' | 'sources' | 'tool_call' | 'token' | 'reset' | 'done' | 'error';
+
+const STREAM_EVENT_NAMES: Record<AgentStreamEvent['type'], ChatStreamEventName> = {
+  retrieval_started: 'retrieval_started',
+  sources: 'sources',
+  tool_call: 'tool_call',
+  answer_delta: 'token',
+  answer_reset: 'reset'
+};
+
+function wantsEventStream(req: NextRequest, body: any): boolean {
+  if (body && body.stream === true) {
+    return true;
+  }
+
+  return (req.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Build a Server-Sent Events response. Events are written as `event: <name>` with a JSON `data` line.
+ */
+function createEventStreamResponse(
+  identity: AuthIdentity | null,
+  run: (send: (event: ChatStreamEventName, data: unknown) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEventName, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send);
+      } catch (error: unknown) {
+        console.error(`Error streaming chat response for ${describeIdentity(identity)}:`, error);
+        send('error', buildErrorPayload(error).body);
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+function buildErrorPayload(error: unknown) {
+  // Type guard for OpenAI errors
+  const openAIError = error as OpenAIError;
+
+  // Check for rate limit errors and handle them gracefully
+  if (openAIError?.code === 'rate_limit_exceeded') {
+    return {
+      status: 429,
+      body: {
+        error: 'OpenAI rate limit exceeded',
+        message: 'The service is experiencing high demand. Please try again in a moment.',
+        response: "I'm sorry, but I'm currently handling too many requests. Please try asking a simpler question or try again in a few moments."
+      }
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: 'Failed to process request',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      response: "I'm sorry, I encountered an error while processing your request. The knowledge base might be temporarily unavailable."
+    }
+  };
+}
+
+/**
+ * 429 response for the app's own rate limits and quotas. Retry-After and `retryAfterSeconds` tell
+ * the client when to try again.
+ */
+function buildTooManyRequestsResponse(body: Record<string, unknown>, retryAfterSeconds: number) {
+  return NextResponse.json(
+    { ...body, retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+function buildChatPayload(agentResponse: any, contextWindowSummary: ContextWindowSummary) {
+  return {
+    response: agentResponse.response,
+    metadata: agentResponse.metadata,
+    vectorStoreError: agentResponse.metadata?.vectorSearchError || null,
+    contextWindow: contextWindowSummary,
+    raw_api_response: {
+      fullResponse: agentResponse.fullResponse,
+      metadata: agentResponse.metadata
+    }  // Add the raw API response for debugging
+  };
+}
+
 function normalizeConversationMessages(messages: unknown): ConversationMessage[] {
   if (!Array.isArray(messages)) {
     return [];
@@ -149,9 +262,24 @@ function buildContextWindow(history: ConversationMessage[], latestUserMessage: s
 }
 
 export async function POST(req: NextRequest) {
+  // Set by the middleware when auth is on
+  const identity = getRequestIdentity(req.headers);
+
   try {
+    // Every request takes from the client's bucket, including ones answered from the cache.
+    const rateLimitClient = getRateLimitClient(req.headers, identity);
+    const rateLimit = checkRateLimit(rateLimitClient);
+    if (rateLimit && !rateLimit.allowed) {
+      return buildTooManyRequestsResponse(
+        { error: 'rate_limited', message: RATE_LIMITED_MESSAGE },
+        rateLimit.retryAfterSeconds
+      );
+    }
+
     // Get the message and conversation history from the request body
-    const { message, messages = [] } = await req.json();
+    const body = await req.json();
+    const { message, messages = [], knowledgeBase: requestedKnowledgeBase } = body;
+    const streamResponse = wantsEventStream(req, body);
 
     if (!message || typeof message !== 'string' || !message.trim()) {
       return NextResponse.json(
@@ -160,6 +288,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Unset means the default knowledge base; an unknown id is a client error rather than a silent fallback.
+    const knowledgeBase =
+      requestedKnowledgeBase == null || typeof requestedKnowledgeBase === 'string'
+        ? getKnowledgeBase(requestedKnowledgeBase)
+        : null;
+    if (!knowledgeBase) {
+      return NextResponse.json(
+        { error: 'unknown_knowledge_base', message: `Unknown knowledge base "${requestedKnowledgeBase}"` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Chat request from ${describeIdentity(identity)} for knowledge base ${knowledgeBase.id}`);
+
     const normalizedMessage = message.trim();
     const normalizedHistory = normalizeConversationMessages(messages);
     const contextWindow = buildContextWindow(normalizedHistory, normalizedMessage);
@@ -173,83 +315,115 @@ export async function POST(req: NextRequest) {
       approxTokens: Math.ceil(contextWindow.totalChars / APPROX_CHARS_PER_TOKEN)
     };
 
-    // Generate a cache key from the bounded chat window.
+    // Generate a cache key from the knowledge base, its docs version and the bounded chat window.
+    // The docs version changes on every ingest, so answers cached before it are never served again.
     // Reasoning effort is selected internally in the agent.
+    const responseCache = getResponseCache<CachedChatResponse>();
     const cacheKey = JSON.stringify({
+      knowledgeBase: knowledgeBase.id,
+      docsVersion: readDocsVersion(knowledgeBase.docsVersionPath),
       contextMessages: contextWindow.messages
     });
-    
+
     // Check if we have a cached response
-    if (responseCache.has(cacheKey)) {
-      const cachedData = responseCache.get(cacheKey);
-      // Check if cache is still valid
-      if (Date.now() - cachedData.timestamp < CACHE_TTL) {
-        console.log('Using cached response');
-        return NextResponse.json({ 
-          response: cachedData.response,
-          metadata: cachedData.metadata,
-          cached: true,
-          vectorStoreError: cachedData.vectorStoreError,
-          contextWindow: cachedData.contextWindow || contextWindowSummary
+    const cachedData = responseCache ? await responseCache.get(cacheKey) : null;
+    if (cachedData) {
+      console.log('Using cached response');
+      const cachedPayload = {
+        response: cachedData.response,
+        metadata: cachedData.metadata,
+        cached: true,
+        vectorStoreError: cachedData.metadata?.vectorSearchError || null,
+        contextWindow: cachedData.contextWindow || contextWindowSummary
+      };
+
+      if (streamResponse) {
+        return createEventStreamResponse(identity, async (send) => {
+          send('sources', { sources: cachedData.metadata?.citations || [] });
+          send('token', { delta: cachedData.response });
+          send('done', cachedPayload);
         });
-      } else {
-        // Cache expired, remove it
-        responseCache.delete(cacheKey);
       }
+
+      return NextResponse.json(cachedPayload);
+    }
+
+    // Cached answers cost nothing, so the daily quota only stops requests that would call the model.
+    const quota = checkDailyQuota(rateLimitClient);
+    if (quota && !quota.allowed) {
+      return buildTooManyRequestsResponse(
+        {
+          error: 'quota_exceeded',
+          message: `Your daily ${quota.exceeded === 'cost' ? 'usage budget' : 'token quota'} has been used up. It resets at midnight UTC.`,
+          quota: { exceeded: quota.exceeded, usage: quota.usage, limits: quota.limits }
+        },
+        quota.retryAfterSeconds
+      );
+    }
+
+    const recordAgentUsage = (agentResponse: any) => {
+      const usage = agentResponse.metadata?.usage || agentResponse.usage;
+      if (usage) {
+        recordDailyUsage(rateLimitClient, usage);
+      }
+    };
+
+    const cacheAgentResponse = (agentResponse: any) => {
+      // Cache the response if successful; a failed cache write never fails the request.
+      if (responseCache && agentResponse.response && !agentResponse.error) {
+        responseCache
+          .set(cacheKey, {
+            response: agentResponse.response,
+            metadata: agentResponse.metadata,
+            contextWindow: contextWindowSummary
+          })
+          .catch((error) => console.error('Error caching chat response:', error));
+      }
+    };
+
+    if (streamResponse) {
+      return createEventStreamResponse(identity, async (send) => {
+        const agentResponse = await runGlobalPaymentsDocsAgent(
+          normalizedMessage,
+          undefined,
+          contextWindow.messages,
+          {
+            knowledgeBaseId: knowledgeBase.id,
+            onEvent: (event) => {
+              const { type, ...data } = event;
+              send(STREAM_EVENT_NAMES[type], data);
+            }
+          }
+        );
+        recordAgentUsage(agentResponse);
+
+        if (agentResponse.error) {
+          send('error', buildErrorPayload(agentResponse.error).body);
+          return;
+        }
+
+        cacheAgentResponse(agentResponse);
+        send('done', buildChatPayload(agentResponse, contextWindowSummary));
+      });
     }
 
     // Run the agent with the user's message and bounded conversation history
     const agentResponse = await runGlobalPaymentsDocsAgent(
       normalizedMessage,
       undefined,
-      contextWindow.messages
+      contextWindow.messages,
+      { knowledgeBaseId: knowledgeBase.id }
     );
 
-    // Cache the response if successful
-    if (agentResponse.response && !agentResponse.error) {
-      responseCache.set(cacheKey, {
-        ...agentResponse,
-        contextWindow: contextWindowSummary,
-        timestamp: Date.now()
-      });
-    }
+    recordAgentUsage(agentResponse);
+    cacheAgentResponse(agentResponse);
 
     // Return the response with vector store error info if present
-    return NextResponse.json({ 
-      response: agentResponse.response,
-      metadata: agentResponse.metadata,
-      vectorStoreError: agentResponse.metadata?.vectorSearchError || null,
-      contextWindow: contextWindowSummary,
-      raw_api_response: {
-        fullResponse: agentResponse.fullResponse,
-        metadata: agentResponse.metadata
-      }  // Add the raw API response for debugging
-    });
+    return NextResponse.json(buildChatPayload(agentResponse, contextWindowSummary));
   } catch (error: unknown) {
-    console.error('Error processing chat request:', error);
-    
-    // Type guard for OpenAI errors
-    const openAIError = error as OpenAIError;
-    
-    // Check for rate limit errors and handle them gracefully
-    if (openAIError.code === 'rate_limit_exceeded') {
-      return NextResponse.json(
-        { 
-          error: 'OpenAI rate limit exceeded',
-          message: 'The service is experiencing high demand. Please try again in a moment.',
-          response: "I'm sorry, but I'm currently handling too many requests. Please try asking a simpler question or try again in a few moments."
-        },
-        { status: 429 }
-      );
-    }
-    
-    return NextResponse.json(
-      { 
-        error: 'Failed to process request', 
-        message: error instanceof Error ? error.message : 'Unknown error',
-        response: "I'm sorry, I encountered an error while processing your request. The knowledge base might be temporarily unavailable."
-      },
-      { status: 500 }
-    );
+    console.error(`Error processing chat request from ${describeIdentity(identity)}:`, error);
+    const errorPayload = buildErrorPayload(error);
+
+    return NextResponse.json(errorPayload.body, { status: errorPayload.status });
   }
 }
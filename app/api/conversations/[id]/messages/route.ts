@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity } from '../../../../lib/auth';
+import { getConversationStore } from '../../../../lib/conversations';
+import {
+  conversationErrorResponse,
+  conversationNotFoundResponse,
+  conversationStoreDisabledResponse,
+  findAccessibleConversation,
+  readJsonBody
+} from '../../../../lib/conversations/http';
+import { normalizeMessages } from '../../../../lib/conversations/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Append messages to a conversation; messages with an id that is already stored are ignored
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  const body = await readJsonBody(req);
+  const messages = normalizeMessages(body.messages);
+  if (!messages) {
+    return NextResponse.json({ error: 'Invalid messages format' }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAccessibleConversation(store, params.id, getRequestIdentity(req.headers)))) {
+      return conversationNotFoundResponse();
+    }
+
+    const conversation = await store.appendMessages(params.id, messages);
+    return conversation ? NextResponse.json({ conversation }) : conversationNotFoundResponse();
+  } catch (error) {
+    return conversationErrorResponse('append messages', error);
+  }
+}
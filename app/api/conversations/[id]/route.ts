@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity } from '../../../lib/auth';
+import { getConversationStore } from '../../../lib/conversations';
+import {
+  conversationErrorResponse,
+  conversationNotFoundResponse,
+  conversationStoreDisabledResponse,
+  findAccessibleConversation,
+  readJsonBody
+} from '../../../lib/conversations/http';
+import { normalizeConversationOrganization } from '../../../lib/conversations/validation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  try {
+    const conversation = await findAccessibleConversation(store, params.id, getRequestIdentity(req.headers));
+    return conversation ? NextResponse.json({ conversation }) : conversationNotFoundResponse();
+  } catch (error) {
+    return conversationErrorResponse('load conversation', error);
+  }
+}
+
+// Rename a conversation, pin it, move it to a folder or archive it
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  const body = await readJsonBody(req);
+  if (body.title !== undefined && (typeof body.title !== 'string' || !body.title.trim())) {
+    return NextResponse.json({ error: 'Invalid title' }, { status: 400 });
+  }
+
+  const organization = normalizeConversationOrganization(body);
+  if (!organization) {
+    return NextResponse.json({ error: 'Invalid pinned, folder or archived value' }, { status: 400 });
+  }
+
+  if (body.hasCustomTitle !== undefined && typeof body.hasCustomTitle !== 'boolean') {
+    return NextResponse.json({ error: 'Invalid hasCustomTitle value' }, { status: 400 });
+  }
+
+  const changes = {
+    ...organization,
+    title: body.title as string | undefined,
+    hasCustomTitle: body.hasCustomTitle as boolean | undefined
+  };
+  if (Object.values(changes).every((value) => value === undefined)) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAccessibleConversation(store, params.id, getRequestIdentity(req.headers)))) {
+      return conversationNotFoundResponse();
+    }
+
+    const conversation = await store.update(params.id, changes);
+    return conversation ? NextResponse.json({ conversation }) : conversationNotFoundResponse();
+  } catch (error) {
+    return conversationErrorResponse('update conversation', error);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  try {
+    if (!(await findAccessibleConversation(store, params.id, getRequestIdentity(req.headers)))) {
+      return conversationNotFoundResponse();
+    }
+
+    const deleted = await store.delete(params.id);
+    return deleted ? NextResponse.json({ deleted: true }) : conversationNotFoundResponse();
+  } catch (error) {
+    return conversationErrorResponse('delete conversation', error);
+  }
+}
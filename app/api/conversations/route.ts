@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity } from '../../lib/auth';
+import { getConversationStore } from '../../lib/conversations';
+import {
+  canAccessConversation,
+  conversationErrorResponse,
+  conversationStoreDisabledResponse,
+  readJsonBody
+} from '../../lib/conversations/http';
+import {
+  isValidConversationId,
+  normalizeConversationOrganization,
+  normalizeMessages
+} from '../../lib/conversations/validation';
+import { isKnowledgeBaseId } from '../../lib/knowledgeBases/validation';
+
+// The list changes on every write, so never serve it from the build-time route cache.
+export const dynamic = 'force-dynamic';
+
+// List the user's conversation summaries, newest first
+export async function GET(req: NextRequest) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  const identity = getRequestIdentity(req.headers);
+
+  try {
+    return NextResponse.json({ conversations: await store.list({ userId: identity?.id }) });
+  } catch (error) {
+    return conversationErrorResponse('list conversations', error);
+  }
+}
+
+// Create a conversation, optionally with a client-generated id and initial messages
+export async function POST(req: NextRequest) {
+  const store = getConversationStore();
+  if (!store) {
+    return conversationStoreDisabledResponse();
+  }
+
+  const body = await readJsonBody(req);
+
+  if (body.id !== undefined && !isValidConversationId(body.id)) {
+    return NextResponse.json({ error: 'Invalid conversation id' }, { status: 400 });
+  }
+
+  if (body.knowledgeBase !== undefined && !isKnowledgeBaseId(body.knowledgeBase)) {
+    return NextResponse.json({ error: 'Invalid knowledge base' }, { status: 400 });
+  }
+
+  const messages = body.messages === undefined ? [] : normalizeMessages(body.messages);
+  if (!messages) {
+    return NextResponse.json({ error: 'Invalid messages format' }, { status: 400 });
+  }
+
+  const organization = normalizeConversationOrganization(body);
+  if (!organization) {
+    return NextResponse.json({ error: 'Invalid pinned, folder or archived value' }, { status: 400 });
+  }
+
+  if (body.hasCustomTitle !== undefined && typeof body.hasCustomTitle !== 'boolean') {
+    return NextResponse.json({ error: 'Invalid hasCustomTitle value' }, { status: 400 });
+  }
+
+  const identity = getRequestIdentity(req.headers);
+
+  try {
+    // Creating an existing id merges into it, so the id must not belong to someone else.
+    const existing = typeof body.id === 'string' ? await store.get(body.id) : null;
+    if (existing && !canAccessConversation(existing, identity)) {
+      return NextResponse.json({ error: 'Conversation id already in use' }, { status: 409 });
+    }
+
+    const conversation = await store.create({
+      id: body.id as string | undefined,
+      title: typeof body.title === 'string' ? body.title : undefined,
+      hasCustomTitle: body.hasCustomTitle as boolean | undefined,
+      knowledgeBase: body.knowledgeBase as string | undefined,
+      userId: identity?.id,
+      organization,
+      messages
+    });
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    return conversationErrorResponse('create conversation', error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedbackStore } from '../../../lib/feedback';
+import { formatFeedbackExport } from '../../../lib/feedback/export';
+import type { FeedbackExportFormat } from '../../../lib/feedback/export';
+import { hasFeedbackExportToken, isFeedbackExportEnabled } from '../../../lib/feedback/exportToken';
+
+const CONTENT_TYPES: Record<FeedbackExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8'
+};
+
+/**
+ * Export collected feedback for review.
+ * Query parameters: format (json, jsonl or csv), rating (up or down), since (ISO date).
+ */
+export async function GET(req: NextRequest) {
+  // Feedback holds every user's questions and answers, so it is never exported without a token.
+  if (!isFeedbackExportEnabled()) {
+    return NextResponse.json(
+      { error: 'feedback_export_disabled', message: 'Set FEEDBACK_EXPORT_TOKEN to enable feedback exports' },
+      { status: 503 }
+    );
+  }
+
+  if (!(await hasFeedbackExportToken(req.headers))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const store = getFeedbackStore();
+  if (!store) {
+    return NextResponse.json(
+      { error: 'feedback_disabled', message: 'Feedback collection is disabled' },
+      { status: 503 }
+    );
+  }
+
+  const params = req.nextUrl.searchParams;
+  const requestedFormat = params.get('format') || 'json';
+  const format: FeedbackExportFormat = requestedFormat in CONTENT_TYPES ? (requestedFormat as FeedbackExportFormat) : 'json';
+  const rating = params.get('rating');
+
+  try {
+    const records = await store.list({
+      rating: rating === 'up' || rating === 'down' ? rating : undefined,
+      since: params.get('since') || undefined
+    });
+
+    return new Response(formatFeedbackExport(records, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.${format}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to export feedback', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
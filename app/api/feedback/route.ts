@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeIdentity, getRequestIdentity } from '../../lib/auth';
+import { getFeedbackStore } from '../../lib/feedback';
+import { normalizeFeedbackInput } from '../../lib/feedback/validation';
+
+// Record a thumbs up/down for an assistant answer
+export async function POST(req: NextRequest) {
+  const store = getFeedbackStore();
+  if (!store) {
+    return NextResponse.json(
+      { error: 'feedback_disabled', message: 'Feedback collection is disabled' },
+      { status: 503 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid feedback format' }, { status: 400 });
+  }
+
+  const normalized = normalizeFeedbackInput(body);
+  if ('error' in normalized) {
+    return NextResponse.json({ error: normalized.error }, { status: 400 });
+  }
+
+  const identity = getRequestIdentity(req.headers);
+
+  try {
+    const record = await store.record({ ...normalized.input, userId: identity?.id });
+    return NextResponse.json({ id: record.id, createdAt: record.createdAt }, { status: 201 });
+  } catch (error) {
+    console.error(`Error saving feedback from ${describeIdentity(identity)}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save feedback', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
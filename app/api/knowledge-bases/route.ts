@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { listKnowledgeBases } from '../../lib/knowledgeBases';
+
+// The config file can change while the server runs, so never serve the list from the route cache.
+export const dynamic = 'force-dynamic';
+
+// Knowledge bases the UI can offer, without vector store ids or file paths
+export async function GET() {
+  try {
+    return NextResponse.json(listKnowledgeBases());
+  } catch (error) {
+    console.error('Error listing knowledge bases:', error);
+    return NextResponse.json(
+      { error: 'Failed to list knowledge bases', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
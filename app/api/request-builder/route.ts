@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeIdentity, getRequestIdentity } from '../../lib/auth';
+import { checkRateLimit, getRateLimitClient } from '../../lib/rateLimit';
+import { getSandboxOrigins, isSandboxUrl, sendSandboxRequest } from '../../lib/requestBuilder';
+import { normalizeSandboxRequest } from '../../lib/requestBuilder/validation';
+
+export const dynamic = 'force-dynamic';
+
+// Sandbox origins the request builder can send to
+export async function GET() {
+  return NextResponse.json({ sandboxOrigins: getSandboxOrigins() });
+}
+
+// Send a request builder request on the user's behalf, only to an allow-listed sandbox origin
+export async function POST(req: NextRequest) {
+  const sandboxOrigins = getSandboxOrigins();
+  if (sandboxOrigins.length === 0) {
+    return NextResponse.json(
+      { error: 'request_builder_disabled', message: 'Sending requests is turned off on this server' },
+      { status: 503 }
+    );
+  }
+
+  const identity = getRequestIdentity(req.headers);
+  // Sandbox calls share the chat rate limit so the proxy cannot be used to flood the sandbox
+  const rateLimit = checkRateLimit(getRateLimitClient(req.headers, identity));
+  if (rateLimit && !rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: 'rate_limited',
+        message: "You're sending requests too quickly. Please wait a moment.",
+        retryAfterSeconds: rateLimit.retryAfterSeconds
+      },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request format' }, { status: 400 });
+  }
+
+  const normalized = normalizeSandboxRequest(body);
+  if ('error' in normalized) {
+    return NextResponse.json({ error: normalized.error }, { status: 400 });
+  }
+
+  const { request } = normalized;
+  if (!isSandboxUrl(request.url)) {
+    return NextResponse.json(
+      {
+        error: 'host_not_allowed',
+        message: `Requests can only be sent to the sandbox: ${sandboxOrigins.join(', ')}`
+      },
+      { status: 403 }
+    );
+  }
+
+  const { origin, pathname } = new URL(request.url);
+  // Headers and bodies can hold credentials, so only the target is logged
+  console.log(`Request builder ${request.method} ${origin}${pathname} from ${describeIdentity(identity)}`);
+
+  try {
+    return NextResponse.json(await sendSandboxRequest(request));
+  } catch (error) {
+    const code = (error as { code?: string })?.code;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Request builder call to ${origin}${pathname} failed:`, message);
+
+    if (code === 'upstream_timeout' || code === 'upstream_error') {
+      return NextResponse.json({ error: code, message }, { status: code === 'upstream_timeout' ? 504 : 502 });
+    }
+
+    return NextResponse.json({ error: 'Failed to send request', message }, { status: 500 });
+  }
+}
@@ -1,23 +1,51 @@
 'use client';
 
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { findMatchRanges, getSearchTerms, type HistorySearchResult } from '../lib/historySearch';
+
 interface ChatHistoryItem {
   id: string;
   title: string;
   preview: string;
   updatedAt: string;
   messageCount: number;
+  pinned: boolean;
+  folder?: string;
+  isArchived: boolean;
+}
+
+interface ChatHistoryActions {
+  onSelectChat: (chatId: string) => void;
+  onRenameChat: (chatId: string, title: string) => void;
+  onSetChatPinned: (chatId: string, pinned: boolean) => void;
+  onMoveChatToFolder: (chatId: string, folder: string) => void;
+  onArchiveChat: (chatId: string) => void;
+  onRestoreChat: (chatId: string) => void;
+  onDeleteChat: (chatId: string) => void;
+}
+
+interface ChatHistoryGroup {
+  key: string;
+  label: string;
+  items: ChatHistoryItem[];
+  isCollapsible: boolean;
 }
 
-interface ChatHistoryProps {
+interface ChatHistoryProps extends ChatHistoryActions {
   items: ChatHistoryItem[];
   activeChatId: string;
   isLoading: boolean;
+  searchQuery: string;
+  searchResults: HistorySearchResult[] | null; // Null when there is no search
+  isSearchLoadingChats: boolean;
+  onSearchQueryChange: (query: string) => void;
+  onOpenSearchResult: (chatId: string, messageId?: string) => void;
   onToggleHistory: () => void;
   onCreateChat: () => void;
-  onDeleteChat: (chatId: string) => void;
-  onSelectChat: (chatId: string) => void;
 }
 
+const ARCHIVED_GROUP_KEY = 'archived';
+
 function formatHistoryTimestamp(timestamp: string): string {
   const parsedDate = new Date(timestamp);
   if (Number.isNaN(parsedDate.getTime())) {
@@ -37,15 +65,267 @@ function formatHistoryTimestamp(timestamp: string): string {
   return parsedDate.toLocaleDateString([], { month: 'short', day: 'numeric' });
 }
 
+// Text with the search terms wrapped in <mark>
+function HighlightedText({ text, terms }: { text: string; terms: string[] }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  findMatchRanges(text, terms).forEach(({ start, end }) => {
+    parts.push(<Fragment key={`text-${start}`}>{text.slice(position, start)}</Fragment>);
+    parts.push(<mark key={`match-${start}`}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(<Fragment key="text-end">{text.slice(position)}</Fragment>);
+
+  return <>{parts}</>;
+}
+
+// Pinned chats, then one group per folder, then the rest, with archived chats last
+function groupHistoryItems(items: ChatHistoryItem[]): ChatHistoryGroup[] {
+  const openItems = items.filter((item) => !item.isArchived);
+  const folderNames = Array.from(
+    new Set(openItems.filter((item) => !item.pinned && item.folder).map((item) => item.folder as string))
+  ).sort((a, b) => a.localeCompare(b));
+
+  const groups: ChatHistoryGroup[] = [
+    { key: 'pinned', label: 'Pinned', items: openItems.filter((item) => item.pinned), isCollapsible: false },
+    ...folderNames.map((folder) => ({
+      key: `folder:${folder}`,
+      label: folder,
+      items: openItems.filter((item) => !item.pinned && item.folder === folder),
+      isCollapsible: true
+    })),
+    { key: 'chats', label: 'Chats', items: openItems.filter((item) => !item.pinned && !item.folder), isCollapsible: false },
+    {
+      key: ARCHIVED_GROUP_KEY,
+      label: 'Archived',
+      items: items.filter((item) => item.isArchived),
+      isCollapsible: true
+    }
+  ];
+
+  return groups.filter((group) => group.items.length > 0);
+}
+
+interface ChatHistoryEntryProps extends ChatHistoryActions {
+  item: ChatHistoryItem;
+  isActive: boolean;
+  isLoading: boolean;
+  folders: string[];
+}
+
+// One chat in the history list, with its actions menu and inline rename and folder fields
+function ChatHistoryEntry({
+  item,
+  isActive,
+  isLoading,
+  folders,
+  onSelectChat,
+  onRenameChat,
+  onSetChatPinned,
+  onMoveChatToFolder,
+  onArchiveChat,
+  onRestoreChat,
+  onDeleteChat
+}: ChatHistoryEntryProps) {
+  const [editMode, setEditMode] = useState<'rename' | 'folder' | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const menuButtonRef = useRef<HTMLButtonElement>(null);
+  // Enter and the blur that follows both end the edit; only the first one counts.
+  const isEditingRef = useRef(false);
+
+  useEffect(() => {
+    if (!isMenuOpen) {
+      return;
+    }
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsMenuOpen(false);
+        menuButtonRef.current?.focus();
+      }
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isMenuOpen]);
+
+  const startEdit = (mode: 'rename' | 'folder') => {
+    isEditingRef.current = true;
+    setDraft(mode === 'rename' ? item.title : item.folder || '');
+    setEditMode(mode);
+    setIsMenuOpen(false);
+  };
+
+  const finishEdit = (shouldSave: boolean) => {
+    if (!isEditingRef.current) {
+      return;
+    }
+
+    isEditingRef.current = false;
+    if (shouldSave && editMode === 'rename' && draft.trim() && draft.trim() !== item.title) {
+      onRenameChat(item.id, draft);
+    } else if (shouldSave && editMode === 'folder' && draft.trim() !== (item.folder || '')) {
+      onMoveChatToFolder(item.id, draft);
+    }
+    setEditMode(null);
+  };
+
+  const runMenuAction = (action: () => void) => {
+    setIsMenuOpen(false);
+    action();
+  };
+
+  return (
+    <div role="listitem" className="chat-history-item-wrap">
+      {editMode ? (
+        <form
+          className="chat-history-edit"
+          onSubmit={(event) => {
+            event.preventDefault();
+            finishEdit(true);
+          }}
+        >
+          <label htmlFor={`chat-history-edit-${item.id}`}>{editMode === 'rename' ? 'Chat name' : 'Folder'}</label>
+          <input
+            id={`chat-history-edit-${item.id}`}
+            type="text"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onBlur={() => finishEdit(true)}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') {
+                event.stopPropagation();
+                finishEdit(false);
+              }
+            }}
+            placeholder={editMode === 'folder' ? 'Leave empty to remove from folder' : undefined}
+            list={editMode === 'folder' ? `chat-history-folders-${item.id}` : undefined}
+            maxLength={editMode === 'rename' ? 200 : 60}
+            autoFocus
+          />
+          {editMode === 'folder' && (
+            <datalist id={`chat-history-folders-${item.id}`}>
+              {folders.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+          )}
+        </form>
+      ) : (
+        <button
+          type="button"
+          className={`chat-history-item ${isActive ? 'active' : ''}`}
+          onClick={() => onSelectChat(item.id)}
+          disabled={isLoading}
+        >
+          <span className="chat-history-title">{item.title}</span>
+          <span className="chat-history-preview">{item.preview}</span>
+          <span className="chat-history-meta">
+            {item.messageCount} msgs • {formatHistoryTimestamp(item.updatedAt)}
+          </span>
+        </button>
+      )}
+
+      {!editMode && (
+        <div className="chat-history-actions" ref={menuRef}>
+          <button
+            ref={menuButtonRef}
+            type="button"
+            className="chat-history-menu-button"
+            onClick={() => setIsMenuOpen((previous) => !previous)}
+            disabled={isLoading}
+            aria-label={`Actions for chat ${item.title}`}
+            aria-haspopup="menu"
+            aria-expanded={isMenuOpen}
+            title="Chat actions"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+              <circle cx="5" cy="12" r="1.9" />
+              <circle cx="12" cy="12" r="1.9" />
+              <circle cx="19" cy="12" r="1.9" />
+            </svg>
+          </button>
+          {isMenuOpen && (
+            <div className="chat-history-menu" role="menu">
+              <button type="button" role="menuitem" onClick={() => startEdit('rename')}>
+                Rename
+              </button>
+              {item.isArchived ? (
+                <>
+                  <button type="button" role="menuitem" onClick={() => runMenuAction(() => onRestoreChat(item.id))}>
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    className="is-danger"
+                    onClick={() => runMenuAction(() => onDeleteChat(item.id))}
+                  >
+                    Delete permanently
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => runMenuAction(() => onSetChatPinned(item.id, !item.pinned))}
+                  >
+                    {item.pinned ? 'Unpin' : 'Pin to top'}
+                  </button>
+                  <button type="button" role="menuitem" onClick={() => startEdit('folder')}>
+                    {item.folder ? 'Change folder' : 'Move to folder'}
+                  </button>
+                  <button type="button" role="menuitem" onClick={() => runMenuAction(() => onArchiveChat(item.id))}>
+                    Archive
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function ChatHistory({
   items,
   activeChatId,
   isLoading,
+  searchQuery,
+  searchResults,
+  isSearchLoadingChats,
+  onSearchQueryChange,
+  onOpenSearchResult,
   onToggleHistory,
   onCreateChat,
-  onDeleteChat,
-  onSelectChat
+  onSelectChat,
+  onRenameChat,
+  onSetChatPinned,
+  onMoveChatToFolder,
+  onArchiveChat,
+  onRestoreChat,
+  onDeleteChat
 }: ChatHistoryProps) {
+  const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({});
+  const searchTerms = getSearchTerms(searchQuery);
+  const groups = groupHistoryItems(items);
+  const folders = Array.from(new Set(items.map((item) => item.folder || ''))).filter(Boolean).sort();
+  // A lone list of chats needs no heading
+  const showGroupTitles = groups.some((group) => group.key !== 'chats');
+
   return (
     <aside className="chat-history" aria-label="Saved chats">
       <div className="chat-history-header">
@@ -79,44 +359,114 @@ export default function ChatHistory({
         </button>
       </div>
 
-      <div className="chat-history-list" role="list">
-        {items.map((item) => (
-          <div
-            key={item.id}
-            role="listitem"
-            className="chat-history-item-wrap"
-          >
-            <button
-              type="button"
-              className={`chat-history-item ${item.id === activeChatId ? 'active' : ''}`}
-              onClick={() => onSelectChat(item.id)}
-              disabled={isLoading}
-            >
-              <span className="chat-history-title">{item.title}</span>
-              <span className="chat-history-preview">{item.preview}</span>
-              <span className="chat-history-meta">
-                {item.messageCount} msgs • {formatHistoryTimestamp(item.updatedAt)}
-              </span>
-            </button>
-            <button
-              type="button"
-              className="chat-history-delete"
-              onClick={() => onDeleteChat(item.id)}
-              disabled={isLoading}
-              aria-label={`Delete chat ${item.title}`}
-              title="Delete chat"
-            >
-              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M4 7H20" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" />
-                <path d="M9 7V5.6C9 4.72 9.72 4 10.6 4H13.4C14.28 4 15 4.72 15 5.6V7" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" />
-                <path d="M18 7L17.35 17.1C17.28 18.2 16.37 19.05 15.27 19.05H8.73C7.63 19.05 6.72 18.2 6.65 17.1L6 7" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" />
-                <path d="M10 11V15.2" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" />
-                <path d="M14 11V15.2" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" />
-              </svg>
-            </button>
-          </div>
-        ))}
+      <div className="chat-history-search">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(event) => onSearchQueryChange(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') {
+              onSearchQueryChange('');
+            }
+          }}
+          placeholder="Search chats"
+          aria-label="Search chat titles and messages"
+        />
       </div>
+
+      {searchResults && (
+        <p className="chat-history-search-status" role="status">
+          {searchResults.length === 0
+            ? 'No chats match your search'
+            : `${searchResults.length} ${searchResults.length === 1 ? 'chat' : 'chats'} found`}
+          {isSearchLoadingChats && ' · loading saved chats...'}
+        </p>
+      )}
+
+      {searchResults ? (
+        <div className="chat-history-list" role="list" aria-label="Search results">
+          {searchResults.map((result) => (
+            <div key={result.chatId} role="listitem" className="chat-history-result">
+              <button
+                type="button"
+                className={`chat-history-item ${result.chatId === activeChatId ? 'active' : ''}`}
+                onClick={() => onOpenSearchResult(result.chatId, result.messageHits[0]?.messageId)}
+                disabled={isLoading}
+              >
+                <span className="chat-history-title">
+                  <HighlightedText text={result.title} terms={searchTerms} />
+                </span>
+                <span className="chat-history-meta">
+                  {result.totalMessageHits > 0
+                    ? `${result.totalMessageHits} matching ${result.totalMessageHits === 1 ? 'msg' : 'msgs'}`
+                    : 'Title match'}{' '}
+                  • {formatHistoryTimestamp(result.updatedAt)}
+                </span>
+              </button>
+              {result.messageHits.map((hit) => (
+                <button
+                  key={hit.messageId}
+                  type="button"
+                  className="chat-history-hit"
+                  onClick={() => onOpenSearchResult(result.chatId, hit.messageId)}
+                  disabled={isLoading}
+                >
+                  <span className="chat-history-hit-role">{hit.role === 'user' ? 'You' : 'Assistant'}</span>
+                  <HighlightedText text={hit.snippet} terms={searchTerms} />
+                </button>
+              ))}
+              {result.totalMessageHits > result.messageHits.length && (
+                <span className="chat-history-hit-more">
+                  +{result.totalMessageHits - result.messageHits.length} more in this chat
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="chat-history-list">
+          {groups.map((group) => {
+            const isCollapsed = collapsedGroups[group.key] ?? group.key === ARCHIVED_GROUP_KEY;
+
+            return (
+              <section key={group.key} className="chat-history-group" aria-label={group.label}>
+                {group.isCollapsible ? (
+                  <button
+                    type="button"
+                    className="chat-history-group-toggle"
+                    onClick={() => setCollapsedGroups((previous) => ({ ...previous, [group.key]: !isCollapsed }))}
+                    aria-expanded={!isCollapsed}
+                  >
+                    <span aria-hidden="true">{isCollapsed ? '▸' : '▾'}</span> {group.label} ({group.items.length})
+                  </button>
+                ) : (
+                  showGroupTitles && <h3 className="chat-history-group-title">{group.label}</h3>
+                )}
+                {!isCollapsed && (
+                  <div className="chat-history-group-items" role="list">
+                    {group.items.map((item) => (
+                      <ChatHistoryEntry
+                        key={item.id}
+                        item={item}
+                        isActive={item.id === activeChatId}
+                        isLoading={isLoading}
+                        folders={folders}
+                        onSelectChat={onSelectChat}
+                        onRenameChat={onRenameChat}
+                        onSetChatPinned={onSetChatPinned}
+                        onMoveChatToFolder={onMoveChatToFolder}
+                        onArchiveChat={onArchiveChat}
+                        onRestoreChat={onRestoreChat}
+                        onDeleteChat={onDeleteChat}
+                      />
+                    ))}
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
     </aside>
   );
 }
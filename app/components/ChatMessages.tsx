@@ -4,34 +4,51 @@ import { RefObject, ReactNode } from 'react';
 import { Message } from '../page';
 import LoadingSpinner from './LoadingSpinner';
 import CopyButton from './CopyButton';
+import FeedbackButtons from './FeedbackButtons';
+import type { MessageFeedback } from './FeedbackButtons';
 
 interface ChatMessagesProps {
   messages: Message[];
   isLoading: boolean;
+  loadingStatus?: string;
   messagesEndRef: RefObject<HTMLDivElement>;
   renderMessageContent?: (message: Message) => ReactNode;
+  onFeedback?: (message: Message, feedback: MessageFeedback) => Promise<void>;
 }
 
+// DOM id of a rendered message, so other parts of the page can scroll to it
+export const getMessageElementId = (messageId: string) => `message-${messageId}`;
+
 export default function ChatMessages({
   messages,
   isLoading,
+  loadingStatus = 'Searching documentation...',
   messagesEndRef,
-  renderMessageContent
+  renderMessageContent,
+  onFeedback
 }: ChatMessagesProps) {
   return (
     <div className="chat-messages">
-      {messages.map((message) => (
+      {messages.map((message, index) => (
         <div
           key={message.id}
+          id={getMessageElementId(message.id)}
           className={`message ${
             message.role === 'user' ? 'user-message' : 'bot-message'
-          } ${message.isError ? 'error-message' : ''}`}
+          } ${message.isError ? 'error-message' : ''} ${message.isStreaming ? 'streaming' : ''}`}
         >
           <div className="message-header">
             <span className="message-role">
               {message.role === 'user' ? 'You' : 'Assistant'}
             </span>
             <div className="message-actions">
+              {/* The first message is the welcome text, which is not an answer to anything */}
+              {onFeedback && message.role === 'assistant' && index > 0 && !message.isError && !message.isStreaming && (
+                <FeedbackButtons
+                  feedback={message.feedback}
+                  onSubmit={(feedback) => onFeedback(message, feedback)}
+                />
+              )}
               <CopyButton textToCopy={message.content} />
               <span className="message-time">{message.timestamp}</span>
             </div>
@@ -48,7 +65,7 @@ export default function ChatMessages({
       {isLoading && (
         <div className="message bot-message loading">
           <LoadingSpinner size="small" />
-          <span>Searching documentation...</span>
+          <span>{loadingStatus}</span>
         </div>
       )}
       
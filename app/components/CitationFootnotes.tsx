@@ -0,0 +1,41 @@
+'use client';
+
+import type { Citation } from '../lib/citations';
+import { getCitationAnchorId } from '../lib/citations';
+
+interface CitationFootnotesProps {
+  messageId: string;
+  citations: Citation[];
+}
+
+export default function CitationFootnotes({ messageId, citations }: CitationFootnotesProps) {
+  if (citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="citation-footnotes">
+      <h4 className="citation-footnotes-title">Sources</h4>
+      <ol className="citation-footnotes-list">
+        {citations.map((citation) => (
+          <li
+            key={citation.id}
+            id={getCitationAnchorId(messageId, citation.id)}
+            className="citation-footnote"
+          >
+            <span className="citation-footnote-marker">[{citation.id}]</span>
+            <div className="citation-footnote-body">
+              <span className="citation-footnote-source">{citation.source}</span>
+              {citation.section && (
+                <span className="citation-footnote-section">{citation.section}</span>
+              )}
+              {citation.snippet && (
+                <p className="citation-footnote-snippet">{citation.snippet}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
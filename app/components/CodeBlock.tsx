@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { RootContent } from 'hast';
+import RequestBuilderDialog from './RequestBuilderDialog';
+import { getCodeLanguageLabel, highlightCode, normalizeCodeLanguage } from '../lib/codeLanguages';
+import { parseCurlCommand } from '../lib/requestBuilder/curl';
+
+// Cheap check before parsing: the block starts with a curl command, optionally after a shell prompt
+const CURL_COMMAND_PATTERN = /^\s*(?:\$\s+)?curl\s/;
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  showRequestBuilder?: boolean; // Offer to open curl commands in the request builder
+}
+
+type CopyState = 'idle' | 'copied' | 'failed';
+
+const COPY_LABELS: Record<CopyState, string> = {
+  idle: 'Copy code',
+  copied: 'Copied',
+  failed: 'Copy failed'
+};
+const COPY_LABEL_RESET_MS = 1400;
+
+function renderHighlightedNodes(nodes: RootContent[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (node.type === 'text') {
+      return node.value;
+    }
+
+    if (node.type !== 'element') {
+      return null;
+    }
+
+    // lowlight only produces spans with highlight.js token classes
+    const className = Array.isArray(node.properties.className) ? node.properties.className.join(' ') : undefined;
+    return (
+      <span key={index} className={className}>
+        {renderHighlightedNodes(node.children)}
+      </span>
+    );
+  });
+}
+
+async function copyText(text: string) {
+  if (navigator.clipboard && window.isSecureContext) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  // Clipboard API is unavailable over plain http, so fall back to a hidden textarea
+  const textArea = document.createElement('textarea');
+  textArea.value = text;
+  textArea.setAttribute('readonly', '');
+  textArea.style.position = 'fixed';
+  textArea.style.opacity = '0';
+  textArea.style.pointerEvents = 'none';
+  document.body.appendChild(textArea);
+  textArea.select();
+  document.execCommand('copy');
+  document.body.removeChild(textArea);
+}
+
+export default function CodeBlock({ code, language = '', showRequestBuilder = true }: CodeBlockProps) {
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  const [isRequestBuilderOpen, setIsRequestBuilderOpen] = useState(false);
+  const resetTimer = useRef<number | null>(null);
+  const trimmedCode = code.replace(/\s+$/, '');
+  const normalizedLanguage = normalizeCodeLanguage(language);
+  const highlighted = useMemo(() => highlightCode(trimmedCode, normalizedLanguage), [trimmedCode, normalizedLanguage]);
+  const curlRequest = useMemo(
+    () => (showRequestBuilder && CURL_COMMAND_PATTERN.test(trimmedCode) ? parseCurlCommand(trimmedCode) : null),
+    [showRequestBuilder, trimmedCode]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (resetTimer.current !== null) {
+        window.clearTimeout(resetTimer.current);
+      }
+    };
+  }, []);
+
+  const handleCopy = async () => {
+    if (!trimmedCode.trim()) {
+      return;
+    }
+
+    try {
+      await copyText(trimmedCode);
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Unable to copy code snippet:', error);
+      setCopyState('failed');
+    }
+
+    if (resetTimer.current !== null) {
+      window.clearTimeout(resetTimer.current);
+    }
+    resetTimer.current = window.setTimeout(() => setCopyState('idle'), COPY_LABEL_RESET_MS);
+  };
+
+  return (
+    <div className="code-block-wrap">
+      <div className="code-block-actions">
+        <button
+          type="button"
+          className={copyState === 'copied' ? 'code-action-button copied' : 'code-action-button'}
+          aria-label="Copy code snippet"
+          title="Copy code"
+          onClick={handleCopy}
+        >
+          {COPY_LABELS[copyState]}
+        </button>
+        {curlRequest && (
+          <button
+            type="button"
+            className="code-action-button"
+            title="Edit this request, send it to the sandbox or turn it into code"
+            onClick={() => setIsRequestBuilderOpen(true)}
+          >
+            Open in request builder
+          </button>
+        )}
+      </div>
+      <pre data-language={getCodeLanguageLabel(normalizedLanguage)}>
+        <code className={normalizedLanguage ? `hljs language-${normalizedLanguage}` : undefined}>
+          {highlighted ? renderHighlightedNodes(highlighted.children) : trimmedCode}
+        </code>
+      </pre>
+      {isRequestBuilderOpen && curlRequest && (
+        <RequestBuilderDialog initialRequest={curlRequest} onClose={() => setIsRequestBuilderOpen(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useId, useSyncExternalStore } from 'react';
+import CodeBlock from './CodeBlock';
+import { getCodeLanguageLabel, normalizeCodeLanguage } from '../lib/codeLanguages';
+import {
+  getPreferredCodeLanguage,
+  setPreferredCodeLanguage,
+  subscribeToPreferredCodeLanguage
+} from '../lib/codeLanguagePreference';
+
+export interface CodeSample {
+  code: string;
+  language: string;
+}
+
+interface CodeTabsProps {
+  samples: CodeSample[];
+  showRequestBuilder?: boolean;
+}
+
+/**
+ * The same code sample in several languages. Picking a tab switches every answer to that language.
+ */
+export default function CodeTabs({ samples, showRequestBuilder = true }: CodeTabsProps) {
+  const tabsId = useId();
+  const preferredLanguage = useSyncExternalStore(
+    subscribeToPreferredCodeLanguage,
+    getPreferredCodeLanguage,
+    () => null
+  );
+  const languages = samples.map((sample) => normalizeCodeLanguage(sample.language));
+  const activeIndex = Math.max(0, preferredLanguage ? languages.indexOf(preferredLanguage) : 0);
+  const activeSample = samples[activeIndex];
+
+  return (
+    <div className="code-tabs">
+      <div className="code-tabs-list" role="tablist" aria-label="Code sample language">
+        {samples.map((sample, index) => (
+          <button
+            key={languages[index]}
+            type="button"
+            role="tab"
+            id={`${tabsId}-tab-${index}`}
+            aria-selected={index === activeIndex}
+            aria-controls={`${tabsId}-panel`}
+            className={index === activeIndex ? 'code-tab is-active' : 'code-tab'}
+            onClick={() => setPreferredCodeLanguage(languages[index])}
+          >
+            {getCodeLanguageLabel(sample.language)}
+          </button>
+        ))}
+      </div>
+      <div role="tabpanel" id={`${tabsId}-panel`} aria-labelledby={`${tabsId}-tab-${activeIndex}`}>
+        <CodeBlock code={activeSample.code} language={activeSample.language} showRequestBuilder={showRequestBuilder} />
+      </div>
+    </div>
+  );
+}
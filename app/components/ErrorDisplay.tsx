@@ -1,25 +1,72 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+
 interface ErrorDisplayProps {
   message: string;
   onRetry?: () => void;
+  retryAt?: string; // ISO time the server allows another request; retrying waits for it
+}
+
+function getSecondsUntil(retryAt?: string): number {
+  const retryTime = retryAt ? Date.parse(retryAt) : NaN;
+  return Number.isNaN(retryTime) ? 0 : Math.max(0, Math.ceil((retryTime - Date.now()) / 1000));
+}
+
+function formatCountdown(seconds: number): string {
+  if (seconds >= 3600) {
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  }
+
+  if (seconds >= 60) {
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  return `${seconds}s`;
 }
 
-export default function ErrorDisplay({ message, onRetry }: ErrorDisplayProps) {
+export default function ErrorDisplay({ message, onRetry, retryAt }: ErrorDisplayProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsUntil(retryAt));
+
+  useEffect(() => {
+    const initialSeconds = getSecondsUntil(retryAt);
+    setSecondsLeft(initialSeconds);
+    if (initialSeconds === 0) {
+      return;
+    }
+
+    const intervalId = setInterval(() => {
+      const remaining = getSecondsUntil(retryAt);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(intervalId);
+      }
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [retryAt]);
+
   return (
     <div className="message bot-message error-display">
-      <p className={onRetry ? 'error-display-message' : ''}>
+      <p className={onRetry || secondsLeft > 0 ? 'error-display-message' : ''}>
         <strong>Error:</strong> {message}
       </p>
-      
+
+      {secondsLeft > 0 && (
+        <p className="error-display-countdown" role="timer" aria-live="off">
+          You can try again in {formatCountdown(secondsLeft)}.
+        </p>
+      )}
+
       {onRetry && (
-        <button 
+        <button
           onClick={onRetry}
           className="error-retry-button"
+          disabled={secondsLeft > 0}
         >
           Try Again
         </button>
       )}
     </div>
   );
-} 
+}
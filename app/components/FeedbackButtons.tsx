@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { FEEDBACK_REASONS } from '../lib/feedback/validation';
+import type { FeedbackRating, FeedbackReason } from '../lib/feedback/types';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+}
+
+interface FeedbackButtonsProps {
+  feedback?: MessageFeedback;
+  onSubmit: (feedback: MessageFeedback) => Promise<void>;
+}
+
+function ThumbIcon({ direction }: { direction: 'up' | 'down' }) {
+  return (
+    <svg
+      width="16"
+      height="16"
+      viewBox="0 0 24 24"
+      fill="none"
+      xmlns="http://www.w3.org/2000/svg"
+      style={direction === 'down' ? { transform: 'rotate(180deg)' } : undefined}
+    >
+      <path
+        d="M7 10V20M7 10L4 10V20H7M7 10L11 3C12.6569 3 14 4.34315 14 6V9H18.5C19.8807 9 20.9 10.2764 20.6 11.6243L19.2 17.9243C18.9834 18.8992 18.1186 19.6 17.12 19.6H7"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+export default function FeedbackButtons({ feedback, onSubmit }: FeedbackButtonsProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason>(FEEDBACK_REASONS[0].value);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const send = async (nextFeedback: MessageFeedback) => {
+    setIsSubmitting(true);
+    setErrorMessage('');
+
+    try {
+      await onSubmit(nextFeedback);
+      setIsFormOpen(false);
+      setComment('');
+    } catch (error) {
+      console.error('Failed to send feedback:', error);
+      setErrorMessage('Could not send feedback. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleThumbsDown = () => {
+    setErrorMessage('');
+    setIsFormOpen((isOpen) => !isOpen);
+  };
+
+  const handleSubmitReason = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    send({ rating: 'down', reason, comment: comment.trim() || undefined });
+  };
+
+  return (
+    <div className="feedback-controls">
+      <div className="feedback-buttons">
+        <button
+          type="button"
+          className={`feedback-button ${feedback?.rating === 'up' ? 'is-selected' : ''}`}
+          onClick={() => send({ rating: 'up' })}
+          disabled={isSubmitting}
+          title={feedback?.rating === 'up' ? 'Thanks for the feedback' : 'Helpful answer'}
+          aria-label="Helpful answer"
+          aria-pressed={feedback?.rating === 'up'}
+        >
+          <ThumbIcon direction="up" />
+        </button>
+        <button
+          type="button"
+          className={`feedback-button ${feedback?.rating === 'down' ? 'is-selected' : ''}`}
+          onClick={handleThumbsDown}
+          disabled={isSubmitting}
+          title={feedback?.rating === 'down' ? 'Thanks for the feedback' : 'Unhelpful answer'}
+          aria-label="Unhelpful answer"
+          aria-pressed={feedback?.rating === 'down'}
+          aria-expanded={isFormOpen}
+        >
+          <ThumbIcon direction="down" />
+        </button>
+      </div>
+
+      {isFormOpen && (
+        <form className="feedback-form" onSubmit={handleSubmitReason}>
+          <label className="feedback-form-label">
+            What was wrong?
+            <select
+              value={reason}
+              onChange={(event) => setReason(event.target.value as FeedbackReason)}
+              disabled={isSubmitting}
+            >
+              {FEEDBACK_REASONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Optional: what did you expect to see?"
+            rows={3}
+            maxLength={2000}
+            disabled={isSubmitting}
+          />
+          {errorMessage && <p className="feedback-error" role="alert">{errorMessage}</p>}
+          <div className="feedback-form-actions">
+            <button type="button" onClick={() => setIsFormOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" className="feedback-submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Sending...' : 'Send feedback'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {errorMessage && !isFormOpen && <p className="feedback-error is-floating" role="alert">{errorMessage}</p>}
+    </div>
+  );
+}
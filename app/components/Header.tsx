@@ -2,8 +2,26 @@
 
 import { useState, useEffect } from 'react';
 import DarkModeToggle from './DarkModeToggle';
+import type { AuthIdentity } from '../lib/auth/types';
+import type { KnowledgeBaseSummary } from '../lib/knowledgeBases/types';
 
-export default function Header() {
+interface HeaderProps {
+  knowledgeBases?: KnowledgeBaseSummary[];
+  selectedKnowledgeBase?: string;
+  onKnowledgeBaseChange?: (knowledgeBaseId: string) => void;
+  isKnowledgeBaseLocked?: boolean; // e.g. while an answer is being generated
+  user?: AuthIdentity | null; // Signed-in user; unset when auth is off
+  onSignOut?: () => void;
+}
+
+export default function Header({
+  knowledgeBases = [],
+  selectedKnowledgeBase,
+  onKnowledgeBaseChange,
+  isKnowledgeBaseLocked = false,
+  user,
+  onSignOut
+}: HeaderProps) {
   const [isScrolled, setIsScrolled] = useState(false);
   
   // Add shadow to header when scrolled
@@ -80,6 +98,33 @@ export default function Header() {
       </div>
       <h1>Global Payments Developer Helper</h1>
       <div className="header-actions">
+        {/* Only worth offering a choice when more than one knowledge base is configured */}
+        {knowledgeBases.length > 1 && onKnowledgeBaseChange && (
+          <select
+            className="knowledge-base-select"
+            aria-label="Knowledge base"
+            value={selectedKnowledgeBase}
+            onChange={(event) => onKnowledgeBaseChange(event.target.value)}
+            disabled={isKnowledgeBaseLocked}
+            title={knowledgeBases.find((knowledgeBase) => knowledgeBase.id === selectedKnowledgeBase)?.description}
+          >
+            {knowledgeBases.map((knowledgeBase) => (
+              <option key={knowledgeBase.id} value={knowledgeBase.id}>
+                {knowledgeBase.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {user && onSignOut && (
+          <div className="header-user">
+            <span className="header-user-name" title={user.email || user.name}>
+              {user.name}
+            </span>
+            <button type="button" className="sign-out-button" onClick={onSignOut}>
+              Sign out
+            </button>
+          </div>
+        )}
         <DarkModeToggle />
       </div>
     </header>
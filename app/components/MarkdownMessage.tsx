@@ -0,0 +1,165 @@
+'use client';
+
+import { memo, useMemo, type MouseEvent as ReactMouseEvent } from 'react';
+import ReactMarkdown, { type Components, type Options, type UrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Element, ElementContent } from 'hast';
+import CodeBlock from './CodeBlock';
+import CodeTabs, { type CodeSample } from './CodeTabs';
+import type { Citation } from '../lib/citations';
+import remarkCitations from '../lib/remarkCitations';
+import remarkCodeTabs, { CODE_TABS_CLASS_NAME } from '../lib/remarkCodeTabs';
+
+interface MarkdownMessageProps {
+  content: string;
+  messageId: string;
+  citations?: Citation[];
+}
+
+// Everything else is dropped (keeping its text). Raw HTML in answers is shown as text, never rendered,
+// so the only divs are the code tab groups made by remarkCodeTabs.
+const ALLOWED_ELEMENTS = [
+  'div', 'p', 'br', 'hr', 'strong', 'em', 'del', 'a', 'code', 'pre', 'blockquote', 'sup', 'img', 'input',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+];
+
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:|#)/i;
+const SAFE_IMAGE_PATTERN = /^https?:\/\//i;
+
+// Only web, mail and in-page links survive; javascript:, data: and relative URLs become plain text
+const urlTransform: UrlTransform = (url, key) => {
+  const trimmedUrl = url.trim();
+  const pattern = key === 'src' ? SAFE_IMAGE_PATTERN : SAFE_LINK_PATTERN;
+  return pattern.test(trimmedUrl) ? trimmedUrl : '';
+};
+
+function getNodeText(node: ElementContent): string {
+  if (node.type === 'text') {
+    return node.value;
+  }
+
+  return node.type === 'element' ? node.children.map(getNodeText).join('') : '';
+}
+
+// Code text and fence language of a <pre><code class="language-x"> element
+function readCodeSample(pre: Element): CodeSample | null {
+  const codeNode = pre.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+  if (!codeNode) {
+    return null;
+  }
+
+  const classNames = Array.isArray(codeNode.properties.className) ? codeNode.properties.className : [];
+  const languageClass = classNames.map(String).find((className) => className.startsWith('language-'));
+  return { code: getNodeText(codeNode), language: languageClass?.slice('language-'.length) || '' };
+}
+
+function handleAnchorClick(event: ReactMouseEvent<HTMLAnchorElement>) {
+  const targetId = event.currentTarget.getAttribute('href')?.slice(1) || '';
+  const target = targetId ? document.getElementById(targetId) : null;
+  if (!target) {
+    return;
+  }
+
+  event.preventDefault();
+  target.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  target.classList.remove('is-highlighted');
+  // Restart the highlight animation when the same footnote is clicked twice.
+  void target.offsetWidth;
+  target.classList.add('is-highlighted');
+}
+
+const components: Components = {
+  h1: ({ node, ...props }) => <h1 className="message-h1" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="message-h2" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="message-h3" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="message-h4" {...props} />,
+  h5: ({ node, ...props }) => <h4 className="message-h4" {...props} />,
+  h6: ({ node, ...props }) => <h4 className="message-h4" {...props} />,
+  a: ({ node, href, children, ...props }) => {
+    if (!href) {
+      return <span>{children}</span>;
+    }
+
+    if (href.startsWith('#')) {
+      return (
+        <a href={href} onClick={handleAnchorClick} {...props}>
+          {children}
+        </a>
+      );
+    }
+
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" {...props}>
+        {children}
+      </a>
+    );
+  },
+  // Embedded images are usually broken or irrelevant in answers, so they are shown as links
+  img: ({ src, alt }) => {
+    const label = alt?.trim() ? `Image: ${alt.trim()}` : 'Image link';
+    return src ? (
+      <a href={src} target="_blank" rel="noopener noreferrer">
+        {label}
+      </a>
+    ) : (
+      <>{alt || ''}</>
+    );
+  },
+  pre: ({ node }) => {
+    const sample = node ? readCodeSample(node) : null;
+    return sample ? <CodeBlock code={sample.code} language={sample.language} /> : null;
+  },
+  div: ({ node, className, children }) => {
+    if (!node || className !== CODE_TABS_CLASS_NAME) {
+      return <div>{children}</div>;
+    }
+
+    const samples = node.children
+      .map((child) => (child.type === 'element' && child.tagName === 'pre' ? readCodeSample(child) : null))
+      .filter((sample): sample is CodeSample => sample !== null);
+    return <CodeTabs samples={samples} />;
+  },
+  table: ({ node, className, ...props }) => (
+    <div className="table-responsive">
+      <table className="markdown-table" {...props} />
+    </div>
+  ),
+  ul: ({ node, className, ...props }) => (
+    <ul className={className ? `api-list ${className}` : 'api-list'} {...props} />
+  ),
+  // GFM task list items are the only inputs markdown produces; they are read-only
+  input: ({ type, checked }) =>
+    type === 'checkbox' ? <input type="checkbox" checked={!!checked} disabled readOnly /> : null
+};
+
+/**
+ * Render an assistant or user message from markdown (GFM) to React, linking [n] markers to citation footnotes
+ */
+function MarkdownMessage({ content, messageId, citations }: MarkdownMessageProps) {
+  const remarkPlugins = useMemo<Options['remarkPlugins']>(
+    () => [
+      remarkGfm,
+      remarkCodeTabs,
+      [remarkCitations, { messageId, citationIds: (citations || []).map((citation) => citation.id) }]
+    ],
+    [messageId, citations]
+  );
+
+  return (
+    <div className="markdown-message">
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+export default memo(MarkdownMessage);
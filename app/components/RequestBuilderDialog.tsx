@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import CodeBlock from './CodeBlock';
+import CodeTabs from './CodeTabs';
+import { fetchRequestBuilderConfig, sendRequestBuilderRequest } from '../lib/requestBuilderClient';
+import { SNIPPET_LANGUAGES, generateSnippet } from '../lib/requestBuilder/snippets';
+import { HTTP_METHODS } from '../lib/requestBuilder/validation';
+import type { HttpHeader, HttpRequestDraft, SandboxResponse } from '../lib/requestBuilder/types';
+
+interface RequestBuilderDialogProps {
+  initialRequest: HttpRequestDraft;
+  onClose: () => void;
+}
+
+function getUrlOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+// Keep the path and query of an example while pointing it at another host
+function replaceUrlOrigin(url: string, origin: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    return `${origin}${parsedUrl.pathname}${parsedUrl.search}${parsedUrl.hash}`;
+  } catch {
+    return origin;
+  }
+}
+
+function formatResponseBody(response: SandboxResponse): { body: string; language: string } {
+  const contentType = response.headers.find((header) => header.name === 'content-type')?.value || '';
+  if (contentType.includes('json')) {
+    try {
+      return { body: JSON.stringify(JSON.parse(response.body), null, 2), language: 'json' };
+    } catch {
+      return { body: response.body, language: 'json' };
+    }
+  }
+
+  return { body: response.body, language: contentType.includes('xml') || contentType.includes('html') ? 'xml' : '' };
+}
+
+/**
+ * Editable copy of a curl example from an answer: switch it to the sandbox, send it through the
+ * server proxy and get the same request in other languages
+ */
+export default function RequestBuilderDialog({ initialRequest, onClose }: RequestBuilderDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [request, setRequest] = useState<HttpRequestDraft>(initialRequest);
+  const [sandboxOrigins, setSandboxOrigins] = useState<string[] | null>(null);
+  const [response, setResponse] = useState<SandboxResponse | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    // showModal puts the dialog in the top layer, above the chat and out of the message's transforms
+    dialogRef.current?.showModal();
+    fetchRequestBuilderConfig().then((config) => setSandboxOrigins(config?.sandboxOrigins || []));
+  }, []);
+
+  const snippets = useMemo(
+    () => SNIPPET_LANGUAGES.map((language) => ({ language, code: generateSnippet(request, language) })),
+    [request]
+  );
+
+  const urlOrigin = getUrlOrigin(request.url);
+  const isSandboxUrl = !!urlOrigin && !!sandboxOrigins?.includes(urlOrigin);
+  const canHaveBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+  const updateHeader = (index: number, change: Partial<HttpHeader>) => {
+    setRequest((previous) => ({
+      ...previous,
+      headers: previous.headers.map((header, headerIndex) => (headerIndex === index ? { ...header, ...change } : header))
+    }));
+  };
+
+  const handleSend = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSending(true);
+    setErrorMessage('');
+    setResponse(null);
+
+    try {
+      setResponse(await sendRequestBuilderRequest({ ...request, body: canHaveBody ? request.body : '' }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'The request could not be sent.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const formattedResponse = response ? formatResponseBody(response) : null;
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="request-builder"
+      aria-labelledby="request-builder-title"
+      onClose={onClose}
+      onClick={(event) => {
+        // A click on the backdrop lands on the dialog element itself
+        if (event.target === dialogRef.current) {
+          dialogRef.current.close();
+        }
+      }}
+    >
+      <form className="request-builder-form" onSubmit={handleSend}>
+        <div className="request-builder-header">
+          <h2 id="request-builder-title">Request builder</h2>
+          <button type="button" className="request-builder-close" onClick={() => dialogRef.current?.close()} aria-label="Close request builder">
+            ×
+          </button>
+        </div>
+
+        <div className="request-builder-line">
+          <select
+            value={request.method}
+            onChange={(event) => setRequest((previous) => ({ ...previous, method: event.target.value }))}
+            aria-label="HTTP method"
+          >
+            {HTTP_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {method}
+              </option>
+            ))}
+          </select>
+          <input
+            type="url"
+            value={request.url}
+            onChange={(event) => setRequest((previous) => ({ ...previous, url: event.target.value }))}
+            aria-label="Request URL"
+            spellCheck={false}
+            required
+          />
+        </div>
+
+        {sandboxOrigins && sandboxOrigins.length > 0 && (
+          <div className="request-builder-sandbox">
+            {sandboxOrigins.map((origin) => (
+              <button
+                key={origin}
+                type="button"
+                className={urlOrigin === origin ? 'is-active' : ''}
+                onClick={() => setRequest((previous) => ({ ...previous, url: replaceUrlOrigin(previous.url, origin) }))}
+              >
+                Use {origin}
+              </button>
+            ))}
+            {!isSandboxUrl && <span>Requests can only be sent to a sandbox URL.</span>}
+          </div>
+        )}
+        {sandboxOrigins && sandboxOrigins.length === 0 && (
+          <p className="request-builder-note">Sending requests is turned off on this server; you can still copy the snippets.</p>
+        )}
+
+        <fieldset className="request-builder-headers">
+          <legend>Headers</legend>
+          {request.headers.map((header, index) => (
+            <div key={index} className="request-builder-header-row">
+              <input
+                type="text"
+                value={header.name}
+                onChange={(event) => updateHeader(index, { name: event.target.value })}
+                placeholder="Name"
+                aria-label={`Header ${index + 1} name`}
+                spellCheck={false}
+              />
+              <input
+                type="text"
+                value={header.value}
+                onChange={(event) => updateHeader(index, { value: event.target.value })}
+                placeholder="Value"
+                aria-label={`Header ${index + 1} value`}
+                spellCheck={false}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  setRequest((previous) => ({
+                    ...previous,
+                    headers: previous.headers.filter((_, headerIndex) => headerIndex !== index)
+                  }))
+                }
+                aria-label={`Remove header ${header.name || index + 1}`}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="request-builder-add-header"
+            onClick={() => setRequest((previous) => ({ ...previous, headers: [...previous.headers, { name: '', value: '' }] }))}
+          >
+            Add header
+          </button>
+        </fieldset>
+
+        {canHaveBody && (
+          <label className="request-builder-body">
+            Body
+            <textarea
+              value={request.body}
+              onChange={(event) => setRequest((previous) => ({ ...previous, body: event.target.value }))}
+              rows={8}
+              spellCheck={false}
+            />
+          </label>
+        )}
+
+        <div className="request-builder-actions">
+          <button type="submit" className="request-builder-send" disabled={isSending || !isSandboxUrl}>
+            {isSending ? 'Sending...' : 'Send to sandbox'}
+          </button>
+        </div>
+
+        {errorMessage && (
+          <p className="request-builder-error" role="alert">
+            {errorMessage}
+          </p>
+        )}
+
+        {response && formattedResponse && (
+          <div className="request-builder-response" aria-live="polite">
+            <p className={`request-builder-status ${response.status >= 400 ? 'is-error' : ''}`}>
+              {response.status} {response.statusText} · {response.durationMs} ms
+              {response.truncated && ' · response truncated'}
+            </p>
+            <details>
+              <summary>Response headers ({response.headers.length})</summary>
+              <ul>
+                {response.headers.map((header) => (
+                  <li key={header.name}>
+                    <strong>{header.name}:</strong> {header.value}
+                  </li>
+                ))}
+              </ul>
+            </details>
+            {formattedResponse.body && (
+              <CodeBlock code={formattedResponse.body} language={formattedResponse.language} showRequestBuilder={false} />
+            )}
+          </div>
+        )}
+
+        <div className="request-builder-snippets">
+          <h3>Code</h3>
+          <CodeTabs samples={snippets} showRequestBuilder={false} />
+        </div>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import type { ResponseCode } from '../lib/responseCodes/types';
+import { RESPONSE_CODE_CATEGORIES, RESPONSE_CODE_CATEGORY_LABELS } from '../lib/responseCodes/validation';
+
+interface ResponseCodeTableProps {
+  codes: ResponseCode[];
+}
+
+/**
+ * Response codes the agent looked up, grouped by soft/hard decline and shown as documented
+ */
+export default function ResponseCodeTable({ codes }: ResponseCodeTableProps) {
+  if (codes.length === 0) {
+    return null;
+  }
+
+  const groups = RESPONSE_CODE_CATEGORIES
+    .map((category) => ({ category, codes: codes.filter((entry) => entry.category === category) }))
+    .filter((group) => group.codes.length > 0);
+
+  return (
+    <div className="response-codes">
+      {groups.map((group) => (
+        <section key={group.category} className="response-codes-group">
+          <h4 className="response-codes-title">
+            {RESPONSE_CODE_CATEGORY_LABELS[group.category]}
+            <span className="response-codes-count">{group.codes.length}</span>
+          </h4>
+          <div className="table-responsive">
+            <table className="markdown-table response-codes-table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Reason</th>
+                  <th>Description</th>
+                  <th>Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.codes.map((entry) => (
+                  <tr key={`${entry.code}-${entry.source}-${entry.section || ''}`}>
+                    <td className="response-code">{entry.code}</td>
+                    <td>{entry.reason}</td>
+                    <td>{entry.description}</td>
+                    <td className="response-code-source">
+                      <span>{entry.source}</span>
+                      {entry.section && <span className="response-code-section">{entry.section}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
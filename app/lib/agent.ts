@@ -1,77 +1,44 @@
-// Import OpenAI properly
-const { OpenAI } = require('openai');
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
-// Use the provided vector store info
-const VECTOR_STORE_NAME = process.env.VECTOR_STORE_NAME || 'globalpaymentsdocs';
-const VECTOR_STORE_ID = process.env.VECTOR_STORE_ID || 'vs_69288aa80bf881918d805ebd82e191f9';
-const FILE_ID = process.env.FILE_ID || '';
-
-// Define type for vector store item
-interface VectorStoreItem {
-  id?: string;
-  metadata?: {
-    content?: string;
-    source?: string;
-    [key: string]: any;
-  };
-  score?: number;
-}
-
-// Define type for search results
-interface SearchResult {
-  content: string;
-  source: string;
-  score: number;
-}
-
-// Define type for documentation search response
-interface DocumentationSearchResponse {
-  results: SearchResult[];
-  error?: {
-    type: string;
-    message: string;
-  };
-}
-
-// Define types for OpenAI responses API
-interface FileCitation {
-  text?: string;
-  file_id?: string;
-  file_path?: string;
-  file_name?: string;
-  [key: string]: any;
-}
-
-interface ToolResponse {
-  type: string;
-  file_citations?: FileCitation[];
-  [key: string]: any;
-}
+import { buildCitations } from './citations';
+import type { Citation } from './citations';
+import { getRetrievalProvider } from './retrieval';
+import { getOpenAIClient } from './openaiClient';
+import { addModelUsage, createModelUsage } from './modelUsage';
+import type { ModelUsage } from './modelUsage';
+import { isQueryRewriteEnabled, rewriteRetrievalQuery } from './queryRewrite';
+import { getAgentToolDefinitions, runAgentToolCall } from './agentTools';
+import type { AgentToolCall, AgentToolContext } from './agentTools/types';
+import { getKnowledgeBase } from './knowledgeBases';
+import type { KnowledgeBase } from './knowledgeBases/types';
+import { lookupResponseCodes } from './responseCodes';
+import { inferResponseCodeCategory } from './responseCodes/extract';
+import { LOOKUP_RESPONSE_CODES_TOOL_NAME } from './responseCodes/tool';
+import type { ResponseCode } from './responseCodes/types';
+import { buildRankingReport, describeRankingRules, loadRankingRules, rankSearchResults } from './ranking';
+import type { RankedSearchResult, RankingReport } from './ranking';
+import type { DocumentationSearchResponse, SearchResult } from './retrieval/types';
 
 // Default model - GPT-5.1
 const DEFAULT_MODEL = 'gpt-5.1-2025-11-13';
-const DOCS_ONLY_NO_MATCH_MESSAGE =
+export const DOCS_ONLY_NO_MATCH_MESSAGE =
   "I couldn't verify that in the Global Payments documentation. Please rephrase your question or contact Global Payments support.";
-const DOCS_ONLY_UNAVAILABLE_MESSAGE =
+export const DOCS_ONLY_UNAVAILABLE_MESSAGE =
   "I couldn't access the Global Payments documentation right now, so I can't provide a verified answer. Please try again in a moment.";
 const FOLLOW_UP_INDICATOR_PATTERN =
   /^(?:and|also|what about|how about|is it|does it|can it|that|it|this)\b|\b(?:it|that|this|their|those|these)\b/i;
 const MAX_RETRIEVAL_HISTORY_MESSAGES = 6;
 const MAX_RETRIEVAL_QUERY_CHARS = 1200;
 const MIN_CONTEXT_SCORE = 0.55;
-const REALEX_PATTERN = /\brealex(?:\s*payments)?\b|realexpayments/i;
-const GLOBAL_PAYMENTS_PATTERN = /\bglobal\s*payments\b|globalpayments|global[_\s-]?payments/i;
 const DOCS_CONTEXT_ESCAPE_PATTERN =
   /(?:say so and i can switch|i can switch out of (?:the )?documentation context|switch out of (?:the )?documentation context|talk about that instead|general or fun\/abstract sense|not related to global payments)/i;
 const COMPARISON_OR_TRADEOFF_PATTERN =
   /\b(?:compare|comparison|difference|different|vs\.?|versus|better|best|trade-?off|pros?\s+and\s+cons?|advantages?|disadvantages?)\b/i;
 const MULTI_PART_PATTERN =
   /\?\s*[^?]+\?|\b(?:first|second|third|1[\).]|2[\).]|3[\).])\b/i;
+const RESPONSE_CODE_PATTERN = /\b\d{3,6}\b/g;
+// Tool-calling steps allowed per answer; the model must answer after the last one
+const AGENT_MAX_STEPS = Math.max(0, Number.parseInt(process.env.AGENT_MAX_STEPS || '4', 10) || 0);
+const MAX_CONTEXT_RESULTS = 3;
+const MAX_CONTEXT_CONTENT_CHARS = 5000;
 const AMBIGUOUS_FOLLOW_UP_PRONOUN_PATTERN =
   /\b(?:it|this|that|they|them|their|those|these|one|ones)\b/i;
 
@@ -95,22 +62,267 @@ function truncateText(value: string, maxLength: number): string {
   return `${value.slice(0, Math.max(0, maxLength - 3))}...`;
 }
 
-function referencesRealex(text: string): boolean {
-  return REALEX_PATTERN.test(text);
+type ReasoningEffort = 'low' | 'medium';
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Progress events emitted while the agent runs, used by the streaming chat route.
+export type AgentStreamEvent =
+  | { type: 'retrieval_started'; query: string; queries: string[] }
+  | { type: 'sources'; sources: Citation[] }
+  | { type: 'answer_delta'; delta: string }
+  | { type: 'answer_reset'; reason: string }
+  | { type: 'tool_call'; name: string; arguments: Record<string, unknown> };
+
+export interface AgentRunOptions {
+  onEvent?: (event: AgentStreamEvent) => void;
+  knowledgeBaseId?: string; // Defaults to the default knowledge base in config/knowledge-bases.json
+}
+
+function extractOutputText(response: any): string {
+  if (typeof response?.output_text === 'string') {
+    return response.output_text;
+  }
+
+  if (!Array.isArray(response?.output)) {
+    return '';
+  }
+
+  return response.output
+    .filter((item: any) => item.type === 'message' && Array.isArray(item.content))
+    .flatMap((item: any) => item.content)
+    .filter((contentItem: any) => contentItem.type === 'output_text' && typeof contentItem.text === 'string')
+    .map((contentItem: any) => contentItem.text)
+    .join('');
 }
 
-function classifyResultBrandAffinity(result: SearchResult) {
-  const haystack = `${result.source}\n${result.content}`;
+/**
+ * Create a model response, streaming output text deltas when a handler is provided.
+ * Resolves with the completed response object in both modes.
+ */
+async function createModelResponse(
+  params: Record<string, any>,
+  usage: ModelUsage,
+  onDelta?: (delta: string) => void
+) {
+  const openai = getOpenAIClient();
+
+  if (!onDelta) {
+    const response = await openai.responses.create(params);
+    addModelUsage(usage, response);
+    return response;
+  }
+
+  const stream = await openai.responses.create({ ...params, stream: true });
+  let completedResponse: any = null;
+
+  for await (const event of stream) {
+    if (event.type === 'response.output_text.delta' && typeof event.delta === 'string') {
+      onDelta(event.delta);
+    } else if (event.type === 'response.completed') {
+      completedResponse = event.response;
+    } else if (event.type === 'response.failed' || event.type === 'error') {
+      const failure = event.response?.error || event;
+      throw Object.assign(new Error(failure?.message || 'Model stream failed.'), {
+        code: failure?.code,
+        type: failure?.type
+      });
+    }
+  }
+
+  if (!completedResponse) {
+    throw new Error('Model stream ended without a completed response.');
+  }
+
+  addModelUsage(usage, completedResponse);
+
   return {
-    mentionsRealex: REALEX_PATTERN.test(haystack),
-    mentionsGlobalPayments: GLOBAL_PAYMENTS_PATTERN.test(haystack)
+    ...completedResponse,
+    output_text: extractOutputText(completedResponse)
   };
 }
 
-type ReasoningEffort = 'low' | 'medium';
-export interface ConversationMessage {
-  role: 'user' | 'assistant';
-  content: string;
+function getFunctionCalls(response: any): Array<{ name: string; arguments: string; call_id: string }> {
+  return Array.isArray(response?.output)
+    ? response.output.filter((item: any) => item.type === 'function_call')
+    : [];
+}
+
+// Whole sections share their first chunk's index, so the section is part of the key.
+function getSearchResultSourceKey(result: SearchResult): string {
+  return `${result.source}\n${result.section || ''}\n${result.chunkIndex ?? result.content}`;
+}
+
+/**
+ * Tool context for one answer attempt, starting from the initially retrieved sources
+ */
+function createAgentToolContext(
+  userQuestion: string,
+  knowledgeBase: KnowledgeBase,
+  initialSources: SearchResult[],
+  searchDocumentation: AgentToolContext['searchDocumentation']
+) {
+  const sources = [...initialSources];
+  const responseCodes: ResponseCode[] = [];
+  const seenResponseCodes = new Set<string>();
+
+  const context: AgentToolContext = {
+    userQuestion,
+    knowledgeBase,
+    searchDocumentation,
+    addSources(results) {
+      return results.map((result) => {
+        const existingIndex = sources.findIndex(
+          (source) => getSearchResultSourceKey(source) === getSearchResultSourceKey(result)
+        );
+        if (existingIndex !== -1) {
+          return existingIndex + 1;
+        }
+
+        sources.push(result);
+        return sources.length;
+      });
+    },
+    addResponseCodes(codes) {
+      codes.forEach((entry) => {
+        const key = `${entry.code}\n${entry.source}\n${entry.section || ''}`;
+        if (!seenResponseCodes.has(key)) {
+          seenResponseCodes.add(key);
+          responseCodes.push(entry);
+        }
+      });
+    }
+  };
+
+  return { context, sources, responseCodes };
+}
+
+/**
+ * Let the model call tools until it answers or the step budget is used up. Each step runs every
+ * function call of one response and sends the outputs back; after the last step tools are disabled.
+ */
+async function runAgentLoop(
+  params: Record<string, any>,
+  context: AgentToolContext,
+  toolCalls: AgentToolCall[],
+  usage: ModelUsage,
+  onEvent?: (event: AgentStreamEvent) => void
+) {
+  const tools = AGENT_MAX_STEPS > 0 ? getAgentToolDefinitions() : [];
+  const onDelta = onEvent ? (delta: string) => onEvent({ type: 'answer_delta', delta }) : undefined;
+  let response = await createModelResponse(tools.length > 0 ? { ...params, tools } : params, usage, onDelta);
+
+  for (let step = 1; step <= AGENT_MAX_STEPS; step++) {
+    const functionCalls = getFunctionCalls(response);
+    if (functionCalls.length === 0) {
+      break;
+    }
+
+    // Drop any text streamed before the tool calls; the answer comes in a later response.
+    if (response.output_text) {
+      onEvent?.({ type: 'answer_reset', reason: 'tool_call' });
+    }
+
+    const toolOutputs = [];
+    for (const functionCall of functionCalls) {
+      const startedAt = Date.now();
+      const result = await runAgentToolCall(functionCall.name, functionCall.arguments, context);
+      onEvent?.({ type: 'tool_call', name: functionCall.name, arguments: result.arguments });
+      console.log(`Agent step ${step}: ${functionCall.name}(${functionCall.arguments}) -> ${result.summary}`);
+
+      toolCalls.push({
+        step,
+        name: functionCall.name,
+        arguments: result.arguments,
+        summary: result.summary,
+        durationMs: Date.now() - startedAt,
+        ...(result.error ? { error: result.error } : {})
+      });
+      toolOutputs.push({ type: 'function_call_output', call_id: functionCall.call_id, output: result.output });
+    }
+
+    response = await createModelResponse(
+      {
+        model: params.model,
+        instructions: params.instructions,
+        reasoning: params.reasoning,
+        text: params.text,
+        tools,
+        // Make the model answer once the budget is used up.
+        tool_choice: step === AGENT_MAX_STEPS ? 'none' : 'auto',
+        previous_response_id: response.id,
+        input: toolOutputs
+      },
+      usage,
+      onDelta
+    );
+  }
+
+  return response;
+}
+
+function formatContextEntries(results: SearchResult[]): string {
+  return results
+    .map((result, index) => {
+      // Truncate long content to reduce tokens
+      const content = result.content.length > MAX_CONTEXT_CONTENT_CHARS
+        ? result.content.substring(0, MAX_CONTEXT_CONTENT_CHARS) + "..."
+        : result.content;
+      const section = result.section ? `\nSection: ${result.section}` : '';
+
+      return `[${index + 1}]\nSource: ${result.source}${section}\nContent: ${content}\n---\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Re-rank search results with the knowledge base's ranking rules and keep the best ones above
+ * the context score threshold
+ */
+function selectContextResults(results: SearchResult[], input: string, knowledgeBase: KnowledgeBase) {
+  const rankedResults = rankSearchResults(results, input, loadRankingRules(knowledgeBase.rankingRulesPath));
+  // Use a moderate threshold so follow-up queries can still ground to docs
+  const selectedCandidates: RankedSearchResult[] = rankedResults
+    .filter((result) => !result.excludedBy && result.adjustedScore > MIN_CONTEXT_SCORE)
+    .slice(0, MAX_CONTEXT_RESULTS);
+
+  return {
+    selected: selectedCandidates.map(
+      ({ content, source, score, chunkIndex, section, fileId }): SearchResult => ({
+        content,
+        source,
+        score,
+        chunkIndex,
+        section,
+        fileId
+      })
+    ),
+    ranking: buildRankingReport(rankedResults, selectedCandidates, MIN_CONTEXT_SCORE, knowledgeBase.rankingRulesPath)
+  };
+}
+
+/**
+ * Catalog entries for the codes, or the soft/hard decline category, mentioned in the question
+ */
+async function findDocumentedResponseCodes(input: string, knowledgeBase: KnowledgeBase): Promise<ResponseCode[]> {
+  const codes = input.match(RESPONSE_CODE_PATTERN) || [];
+  const category = inferResponseCodeCategory(input);
+
+  if (codes.length === 0 && category === 'other') {
+    return [];
+  }
+
+  try {
+    return await lookupResponseCodes(codes.length > 0 ? { codes } : { category }, {
+      docsDir: knowledgeBase.docsDir,
+      catalogPath: knowledgeBase.responseCodesPath
+    });
+  } catch (error) {
+    console.warn('Response code catalog unavailable:', error);
+    return [];
+  }
 }
 
 function buildConversationInput(input: string, history: ConversationMessage[]): string {
@@ -161,11 +373,8 @@ Current user question:
 ${trimmedInput || input}`;
 }
 
-function buildRetrievalQuery(input: string, history: ConversationMessage[]): string {
-  const trimmedInput = input.trim();
-  const baseQuery = trimmedInput || input;
-
-  const normalizedHistory = Array.isArray(history)
+function normalizeRetrievalHistory(history: ConversationMessage[]): ConversationMessage[] {
+  return Array.isArray(history)
     ? history
         .filter((message) => {
           return (
@@ -179,6 +388,12 @@ function buildRetrievalQuery(input: string, history: ConversationMessage[]): str
           content: message.content.trim()
         }))
     : [];
+}
+
+function buildRetrievalQuery(input: string, history: ConversationMessage[]): string {
+  const trimmedInput = input.trim();
+  const baseQuery = trimmedInput || input;
+  const normalizedHistory = normalizeRetrievalHistory(history);
 
   if (normalizedHistory.length === 0) {
     return baseQuery;
@@ -210,6 +425,83 @@ Recent assistant context: ${truncateText(recentAssistantContext, 450)}`;
   return truncateText(retrievalQuery, MAX_RETRIEVAL_QUERY_CHARS);
 }
 
+type QueryRewriteStrategy = 'heuristic' | 'llm';
+
+/**
+ * Build the retrieval queries for a turn. With QUERY_REWRITE=llm, follow-ups and multi-part
+ * questions are rewritten into a standalone query plus sub-queries; otherwise, or when the
+ * rewrite fails, the heuristic query from buildRetrievalQuery is used.
+ */
+async function buildRetrievalQueries(
+  input: string,
+  history: ConversationMessage[],
+  model: string,
+  usage: ModelUsage
+): Promise<{ queries: string[]; strategy: QueryRewriteStrategy }> {
+  const heuristic = { queries: [buildRetrievalQuery(input, history)], strategy: 'heuristic' as QueryRewriteStrategy };
+  const baseQuery = input.trim() || input;
+  const normalizedHistory = normalizeRetrievalHistory(history);
+  const isMultiPart = MULTI_PART_PATTERN.test(baseQuery);
+
+  if (!isQueryRewriteEnabled() || (normalizedHistory.length === 0 && !isMultiPart)) {
+    return heuristic;
+  }
+
+  const rewrite = await rewriteRetrievalQuery(baseQuery, normalizedHistory, {
+    model,
+    allowSubQueries: isMultiPart,
+    usage
+  });
+
+  if (!rewrite) {
+    return heuristic;
+  }
+
+  console.log("Rewrote retrieval query:", JSON.stringify(rewrite));
+  return { queries: [rewrite.query, ...rewrite.subQueries], strategy: 'llm' };
+}
+
+function getSearchResultKey(result: SearchResult): string {
+  return `${result.source}\n${result.chunkIndex ?? result.content}`;
+}
+
+/**
+ * Merge the results of several retrieval queries, keeping the best score for chunks found more than once.
+ * An error is only reported when no query returned results.
+ */
+function mergeSearchResponses(responses: DocumentationSearchResponse[]): DocumentationSearchResponse {
+  if (responses.length === 1) {
+    return responses[0];
+  }
+
+  const results: SearchResult[] = [];
+  const indexByKey: Record<string, number> = {};
+
+  responses.forEach((response) => {
+    (response.results || []).forEach((result) => {
+      const key = getSearchResultKey(result);
+      const existingIndex = indexByKey[key];
+
+      if (existingIndex === undefined) {
+        indexByKey[key] = results.length;
+        results.push(result);
+      } else if (result.score > results[existingIndex].score) {
+        results[existingIndex] = result;
+      }
+    });
+  });
+
+  if (results.length > 0) {
+    return { results: results.sort((a, b) => b.score - a.score) };
+  }
+
+  const errors = responses.map((response) => response.error).filter(Boolean);
+  return {
+    results: [],
+    error: errors.find((error) => error?.type === "VectorSearchError") || errors[0]
+  };
+}
+
 function determineReasoningEffort(input: string, history: ConversationMessage[]) {
   const trimmedInput = input.trim();
   const reasons: string[] = [];
@@ -263,22 +555,41 @@ function determineReasoningEffort(input: string, history: ConversationMessage[])
  * @param input - The user's question
  * @param model - The model to use (defaults to GPT-5.1)
  * @param conversationHistory - Bounded conversation context
+ * @param options - Optional progress event handler; when set, answer text is streamed.
+ *   `knowledgeBaseId` selects the vector store, persona and ranking rules.
  */
 export async function runGlobalPaymentsDocsAgent(
   input: string,
   model: string = DEFAULT_MODEL,
-  conversationHistory: ConversationMessage[] = []
+  conversationHistory: ConversationMessage[] = [],
+  options: AgentRunOptions = {}
 ) {
+  const { onEvent } = options;
+  const usage = createModelUsage();
+
   try {
-    // Search OpenAI vector store
-    const retrievalQuery = buildRetrievalQuery(input, conversationHistory);
-    const docSearchResponse = await searchDocumentation(retrievalQuery, model);
+    const knowledgeBase = getKnowledgeBase(options.knowledgeBaseId);
+    if (!knowledgeBase) {
+      throw new Error(`Unknown knowledge base "${options.knowledgeBaseId}"`);
+    }
+
+    // Search the documentation with each retrieval query and merge the results
+    const { queries: retrievalQueries, strategy: queryRewrite } = await buildRetrievalQueries(
+      input,
+      conversationHistory,
+      model,
+      usage
+    );
+    onEvent?.({ type: 'retrieval_started', query: retrievalQueries[0], queries: retrievalQueries });
+    const docSearchResponse = mergeSearchResponses(
+      await Promise.all(retrievalQueries.map((query) => searchDocumentation(query, knowledgeBase, model)))
+    );
 
     // Prepare context from vector search results
     let context = '';
     let vectorSearchError = '';
     let highConfidenceResults: SearchResult[] = [];
-    const userAskedForRealex = referencesRealex(input);
+    let ranking: RankingReport | undefined;
 
     if (docSearchResponse.error) {
       vectorSearchError = `Note: ${docSearchResponse.error.message}`;
@@ -286,75 +597,21 @@ export async function runGlobalPaymentsDocsAgent(
     }
 
     if (Array.isArray(docSearchResponse.results) && docSearchResponse.results.length > 0) {
-      // Re-rank results to prioritize Global Payments over Realex
-      const rankedCandidates = docSearchResponse.results
-        .map(result => {
-          const { mentionsRealex, mentionsGlobalPayments } = classifyResultBrandAffinity(result);
-          let adjustedScore = result.score;
-
-          // Strongly boost explicit Global Payments content.
-          if (mentionsGlobalPayments) {
-            adjustedScore = result.score * 2.2;
-          }
-
-          // Strongly down-rank legacy Realex content when it is not also tagged as Global Payments.
-          if (mentionsRealex && !mentionsGlobalPayments) {
-            adjustedScore = adjustedScore * 0.15;
-          }
-
-          // Mild penalty when a chunk mentions both terms (often migration/legacy references).
-          if (mentionsRealex && mentionsGlobalPayments) {
-            adjustedScore = adjustedScore * 0.8;
-          }
-
-          return {
-            ...result,
-            adjustedScore,
-            mentionsRealex,
-            mentionsGlobalPayments
-          };
-        })
-        .sort((a, b) => b.adjustedScore - a.adjustedScore) // Sort by adjusted score
-        .filter(result => result.adjustedScore > MIN_CONTEXT_SCORE); // Use a moderate threshold so follow-up queries can still ground to docs
-
-      // Exclude Realex-only chunks unless the user explicitly asked about Realex.
-      const preferredCandidates = rankedCandidates.filter((result) => {
-        if (userAskedForRealex) {
-          return true;
-        }
-
-        return !result.mentionsRealex || result.mentionsGlobalPayments;
-      });
-
-      const selectedCandidates = (
-        preferredCandidates.length > 0
-          ? preferredCandidates
-          : userAskedForRealex
-            ? rankedCandidates
-            : []
-      ).slice(0, 3);
-
-      highConfidenceResults = selectedCandidates.map(({ content, source, score }) => ({
-        content,
-        source,
-        score
-      }));
-
-      context = highConfidenceResults
-        .map((result) => {
-          // Truncate long content to reduce tokens
-          const content = result.content.length > 5000
-            ? result.content.substring(0, 5000) + "..."
-            : result.content;
-
-          return `Content: ${content}\nSource: ${result.source}\n---\n`;
-        })
-        .join('\n');
+      const selection = selectContextResults(docSearchResponse.results, input, knowledgeBase);
+      highConfidenceResults = selection.selected;
+      ranking = selection.ranking;
+      context = formatContextEntries(highConfidenceResults);
     } else {
       context = 'No relevant documentation found.';
     }
 
-    if (highConfidenceResults.length === 0) {
+    let citations = buildCitations(highConfidenceResults);
+    onEvent?.({ type: 'sources', sources: citations });
+
+    // Codes in the catalog can still be answered through the lookup tool when retrieval found nothing.
+    const documentedResponseCodes = await findDocumentedResponseCodes(input, knowledgeBase);
+
+    if (highConfidenceResults.length === 0 && documentedResponseCodes.length === 0) {
       const response =
         docSearchResponse.error?.type === "VectorSearchError"
           ? DOCS_ONLY_UNAVAILABLE_MESSAGE
@@ -364,18 +621,26 @@ export async function runGlobalPaymentsDocsAgent(
         response,
         metadata: {
           context: [],
-          vectorSearchError: docSearchResponse.error
+          citations: [],
+          vectorSearchError: docSearchResponse.error,
+          knowledgeBase: knowledgeBase.id,
+          retrievalQueries,
+          queryRewrite,
+          ranking,
+          usage
         },
         fullResponse: null
       };
     }
 
-    const systemPrompt = `You are a documentation-only AI assistant for Global Payments Inc. Be concise.
+    // Brand and source preferences come from the ranking rules file, not from the prompt itself.
+    const rankingPreferences = describeRankingRules(loadRankingRules(knowledgeBase.rankingRulesPath));
+    const systemPrompt = `${knowledgeBase.persona} Be concise.
 
 When responding:
 1. Base your answers on the documentation provided in the context.
 2. If the answer is in the documentation, answer confidently.
-3. Prioritize Global Payments-branded documentation and terminology over legacy Realex/Realex Payments references, unless the user explicitly asks about Realex.
+3. ${rankingPreferences ? `The context was ranked with these documentation preferences; follow them in your answer and terminology too: ${rankingPreferences}.` : 'Prefer the documentation and terminology of the earliest context entries.'}
 4. Resolve follow-up references from prior turns when possible (for example, "it" should map to the most recent clear topic).
 5. For "best option" questions, if the docs do not define an objective best choice, state that clearly and summarize trade-offs from the documentation context.
 6. If information is missing from the documentation context, respond exactly with: "${DOCS_ONLY_NO_MATCH_MESSAGE}"
@@ -383,10 +648,13 @@ When responding:
 8. Never answer from general knowledge.
 9. Never offer to switch out of documentation mode or discuss non-documentation topics.
 10. Keep responses brief but helpful.
-${vectorSearchError ? `11. ${vectorSearchError}` : ''}
+11. Cite the documentation you used with the numbered markers of the context entries, e.g. [1] or [2], placed right after the sentence they support. Only use numbers that appear in the context and never cite inside code blocks.
+12. You can call tools before answering: search_documentation to search again with a more specific query when the context does not cover part of the question, get_documentation_section to read a whole section of a source when an entry is cut off, and ${LOOKUP_RESPONSE_CODES_TOOL_NAME} for response codes. Tool results are documentation context; cite them with the citation numbers they return. Only call tools when the context is not enough.
+13. For questions about response codes, call ${LOOKUP_RESPONSE_CODES_TOOL_NAME} and give the codes, reasons and descriptions exactly as it returns them. Never list codes it did not return.
+${vectorSearchError ? `14. ${vectorSearchError}` : ''}
 
-Context from documentation:
-${context}`;
+Context from documentation (numbered entries):
+${context || 'No relevant documentation found.'}`;
 
     const modelInput = buildConversationInput(input, conversationHistory);
     const { primaryEffort, retryEfforts, reasons } = determineReasoningEffort(input, conversationHistory);
@@ -394,6 +662,18 @@ ${context}`;
     let responseText = '';
     let usedReasoningEffort: ReasoningEffort = primaryEffort;
     let lastModelError: any = null;
+    let responseCodes: ResponseCode[] = [];
+    let contextSources = highConfidenceResults;
+    let toolCalls: AgentToolCall[] = [];
+
+    // Searches made by the model go through the same ranking and threshold as the initial retrieval.
+    const searchDocumentationForTool: AgentToolContext['searchDocumentation'] = async (query) => {
+      const toolSearchResponse = await searchDocumentation(query, knowledgeBase, model);
+      if (!Array.isArray(toolSearchResponse.results) || toolSearchResponse.results.length === 0) {
+        return { results: [], error: toolSearchResponse.error?.message };
+      }
+      return { results: selectContextResults(toolSearchResponse.results, input, knowledgeBase).selected };
+    };
 
     for (let attemptIndex = 0; attemptIndex < retryEfforts.length; attemptIndex++) {
       const reasoningEffort = retryEfforts[attemptIndex];
@@ -410,28 +690,45 @@ ${context}`;
       );
 
       try {
-        const attemptResponse = await openai.responses.create({
-          model: model,
-          instructions: systemPrompt,
-          input: modelInput,
-          reasoning: { effort: reasoningEffort },
-          text: { verbosity: "medium" }
-        });
+        const toolState = createAgentToolContext(
+          input,
+          knowledgeBase,
+          highConfidenceResults,
+          searchDocumentationForTool
+        );
+        const attemptToolCalls: AgentToolCall[] = [];
+        const attemptResponse = await runAgentLoop(
+          {
+            model: model,
+            instructions: systemPrompt,
+            input: modelInput,
+            reasoning: { effort: reasoningEffort },
+            text: { verbosity: "medium" }
+          },
+          toolState.context,
+          attemptToolCalls,
+          usage,
+          onEvent
+        );
 
         const attemptText = enforceDocsOnlyBoundary(attemptResponse.output_text || '');
         const shouldRetryWithMedium =
           attemptIndex === 0 &&
           reasoningEffort === 'low' &&
           attemptText === DOCS_ONLY_NO_MATCH_MESSAGE &&
-          highConfidenceResults.length > 0;
+          (highConfidenceResults.length > 0 || documentedResponseCodes.length > 0);
 
         if (shouldRetryWithMedium) {
           console.log("Retrying with medium reasoning after low effort returned no-match despite available context.");
+          onEvent?.({ type: 'answer_reset', reason: 'retry_with_medium_effort' });
           continue;
         }
 
         response = attemptResponse;
         responseText = attemptText;
+        responseCodes = attemptText === DOCS_ONLY_NO_MATCH_MESSAGE ? [] : toolState.responseCodes;
+        contextSources = toolState.sources;
+        toolCalls = attemptToolCalls;
         break;
       } catch (error: any) {
         lastModelError = error;
@@ -442,6 +739,7 @@ ${context}`;
 
         if (canRetryWithMedium) {
           console.warn("Low-effort generation failed; retrying once with medium effort.");
+          onEvent?.({ type: 'answer_reset', reason: 'retry_after_error' });
           continue;
         }
 
@@ -454,9 +752,19 @@ ${context}`;
     }
 
     console.log("GPT-5.1 response output_text:", responseText);
+
+    // Tool results were numbered after the initial context; send the full source list.
+    if (contextSources.length > highConfidenceResults.length) {
+      citations = buildCitations(contextSources);
+      onEvent?.({ type: 'sources', sources: citations });
+    }
     
-    // If there was a vector search error, append a note to the response
-    if (docSearchResponse.error && !responseText.includes(docSearchResponse.error.message)) {
+    // If there was a vector search error, append a note to the response (unless the catalog answered it)
+    if (
+      docSearchResponse.error &&
+      responseCodes.length === 0 &&
+      !responseText.includes(docSearchResponse.error.message)
+    ) {
       responseText += `\n\n(Note: ${docSearchResponse.error.message})`;
     }
     
@@ -464,9 +772,18 @@ ${context}`;
       response: responseText,
       metadata: { 
         context: docSearchResponse.results,
+        citations,
         vectorSearchError: docSearchResponse.error,
+        knowledgeBase: knowledgeBase.id,
+        retrievalQueries,
+        queryRewrite,
+        ranking,
+        responseCodes,
+        toolCalls,
+        agentSteps: toolCalls.reduce((steps, call) => Math.max(steps, call.step), 0),
         reasoningEffort: usedReasoningEffort,
-        reasoningReason: reasons.length > 0 ? reasons.join(',') : 'default_low'
+        reasoningReason: reasons.length > 0 ? reasons.join(',') : 'default_low',
+        usage
       },
       fullResponse: response // Include the full response object
     };
@@ -481,172 +798,21 @@ ${context}`;
     }, null, 2));
     return {
       response: "I'm sorry, I encountered an error while processing your request. Please try again.",
-      error: error
+      error: error,
+      usage // Tokens spent before the failure still count towards quotas
     };
   }
 }
 
 /**
- * Search Global Payments documentation
+ * Search a knowledge base's documentation with the configured retrieval provider
  */
-async function searchDocumentation(query: string, model: string = DEFAULT_MODEL): Promise<DocumentationSearchResponse> {
-  try {
-    console.log("Searching documentation with query:", query);
-    console.log("Using vector store ID:", VECTOR_STORE_ID);
-    
-    try {
-      // Format exactly as shown in the example
-      const requestPayload = {
-        model: model,
-        input: query,
-        instructions: "You are a helpful assistant that searches Global Payments documentation",
-        tools: [
-          {
-            type: "file_search",
-            vector_store_ids: [VECTOR_STORE_ID],
-            max_num_results: 20 // Request more results for better re-ranking
-          }
-        ]
-      };
-      
-      console.log("Request payload for vector search:", JSON.stringify(requestPayload, null, 2));
-      
-      const response = await openai.responses.create(requestPayload);
-      
-      console.log("Response from vector search:", JSON.stringify(response, null, 2));
-      
-      // Define interfaces for the OpenAI response structure
-      interface FileSearchOutput {
-        type: string;
-        file_citations?: FileCitation[];
-        [key: string]: any;
-      }
-      
-      // Process the response
-      if (response.output && Array.isArray(response.output)) {
-        // Look for message type outputs
-        const messageOutputs = response.output.filter((item: any) => item.type === "message");
-        
-        for (const messageOutput of messageOutputs) {
-          if (messageOutput.content && Array.isArray(messageOutput.content)) {
-            for (const contentItem of messageOutput.content) {
-              if (contentItem.annotations && Array.isArray(contentItem.annotations)) {
-                const fileCitations = contentItem.annotations.filter(
-                  (annotation: any) => annotation.type === "file_citation"
-                );
-                
-                if (fileCitations && fileCitations.length > 0) {
-                  console.log("File citations found in annotations:", fileCitations.length);
-                  
-                  // Combine file citations with their text from the output
-                  const results: SearchResult[] = fileCitations.map((citation: any) => ({
-                    content: contentItem.text || '',
-                    source: citation.filename || citation.file_id || 'Global Payments documentation',
-                    score: 0.95 // Default score
-                  }));
-                  
-                  return { results };
-                }
-              }
-            }
-          }
-        }
-      }
-      
-      // Legacy handling for the old format
-      if (response.tool_use_outputs && response.tool_use_outputs.length > 0) {
-        // Find the file search output
-        const fileSearchOutput = response.tool_use_outputs.find(
-          (output: FileSearchOutput) => output.type === 'file_search'
-        );
-        
-        if (fileSearchOutput && fileSearchOutput.file_citations && fileSearchOutput.file_citations.length > 0) {
-          console.log("File citations found in tool_use_outputs:", fileSearchOutput.file_citations.length);
-          // Map file citations to search results
-          const results: SearchResult[] = fileSearchOutput.file_citations.map((citation: FileCitation) => ({
-            content: citation.text || '',
-            source: citation.file_path || citation.file_name || citation.file_id || 'Global Payments documentation',
-            score: 0.95 // We don't have actual scores from the API, so use a high default
-          }));
-          
-          return { results };
-        } else {
-          console.log("No file citations found in tool_use_outputs");
-        }
-      }
-      
-      if (response.output_text && response.output_text.trim() !== '') {
-        // If there are no file citations but we have output text,
-        // Check if the response appears to contain documentation content
-        const outputText = response.output_text.trim();
-        const hasDocIndicators = 
-          // Check for text that suggests documentation references
-          outputText.includes("documentation excerpt") || 
-          outputText.includes("This is supported in the documentation") ||
-          // Check for response code patterns that match your documentation format
-          /\"\d{5}\s[A-Z][a-z]+\s[a-z]+\s-\s[a-z\s]+\"/.test(outputText) ||
-          // Check for multiple formatted error codes (likely from docs)
-          (outputText.match(/\d{5}/g) || []).length >= 2;
-        
-        if (hasDocIndicators) {
-          // Likely found info from docs despite missing citations
-          console.log("Output appears to contain documentation despite missing citations");
-          return {
-            results: [{
-              content: outputText,
-              source: "Global Payments documentation", // No specific citation
-              score: 0.9
-            }]
-          };
-        } else {
-          console.log("No file citations and no documentation indicators found");
-          return {
-            results: [],
-            error: {
-              type: "NoDocumentMatches",
-              message: "The search didn't find relevant documents in the knowledge base."
-            }
-          };
-        }
-      }
-      
-      // No results found in the vector search
-      console.log("No results from file search");
-      return {
-        results: [],
-        error: {
-          type: "NoResultsError",
-          message: "The information you requested could not be found in our knowledge base."
-        }
-      };
-    } catch (error: any) {
-      console.error("File search error:", error);
-      console.error("File search error details:", JSON.stringify({
-        message: error?.message,
-        status: error?.status,
-        code: error?.code,
-        type: error?.type,
-        model: model
-      }, null, 2));
-
-      // All vector search methods failed
-      console.error("All vector search methods failed:", error);
-      return {
-        results: [],
-        error: {
-          type: "VectorSearchError",
-          message: "The information you requested could not be found in our knowledge base."
-        }
-      };
-    }
-  } catch (error) {
-    console.error("Error searching documentation:", error);
-    return {
-      results: [],
-      error: {
-        type: "VectorSearchError",
-        message: "The information you requested could not be found in our knowledge base."
-      }
-    };
-  }
+async function searchDocumentation(
+  query: string,
+  knowledgeBase: KnowledgeBase,
+  model: string = DEFAULT_MODEL
+): Promise<DocumentationSearchResponse> {
+  const provider = getRetrievalProvider(knowledgeBase);
+  console.log(`Searching ${knowledgeBase.id} documentation with ${provider.name} provider`);
+  return provider.search(query, { model });
 }
@@ -0,0 +1,66 @@
+import { findLocalIndexChunks } from '../retrieval/localIndex';
+import type { AgentTool } from './types';
+
+// Whole sections can be long; keep the tool output within a reasonable prompt size.
+const MAX_SECTION_CHARS = 12000;
+
+export const getDocumentationSectionTool: AgentTool = {
+  definition: {
+    type: 'function',
+    name: 'get_documentation_section',
+    description:
+      'Read a whole documentation section (or a whole file) by source, when a context entry is cut off or ' +
+      'only part of a section was retrieved. Use the source and section names shown in the context.',
+    parameters: {
+      type: 'object',
+      properties: {
+        source: { type: 'string', description: 'Documentation file, e.g. "payments/refunds.md".' },
+        section: {
+          type: 'string',
+          description: 'Section breadcrumb, e.g. "Refunds > Partial refunds". Leave empty for the whole file.'
+        }
+      },
+      required: ['source', 'section'],
+      additionalProperties: false
+    },
+    strict: true
+  },
+
+  async run(args, context) {
+    const source = typeof args.source === 'string' ? args.source.trim() : '';
+    const section = typeof args.section === 'string' ? args.section.trim() : '';
+    if (!source) {
+      return { output: { error: 'A source is required.' }, summary: 'missing source' };
+    }
+
+    const { docsDir, localIndexPath } = context.knowledgeBase;
+    const chunks = await findLocalIndexChunks({ docsDir, indexPath: localIndexPath }, source, section || undefined);
+    if (chunks.length === 0) {
+      return {
+        output: { error: `No section "${section || '(whole file)'}" found in ${source}.` },
+        summary: 'not found'
+      };
+    }
+
+    const content = chunks.map((chunk) => chunk.content).join('\n\n');
+    const [citationId] = context.addSources([
+      {
+        content,
+        source: chunks[0].source,
+        score: 1,
+        chunkIndex: chunks[0].chunkIndex,
+        section: section || undefined
+      }
+    ]);
+
+    return {
+      output: {
+        citation: citationId,
+        source: chunks[0].source,
+        section: section || undefined,
+        content: content.length > MAX_SECTION_CHARS ? `${content.slice(0, MAX_SECTION_CHARS)}...` : content
+      },
+      summary: `${chunks.length} chunk${chunks.length === 1 ? '' : 's'} (citation ${citationId})`
+    };
+  }
+};
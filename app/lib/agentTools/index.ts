@@ -0,0 +1,39 @@
+import { lookupResponseCodesTool } from '../responseCodes/tool';
+import { getDocumentationSectionTool } from './getDocumentationSection';
+import { searchDocumentationTool } from './searchDocumentation';
+import type { AgentTool, AgentToolContext, AgentToolDefinition } from './types';
+
+const AGENT_TOOLS: AgentTool[] = [searchDocumentationTool, getDocumentationSectionTool, lookupResponseCodesTool];
+
+export function getAgentToolDefinitions(): AgentToolDefinition[] {
+  return AGENT_TOOLS.map((tool) => tool.definition);
+}
+
+/**
+ * Run one function call from the model. Failures are returned as tool output so the model can recover.
+ */
+export async function runAgentToolCall(name: string, rawArguments: string, context: AgentToolContext) {
+  const tool = AGENT_TOOLS.find((candidate) => candidate.definition.name === name);
+  let args: Record<string, any> = {};
+
+  try {
+    args = JSON.parse(rawArguments || '{}') || {};
+  } catch {
+    const error = 'Arguments must be a JSON object.';
+    return { arguments: args, output: JSON.stringify({ error }), summary: 'invalid arguments', error };
+  }
+
+  if (!tool) {
+    const error = `Unknown tool ${name}`;
+    return { arguments: args, output: JSON.stringify({ error }), summary: 'unknown tool', error };
+  }
+
+  try {
+    const result = await tool.run(args, context);
+    return { arguments: args, output: JSON.stringify(result.output), summary: result.summary };
+  } catch (error) {
+    console.error(`Tool ${name} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Tool failed';
+    return { arguments: args, output: JSON.stringify({ error: message }), summary: 'failed', error: message };
+  }
+}
@@ -0,0 +1,56 @@
+import type { AgentTool } from './types';
+
+const MAX_TOOL_RESULT_CHARS = 5000;
+
+export const searchDocumentationTool: AgentTool = {
+  definition: {
+    type: 'function',
+    name: 'search_documentation',
+    description:
+      'Search the Global Payments documentation again with a more specific query, e.g. when the context ' +
+      'does not cover part of the question. Returns numbered entries you can cite.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'A standalone search query using the exact product, field or endpoint names.'
+        }
+      },
+      required: ['query'],
+      additionalProperties: false
+    },
+    strict: true
+  },
+
+  async run(args, context) {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      return { output: { error: 'A non-empty query is required.' }, summary: 'missing query' };
+    }
+
+    const { results, error } = await context.searchDocumentation(query);
+    if (results.length === 0) {
+      return {
+        output: { results: [], note: error || 'No relevant documentation found for this query.' },
+        summary: '0 results'
+      };
+    }
+
+    const citationIds = context.addSources(results);
+    return {
+      output: {
+        results: results.map((result, index) => ({
+          citation: citationIds[index],
+          source: result.source,
+          section: result.section,
+          content:
+            result.content.length > MAX_TOOL_RESULT_CHARS
+              ? `${result.content.slice(0, MAX_TOOL_RESULT_CHARS)}...`
+              : result.content
+        }))
+      },
+      summary: `${results.length} result${results.length === 1 ? '' : 's'} (citations ${citationIds.join(', ')})`
+    };
+  }
+};
@@ -0,0 +1,46 @@
+import type { KnowledgeBase } from '../knowledgeBases/types';
+import type { ResponseCode } from '../responseCodes/types';
+import type { SearchResult } from '../retrieval/types';
+
+// Responses API function tool definition
+export interface AgentToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  strict: boolean;
+}
+
+/**
+ * State shared by the tools during one agent run. Sources added here are numbered after the
+ * initial context so the model can cite tool results like any other context entry.
+ */
+export interface AgentToolContext {
+  userQuestion: string;
+  knowledgeBase: KnowledgeBase; // The knowledge base the question is asked against
+  // Search, rank and filter like the initial retrieval
+  searchDocumentation(query: string): Promise<{ results: SearchResult[]; error?: string }>;
+  // Returns the citation number of each result; results already in the context keep their number
+  addSources(results: SearchResult[]): number[];
+  addResponseCodes(codes: ResponseCode[]): void;
+}
+
+export interface AgentToolResult {
+  output: unknown; // Sent back to the model as JSON
+  summary: string; // Short description for the metadata, e.g. "3 results"
+}
+
+export interface AgentTool {
+  definition: AgentToolDefinition;
+  run(args: Record<string, any>, context: AgentToolContext): Promise<AgentToolResult>;
+}
+
+// One tool call made by the model, reported in the response metadata
+export interface AgentToolCall {
+  step: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  summary: string;
+  durationMs: number;
+  error?: string;
+}
@@ -0,0 +1,50 @@
+import { secretsMatch } from './signedToken';
+import type { AuthIdentity } from './types';
+
+interface NamedSecret {
+  name: string;
+  secret: string;
+}
+
+/**
+ * Parse a comma-separated `name:secret` list. Secrets may contain colons; entries without one are skipped.
+ */
+function parseNamedSecrets(value: string | undefined, variableName: string): NamedSecret[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separatorIndex = entry.indexOf(':');
+      const name = separatorIndex === -1 ? '' : entry.slice(0, separatorIndex).trim();
+      const secret = separatorIndex === -1 ? '' : entry.slice(separatorIndex + 1).trim();
+      if (!name || !secret) {
+        console.warn(`Skipping malformed ${variableName} entry; expected name:secret`);
+        return null;
+      }
+      return { name, secret };
+    })
+    .filter((entry): entry is NamedSecret => entry !== null);
+}
+
+// AUTH_USERS: "alice:password,bob:password" for AUTH_MODE=password
+const USERS = parseNamedSecrets(process.env.AUTH_USERS, 'AUTH_USERS');
+// AUTH_API_KEYS: "ci:key,partner:key" for programmatic access with "Authorization: Bearer <key>"
+const API_KEYS = parseNamedSecrets(process.env.AUTH_API_KEYS, 'AUTH_API_KEYS');
+
+export function hasPasswordUsers(): boolean {
+  return USERS.length > 0;
+}
+
+export async function verifyPassword(username: string, password: string): Promise<AuthIdentity | null> {
+  const user = USERS.find((candidate) => candidate.name === username.trim());
+  // Compare against a dummy for unknown users too, so they take as long as wrong passwords.
+  const matches = await secretsMatch(password, user ? user.secret : USERS[0]?.secret || '');
+  return user && matches ? { id: `password:${user.name}`, name: user.name, method: 'password' } : null;
+}
+
+export async function findApiKeyIdentity(apiKey: string): Promise<AuthIdentity | null> {
+  const matches = await Promise.all(API_KEYS.map((candidate) => secretsMatch(apiKey, candidate.secret)));
+  const match = API_KEYS.find((_, index) => matches[index]);
+  return match ? { id: `api_key:${match.name}`, name: match.name, method: 'api_key' } : null;
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, createSessionToken, getSessionMaxAgeSeconds } from './index';
+import type { AuthIdentity } from './types';
+
+export const OIDC_STATE_COOKIE_NAME = 'docsbot_oidc_state';
+export const OIDC_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+// Lax still sends the cookie on the top-level redirect back from the identity provider.
+export function getCookieOptions(maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: maxAgeSeconds
+  };
+}
+
+export async function setSessionCookie(response: NextResponse, identity: AuthIdentity) {
+  const maxAgeSeconds = getSessionMaxAgeSeconds();
+  response.cookies.set(SESSION_COOKIE_NAME, await createSessionToken(identity), getCookieOptions(maxAgeSeconds));
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', getCookieOptions(0));
+}
+
+/**
+ * Only same-site paths are followed after login, so the login page cannot be used as an open redirect
+ */
+export function sanitizeReturnTo(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.includes('\\')
+    ? value
+    : '/';
+}
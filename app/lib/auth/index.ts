@@ -0,0 +1,87 @@
+import type { NextRequest } from 'next/server';
+import { findApiKeyIdentity } from './credentials';
+import { createSignedToken, readSignedToken } from './signedToken';
+import type { AuthIdentity, AuthMode } from './types';
+
+// This module is used by the edge middleware, so it must not import Node built-ins.
+
+function parseAuthMode(value: string | undefined): AuthMode {
+  const mode = (value || 'none').toLowerCase();
+  if (mode === 'none' || mode === 'password' || mode === 'oidc') {
+    return mode;
+  }
+
+  // Fail closed: a typo must not leave a deployment open.
+  console.warn(`Unknown AUTH_MODE "${mode}", falling back to password`);
+  return 'password';
+}
+
+const AUTH_MODE = parseAuthMode(process.env.AUTH_MODE);
+// Secret that signs session cookies; required unless AUTH_MODE is none
+const AUTH_SECRET = process.env.AUTH_SECRET || '';
+const SESSION_MAX_AGE_SECONDS =
+  Math.max(1, Number.parseFloat(process.env.AUTH_SESSION_MAX_AGE_HOURS || '') || 12) * 60 * 60;
+
+export const SESSION_COOKIE_NAME = 'docsbot_session';
+// Set by the middleware for route handlers; any copy sent by the client is removed first
+export const AUTH_IDENTITY_HEADER = 'x-docsbot-identity';
+
+export function getAuthMode(): AuthMode {
+  return AUTH_MODE;
+}
+
+export function getAuthSecret(): string {
+  return AUTH_SECRET;
+}
+
+export function getSessionMaxAgeSeconds(): number {
+  return SESSION_MAX_AGE_SECONDS;
+}
+
+export function createSessionToken(identity: AuthIdentity): Promise<string> {
+  return createSignedToken(identity, AUTH_SECRET, SESSION_MAX_AGE_SECONDS);
+}
+
+export function readBearerToken(headers: Headers): string {
+  const match = (headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Identity behind a request: a valid session cookie, or else a known API key sent as a bearer token
+ */
+export async function authenticateRequest(req: NextRequest): Promise<AuthIdentity | null> {
+  const session = await readSignedToken<AuthIdentity>(req.cookies.get(SESSION_COOKIE_NAME)?.value, AUTH_SECRET);
+  if (session?.id) {
+    return session;
+  }
+
+  const bearerToken = readBearerToken(req.headers);
+  return bearerToken ? findApiKeyIdentity(bearerToken) : null;
+}
+
+export function encodeIdentityHeader(identity: AuthIdentity): string {
+  return encodeURIComponent(JSON.stringify(identity));
+}
+
+/**
+ * Identity the middleware attached to a request, or null when auth is off
+ */
+export function getRequestIdentity(headers: Headers): AuthIdentity | null {
+  const value = headers.get(AUTH_IDENTITY_HEADER);
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const identity = JSON.parse(decodeURIComponent(value));
+    return identity && typeof identity.id === 'string' ? identity : null;
+  } catch {
+    return null;
+  }
+}
+
+// Short form for log lines
+export function describeIdentity(identity: AuthIdentity | null): string {
+  return identity ? `${identity.id} (${identity.method})` : 'anonymous';
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { fromBase64Url, toBase64Url } from './signedToken';
+import type { AuthIdentity } from './types';
+
+// OpenID Connect provider for AUTH_MODE=oidc, using the authorization code flow with PKCE
+const OIDC_ISSUER = (process.env.OIDC_ISSUER || '').replace(/\/+$/, '');
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || '';
+const OIDC_SCOPES = process.env.OIDC_SCOPES || 'openid email profile';
+// Defaults to /api/auth/callback on the origin of the login request
+const OIDC_REDIRECT_URI = process.env.OIDC_REDIRECT_URI || '';
+// Comma-separated email domains that may sign in; empty allows every account the provider accepts
+const ALLOWED_EMAIL_DOMAINS = (process.env.AUTH_ALLOWED_EMAIL_DOMAINS || '')
+  .split(',')
+  .map((domain) => domain.trim().toLowerCase())
+  .filter(Boolean);
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+// Kept in a short-lived signed cookie between the redirect to the provider and the callback
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+}
+
+let discoveryDocument: Promise<OidcDiscoveryDocument> | null = null;
+
+export function isOidcConfigured(): boolean {
+  return !!(OIDC_ISSUER && OIDC_CLIENT_ID && OIDC_CLIENT_SECRET);
+}
+
+function getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+  if (!discoveryDocument) {
+    discoveryDocument = fetch(`${OIDC_ISSUER}/.well-known/openid-configuration`, { cache: 'no-store' })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed with status ${response.status}`);
+        }
+        return (await response.json()) as OidcDiscoveryDocument;
+      })
+      .catch((error) => {
+        // Try again on the next login instead of caching the failure.
+        discoveryDocument = null;
+        throw error;
+      });
+  }
+
+  return discoveryDocument;
+}
+
+function randomToken(): string {
+  return toBase64Url(crypto.randomBytes(32));
+}
+
+export function createOidcLoginState(redirectUri: string, returnTo: string): OidcLoginState {
+  return {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    redirectUri: OIDC_REDIRECT_URI || redirectUri,
+    returnTo
+  };
+}
+
+export async function buildAuthorizationUrl(loginState: OidcLoginState): Promise<string> {
+  const { authorization_endpoint } = await getDiscoveryDocument();
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', OIDC_CLIENT_ID);
+  url.searchParams.set('redirect_uri', loginState.redirectUri);
+  url.searchParams.set('scope', OIDC_SCOPES);
+  url.searchParams.set('state', loginState.state);
+  url.searchParams.set('nonce', loginState.nonce);
+  url.searchParams.set(
+    'code_challenge',
+    toBase64Url(crypto.createHash('sha256').update(loginState.codeVerifier).digest())
+  );
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+function isAllowedEmail(claims: Record<string, any>): boolean {
+  if (ALLOWED_EMAIL_DOMAINS.length === 0) {
+    return true;
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : '';
+  return claims.email_verified !== false && ALLOWED_EMAIL_DOMAINS.includes(email.split('@')[1] || '');
+}
+
+/**
+ * Exchange the authorization code for tokens and turn the ID token into an identity. The ID token
+ * comes straight from the token endpoint over TLS, so its claims are checked but not its signature.
+ */
+export async function completeOidcLogin(code: string, loginState: OidcLoginState): Promise<AuthIdentity> {
+  const { issuer, token_endpoint } = await getDiscoveryDocument();
+  const response = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: loginState.redirectUri,
+      client_id: OIDC_CLIENT_ID,
+      client_secret: OIDC_CLIENT_SECRET,
+      code_verifier: loginState.codeVerifier
+    }),
+    cache: 'no-store'
+  });
+
+  const tokens = await response.json().catch(() => null);
+  if (!response.ok || typeof tokens?.id_token !== 'string') {
+    throw new Error(`OIDC token exchange failed with status ${response.status}: ${tokens?.error || 'no ID token'}`);
+  }
+
+  const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(tokens.id_token.split('.')[1] || '')));
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== issuer || !audiences.includes(OIDC_CLIENT_ID)) {
+    throw new Error('OIDC ID token was issued for another issuer or client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    throw new Error('OIDC ID token has expired');
+  }
+  if (claims.nonce !== loginState.nonce) {
+    throw new Error('OIDC ID token nonce does not match the login request');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('OIDC ID token has no subject');
+  }
+  if (!isAllowedEmail(claims)) {
+    throw Object.assign(new Error(`OIDC account ${claims.email || claims.sub} is not in an allowed domain`), {
+      code: 'email_not_allowed'
+    });
+  }
+
+  return {
+    id: `oidc:${claims.sub}`,
+    name: claims.name || claims.preferred_username || claims.email || claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    method: 'oidc'
+  };
+}
@@ -0,0 +1,97 @@
+// Signed tokens use Web Crypto only, so they can be checked in the edge middleware as well as in routes.
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface SignedPayload<T> {
+  data: T;
+  exp: number; // Expiry, in milliseconds since the epoch
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function importSigningKey(secret: string) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify'
+  ]);
+}
+
+// Random per process: it only has to make both sides of a comparison equally long
+let comparisonKey: Promise<CryptoKey> | null = null;
+
+/**
+ * Compare a secret sent by a client with the expected one in constant time. Both are hashed with
+ * HMAC first, so neither the length nor a matching prefix shows in the time taken.
+ */
+export async function secretsMatch(candidate: string, secret: string): Promise<boolean> {
+  if (!comparisonKey) {
+    comparisonKey = crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']) as Promise<CryptoKey>;
+  }
+
+  const key = await comparisonKey;
+  const [candidateDigest, secretDigest] = await Promise.all([
+    crypto.subtle.sign('HMAC', key, encoder.encode(candidate)),
+    crypto.subtle.sign('HMAC', key, encoder.encode(secret))
+  ]);
+  const candidateBytes = new Uint8Array(candidateDigest);
+  const secretBytes = new Uint8Array(secretDigest);
+
+  let difference = 0;
+  for (let i = 0; i < secretBytes.length; i++) {
+    difference |= candidateBytes[i] ^ secretBytes[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Sign `data` into a `<payload>.<signature>` token that expires after `maxAgeSeconds`
+ */
+export async function createSignedToken<T>(data: T, secret: string, maxAgeSeconds: number): Promise<string> {
+  const payload: SignedPayload<T> = { data, exp: Date.now() + maxAgeSeconds * 1000 };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importSigningKey(secret), encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Data of a token made by createSignedToken, or null when it is malformed, tampered with or expired
+ */
+export async function readSignedToken<T>(token: string | undefined, secret: string): Promise<T | null> {
+  const [encodedPayload, encodedSignature, extra] = (token || '').split('.');
+  if (!encodedPayload || !encodedSignature || extra !== undefined) {
+    return null;
+  }
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await importSigningKey(secret),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!isValid) {
+      return null;
+    }
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload))) as SignedPayload<T>;
+    return typeof payload?.exp === 'number' && payload.exp > Date.now() ? payload.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,17 @@
+// AUTH_MODE: "none" leaves the app open; "password" and "oidc" require a signed-in session or an API key
+export type AuthMode = 'none' | 'password' | 'oidc';
+
+export type AuthMethod = 'password' | 'oidc' | 'api_key';
+
+export interface AuthIdentity {
+  id: string; // Stable user id, e.g. "password:alice", "oidc:<subject>" or "api_key:<name>"
+  name: string;
+  email?: string;
+  method: AuthMethod;
+}
+
+// What GET /api/auth/session returns to the UI
+export interface AuthSessionInfo {
+  mode: AuthMode;
+  user: AuthIdentity | null;
+}
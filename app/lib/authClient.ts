@@ -0,0 +1,44 @@
+import type { AuthSessionInfo } from './auth/types';
+
+/**
+ * Auth mode and signed-in user. Resolves to null when the session cannot be loaded.
+ */
+export async function fetchAuthSession(): Promise<AuthSessionInfo | null> {
+  try {
+    const response = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (!response.ok) {
+      return null;
+    }
+
+    const body = await response.json();
+    return typeof body?.mode === 'string' ? body : null;
+  } catch (error) {
+    console.error('Unable to load auth session:', error);
+    return null;
+  }
+}
+
+export async function signInWithPassword(username: string, password: string): Promise<void> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || body?.error || `Sign-in failed with status ${response.status}`);
+  }
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST' });
+}
+
+/**
+ * Send the browser to the login page, returning to the current page after signing in
+ */
+export function redirectToLogin() {
+  const returnTo = `${window.location.pathname}${window.location.search}`;
+  window.location.assign(`/login?returnTo=${encodeURIComponent(returnTo)}`);
+}
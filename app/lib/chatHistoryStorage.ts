@@ -0,0 +1,43 @@
+const CHAT_HISTORY_STORAGE_KEY = 'docsbotgp_chat_history_v2';
+// Plain array of sessions, without pins, folders or archiving; read once and replaced by the v2 entry
+const LEGACY_CHAT_HISTORY_STORAGE_KEY = 'docsbotgp_chat_history_v1';
+const CHAT_HISTORY_VERSION = 2;
+
+interface StoredChatHistory {
+  version: number;
+  sessions: unknown[];
+}
+
+/**
+ * Saved chat sessions from browser storage, unvalidated. Falls back to the v1 format, whose
+ * sessions simply lack the newer fields. Returns null when nothing usable is stored.
+ */
+export function readStoredChatHistory(): unknown[] | null {
+  const rawHistory = window.localStorage.getItem(CHAT_HISTORY_STORAGE_KEY);
+  if (rawHistory) {
+    const parsedHistory = JSON.parse(rawHistory) as Partial<StoredChatHistory> | null;
+    if (parsedHistory?.version === CHAT_HISTORY_VERSION && Array.isArray(parsedHistory.sessions)) {
+      return parsedHistory.sessions;
+    }
+  }
+
+  const rawLegacyHistory = window.localStorage.getItem(LEGACY_CHAT_HISTORY_STORAGE_KEY);
+  if (rawLegacyHistory) {
+    const parsedLegacyHistory = JSON.parse(rawLegacyHistory);
+    return Array.isArray(parsedLegacyHistory) ? parsedLegacyHistory : null;
+  }
+
+  return null;
+}
+
+// Writing the current format also completes the migration from v1
+export function writeStoredChatHistory(sessions: unknown[]) {
+  const history: StoredChatHistory = { version: CHAT_HISTORY_VERSION, sessions };
+  window.localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  window.localStorage.removeItem(LEGACY_CHAT_HISTORY_STORAGE_KEY);
+}
+
+export function clearStoredChatHistory() {
+  window.localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+  window.localStorage.removeItem(LEGACY_CHAT_HISTORY_STORAGE_KEY);
+}
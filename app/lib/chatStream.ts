@@ -0,0 +1,79 @@
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  const rawData = dataLines.join('\n');
+  try {
+    return { event, data: JSON.parse(rawData) };
+  } catch {
+    return { event, data: rawData };
+  }
+}
+
+/**
+ * Read a text/event-stream response body and invoke the handler for every complete event.
+ * Resolves once the server closes the stream.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundaryIndex = buffer.indexOf('\n\n');
+    while (boundaryIndex !== -1) {
+      const parsedEvent = parseEventBlock(buffer.slice(0, boundaryIndex));
+      buffer = buffer.slice(boundaryIndex + 2);
+
+      if (parsedEvent) {
+        onEvent(parsedEvent);
+      }
+
+      boundaryIndex = buffer.indexOf('\n\n');
+    }
+  }
+
+  const trailingEvent = parseEventBlock((buffer + decoder.decode()).trim());
+  if (trailingEvent) {
+    onEvent(trailingEvent);
+  }
+}
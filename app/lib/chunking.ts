@@ -0,0 +1,260 @@
+import type { LoadedDocument } from './docLoaders';
+
+export interface DocumentChunk {
+  content: string;
+  section: string; // Heading breadcrumb, e.g. "Getting Started > Authentication"
+  chunkIndex: number;
+}
+
+// Target chunk size in characters. Sections larger than this are split between blocks;
+// a single code fence or table is never split, even when it is larger.
+const MAX_CHUNK_SIZE = 4000;
+const BREADCRUMB_SEPARATOR = ' > ';
+
+type BlockType = 'heading' | 'code' | 'table' | 'text';
+
+interface MarkdownBlock {
+  type: BlockType;
+  text: string;
+  level?: number;
+  title?: string;
+}
+
+interface MarkdownSection {
+  breadcrumb: string;
+  heading: string; // Innermost heading line, repeated at the top of continuation chunks
+  blocks: MarkdownBlock[];
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function isTableRow(line: string): boolean {
+  return line.trim().startsWith('|');
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  if (isTableRow(lines[index])) {
+    return true;
+  }
+  // Tables written without leading pipes still need a header separator row.
+  return lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[index + 1]);
+}
+
+/**
+ * Split markdown into headings, fenced code blocks, tables and text paragraphs
+ */
+function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      // The fence closes on a line with at least as many of the same marker characters.
+      const marker = fenceMatch[1];
+      const closingPattern = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const start = index;
+      index++;
+      while (index < lines.length && !closingPattern.test(lines[index])) {
+        index++;
+      }
+      // Unterminated fences run to the end of the document, as in CommonMark.
+      index = Math.min(index + 1, lines.length);
+      blocks.push({ type: 'code', text: lines.slice(start, index).join('\n') });
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      blocks.push({
+        type: 'heading',
+        text: line.trim(),
+        level: headingMatch[1].length,
+        title: headingMatch[2].trim()
+      });
+      index++;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const start = index;
+      index++;
+      while (index < lines.length && lines[index].trim() && lines[index].includes('|')) {
+        index++;
+      }
+      blocks.push({ type: 'table', text: lines.slice(start, index).join('\n') });
+      continue;
+    }
+
+    const start = index;
+    index++;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE_PATTERN.test(lines[index]) &&
+      !HEADING_PATTERN.test(lines[index]) &&
+      !isTableStart(lines, index)
+    ) {
+      index++;
+    }
+    blocks.push({ type: 'text', text: lines.slice(start, index).join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Group blocks under their nearest heading, tracking the full heading breadcrumb
+ */
+function groupSections(blocks: MarkdownBlock[]): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const headingStack: { level: number; title: string }[] = [];
+  let current: MarkdownSection = { breadcrumb: '', heading: '', blocks: [] };
+
+  for (const block of blocks) {
+    if (block.type !== 'heading') {
+      current.blocks.push(block);
+      continue;
+    }
+
+    const level = block.level || 1;
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, title: block.title || '' });
+
+    const breadcrumb = headingStack.map((heading) => heading.title).join(BREADCRUMB_SEPARATOR);
+
+    // A heading with no content of its own (typically a page title followed directly by a
+    // subheading) is folded into the next section rather than indexed on its own.
+    if (current.heading && current.blocks.every((existing) => existing.type === 'heading')) {
+      current.breadcrumb = breadcrumb;
+      current.heading = block.text;
+      current.blocks.push(block);
+      continue;
+    }
+
+    if (current.blocks.length > 0) {
+      sections.push(current);
+    }
+    current = { breadcrumb, heading: block.text, blocks: [block] };
+  }
+
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Break an oversized text paragraph on line boundaries, then on whitespace as a last resort
+ */
+function splitTextBlock(text: string, maxSize: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const append = (part: string, separator: string) => {
+    if (current && current.length + separator.length + part.length > maxSize) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${part}` : part;
+  };
+
+  for (const line of text.split('\n')) {
+    if (line.length <= maxSize) {
+      append(line, '\n');
+      continue;
+    }
+
+    for (const word of line.split(/\s+/)) {
+      append(word, ' ');
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+/**
+ * Pack a section's blocks into chunks of at most MAX_CHUNK_SIZE without splitting code or tables
+ */
+function chunkSection(section: MarkdownSection): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  // Whether current holds more than headings. A heading alone is never emitted as a chunk, so an
+  // oversized block goes into the same chunk as its heading instead.
+  let hasContent = false;
+
+  for (const block of section.blocks) {
+    const parts = block.type === 'text' && block.text.length > MAX_CHUNK_SIZE
+      ? splitTextBlock(block.text, MAX_CHUNK_SIZE)
+      : [block.text];
+
+    for (const part of parts) {
+      if (hasContent && current.length + part.length + 2 > MAX_CHUNK_SIZE) {
+        chunks.push(current);
+        // Repeat the heading so continuation chunks still read as part of their section.
+        current = section.heading;
+        hasContent = false;
+      }
+      current = current ? `${current}\n\n${part}` : part;
+      hasContent = hasContent || block.type !== 'heading';
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a document into chunks for embedding and indexing.
+ * Chunks follow the heading hierarchy and carry the heading breadcrumb as their section.
+ */
+export function chunkDocument(content: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of groupSections(parseMarkdownBlocks(content))) {
+    for (const chunkContent of chunkSection(section)) {
+      chunks.push({
+        content: chunkContent,
+        section: section.breadcrumb,
+        chunkIndex: chunks.length
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk a loaded document, keeping loader-prepared units (API operations, example payloads) whole
+ */
+export function chunkLoadedDocument(document: LoadedDocument): DocumentChunk[] {
+  if (document.chunks) {
+    return document.chunks.map((chunk, chunkIndex) => ({
+      content: chunk.content,
+      section: chunk.section,
+      chunkIndex
+    }));
+  }
+
+  return chunkDocument(document.content);
+}
@@ -0,0 +1,49 @@
+import type { SearchResult } from './retrieval/types';
+
+// A numbered documentation source the assistant can cite with markers like [1]
+export interface Citation {
+  id: number;
+  source: string;
+  section?: string;
+  chunkIndex?: number;
+  score?: number; // Retrieval score, kept so feedback can point at bad retrievals
+  snippet: string;
+}
+
+const CITATION_SNIPPET_LENGTH = 220;
+
+// Matches [1], [2, 3] and [1][2] style markers; array indexing such as items[1] is skipped.
+export const CITATION_MARKER_PATTERN = /(?<![\w\]`])\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?![(\[:])/g;
+
+function buildSnippet(content: string): string {
+  const normalized = content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/^#+\s+/gm, '')
+    .replace(/[*_`>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (normalized.length <= CITATION_SNIPPET_LENGTH) {
+    return normalized;
+  }
+
+  return `${normalized.slice(0, CITATION_SNIPPET_LENGTH).trimEnd()}...`;
+}
+
+/**
+ * Number the selected context results in prompt order so markers map back to sources
+ */
+export function buildCitations(results: SearchResult[]): Citation[] {
+  return results.map((result, index) => ({
+    id: index + 1,
+    source: result.source,
+    section: result.section || undefined,
+    chunkIndex: result.chunkIndex,
+    score: Math.round(result.score * 1000) / 1000,
+    snippet: buildSnippet(result.content)
+  }));
+}
+
+export function getCitationAnchorId(messageId: string, citationId: number): string {
+  return `citation-${messageId}-${citationId}`;
+}
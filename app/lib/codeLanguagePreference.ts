@@ -0,0 +1,46 @@
+const CODE_LANGUAGE_STORAGE_KEY = 'docsbotgp_code_language_v1';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Language last picked in a code tab, shared by every answer. Null until the user picks one.
+ */
+export function getPreferredCodeLanguage(): string | null {
+  try {
+    return window.localStorage.getItem(CODE_LANGUAGE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setPreferredCodeLanguage(language: string) {
+  try {
+    window.localStorage.setItem(CODE_LANGUAGE_STORAGE_KEY, language);
+  } catch (error) {
+    console.error('Unable to save the preferred code language:', error);
+  }
+  notifyListeners();
+}
+
+// Subscription for useSyncExternalStore; also follows changes made in other browser tabs.
+export function subscribeToPreferredCodeLanguage(listener: Listener) {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === CODE_LANGUAGE_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,114 @@
+import { createLowlight } from 'lowlight';
+import type { Root } from 'hast';
+import bash from 'highlight.js/lib/languages/bash';
+import csharp from 'highlight.js/lib/languages/csharp';
+import go from 'highlight.js/lib/languages/go';
+import http from 'highlight.js/lib/languages/http';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import php from 'highlight.js/lib/languages/php';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import sql from 'highlight.js/lib/languages/sql';
+import swift from 'highlight.js/lib/languages/swift';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+// Languages that show up in Global Payments samples; anything else is shown as plain text
+const lowlight = createLowlight({
+  bash,
+  csharp,
+  go,
+  http,
+  java,
+  javascript,
+  json,
+  kotlin,
+  php,
+  python,
+  ruby,
+  sql,
+  swift,
+  typescript,
+  xml,
+  yaml
+});
+
+// Fence names that mean the same language, so tabs and the saved preference line up across answers
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  cs: 'csharp',
+  'c#': 'csharp',
+  dotnet: 'csharp',
+  '.net': 'csharp',
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  golang: 'go',
+  kt: 'kotlin',
+  yml: 'yaml',
+  html: 'xml'
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  bash: 'Bash',
+  curl: 'cURL',
+  csharp: '.NET',
+  go: 'Go',
+  http: 'HTTP',
+  java: 'Java',
+  javascript: 'Node.js',
+  json: 'JSON',
+  kotlin: 'Kotlin',
+  php: 'PHP',
+  python: 'Python',
+  ruby: 'Ruby',
+  sql: 'SQL',
+  swift: 'Swift',
+  typescript: 'TypeScript',
+  xml: 'XML',
+  yaml: 'YAML'
+};
+
+export function normalizeCodeLanguage(language: string | undefined): string {
+  const normalized = (language || '').trim().toLowerCase();
+  return LANGUAGE_ALIASES[normalized] || normalized;
+}
+
+export function getCodeLanguageLabel(language: string): string {
+  const normalized = normalizeCodeLanguage(language);
+  if (LANGUAGE_LABELS[normalized]) {
+    return LANGUAGE_LABELS[normalized];
+  }
+
+  return normalized ? `${normalized.charAt(0).toUpperCase()}${normalized.slice(1)}` : 'Code';
+}
+
+/**
+ * Highlight code as a hast tree of text and class-named spans. Resolves to null for unknown languages.
+ */
+export function highlightCode(code: string, language: string): Root | null {
+  const normalized = normalizeCodeLanguage(language);
+  // curl samples are shell commands
+  const grammar = normalized === 'curl' ? 'bash' : normalized;
+
+  if (!grammar || !lowlight.registered(grammar)) {
+    return null;
+  }
+
+  try {
+    return lowlight.highlight(grammar, code);
+  } catch (error) {
+    console.error(`Unable to highlight ${grammar} code:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  Conversation,
+  ConversationOrganization,
+  ConversationStore,
+  ConversationSummary,
+  CreateConversationInput,
+  StoredMessage
+} from './types';
+import { isValidConversationId, normalizeConversationTitle } from './validation';
+
+const CONVERSATION_STORE_DIR = process.env.CONVERSATION_STORE_DIR || path.join('.data', 'conversations');
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    knowledgeBase: conversation.knowledgeBase,
+    pinned: conversation.pinned,
+    folder: conversation.folder,
+    archivedAt: conversation.archivedAt,
+    hasCustomTitle: conversation.hasCustomTitle,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length
+  };
+}
+
+function applyOrganization(conversation: Conversation, organization: ConversationOrganization): Conversation {
+  const next = { ...conversation };
+  if (organization.pinned !== undefined) {
+    next.pinned = organization.pinned || undefined;
+  }
+  if (organization.folder !== undefined) {
+    next.folder = organization.folder || undefined;
+  }
+  if (organization.archived !== undefined) {
+    next.archivedAt = organization.archived ? conversation.archivedAt || new Date().toISOString() : undefined;
+  }
+  return next;
+}
+
+function appendUniqueMessages(existing: StoredMessage[], incoming: StoredMessage[]): StoredMessage[] {
+  const knownIds = new Set(existing.map((message) => message.id));
+  const next = [...existing];
+
+  for (const message of incoming) {
+    if (!knownIds.has(message.id)) {
+      knownIds.add(message.id);
+      next.push(message);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Conversation store that keeps one JSON file per conversation on local disk
+ */
+export function createFileConversationStore(directory = CONVERSATION_STORE_DIR): ConversationStore {
+  const storeDir = path.resolve(directory);
+  // Serialize read-modify-write cycles per conversation so concurrent appends are not lost.
+  const pendingWrites = new Map<string, Promise<unknown>>();
+
+  const filePathFor = (id: string) => path.join(storeDir, `${id}.json`);
+
+  async function readConversation(id: string): Promise<Conversation | null> {
+    if (!isValidConversationId(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(filePathFor(id), 'utf-8')) as Conversation;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function writeConversation(conversation: Conversation) {
+    await fs.mkdir(storeDir, { recursive: true });
+    // Write to a temporary file first so a crash never leaves a truncated conversation behind.
+    const tempPath = `${filePathFor(conversation.id)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(conversation, null, 2));
+    await fs.rename(tempPath, filePathFor(conversation.id));
+  }
+
+  function withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = pendingWrites.get(id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    pendingWrites.set(id, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (pendingWrites.get(id) === next) {
+          pendingWrites.delete(id);
+        }
+      });
+    return next;
+  }
+
+  // With touch off the chat keeps its updatedAt, so filing it away does not move it up the history list.
+  function updateConversation(
+    id: string,
+    update: (conversation: Conversation) => Conversation,
+    touch = true
+  ): Promise<Conversation | null> {
+    return withLock(id, async () => {
+      const conversation = await readConversation(id);
+      if (!conversation) {
+        return null;
+      }
+
+      const updated = touch ? { ...update(conversation), updatedAt: new Date().toISOString() } : update(conversation);
+      await writeConversation(updated);
+      return updated;
+    });
+  }
+
+  return {
+    name: 'file',
+
+    async list(options = {}) {
+      let fileNames: string[];
+      try {
+        fileNames = await fs.readdir(storeDir);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+
+      const summaries: ConversationSummary[] = [];
+      for (const fileName of fileNames) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+
+        try {
+          const conversation = await readConversation(path.basename(fileName, '.json'));
+          if (conversation && (options.userId === undefined || conversation.userId === options.userId)) {
+            summaries.push(toSummary(conversation));
+          }
+        } catch (error) {
+          console.error(`Skipping unreadable conversation file ${fileName}:`, error);
+        }
+      }
+
+      return summaries.sort(
+        (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      );
+    },
+
+    get(id) {
+      return readConversation(id);
+    },
+
+    create(input: CreateConversationInput) {
+      const id = input.id && isValidConversationId(input.id) ? input.id : `chat-${crypto.randomUUID()}`;
+
+      return withLock(id, async () => {
+        // Creating an id that already exists merges messages instead of overwriting, so a client
+        // that retries a create after a dropped response does not lose anything.
+        const existing = await readConversation(id);
+        const nowIso = new Date().toISOString();
+        const conversation: Conversation = existing
+          ? {
+              ...existing,
+              messages: appendUniqueMessages(existing.messages, input.messages || []),
+              updatedAt: nowIso
+            }
+          : applyOrganization(
+              {
+                id,
+                title: normalizeConversationTitle(input.title),
+                hasCustomTitle: input.hasCustomTitle || undefined,
+                knowledgeBase: input.knowledgeBase,
+                userId: input.userId,
+                createdAt: nowIso,
+                updatedAt: nowIso,
+                messages: appendUniqueMessages([], input.messages || [])
+              },
+              input.organization || {}
+            );
+
+        await writeConversation(conversation);
+        return conversation;
+      });
+    },
+
+    appendMessages(id, messages) {
+      return updateConversation(id, (conversation) => ({
+        ...conversation,
+        messages: appendUniqueMessages(conversation.messages, messages)
+      }));
+    },
+
+    update(id, { title, hasCustomTitle, ...organization }) {
+      return updateConversation(
+        id,
+        (conversation) => ({
+          ...applyOrganization(conversation, organization),
+          title: title === undefined ? conversation.title : normalizeConversationTitle(title),
+          hasCustomTitle: hasCustomTitle === undefined ? conversation.hasCustomTitle : hasCustomTitle || undefined
+        }),
+        title !== undefined
+      );
+    },
+
+    delete(id) {
+      if (!isValidConversationId(id)) {
+        return Promise.resolve(false);
+      }
+
+      return withLock(id, async () => {
+        try {
+          await fs.unlink(filePathFor(id));
+          return true;
+        } catch (error: any) {
+          if (error?.code === 'ENOENT') {
+            return false;
+          }
+          throw error;
+        }
+      });
+    }
+  };
+}
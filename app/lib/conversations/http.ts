@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthIdentity } from '../auth/types';
+import type { Conversation, ConversationStore } from './types';
+
+export const CONVERSATION_STORE_DISABLED_ERROR = 'conversation_store_disabled';
+
+// Clients treat this response as "keep chats in the browser only".
+export function conversationStoreDisabledResponse() {
+  return NextResponse.json(
+    { error: CONVERSATION_STORE_DISABLED_ERROR, message: 'Server-side conversation storage is disabled' },
+    { status: 503 }
+  );
+}
+
+export function conversationNotFoundResponse() {
+  return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+}
+
+export function conversationErrorResponse(action: string, error: unknown) {
+  console.error(`Error trying to ${action}:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action}`, message: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * With auth on, users only see their own conversations; chats saved before auth was turned on
+ * have no owner and stay hidden. With auth off every conversation is accessible.
+ */
+export function canAccessConversation(conversation: Conversation, identity: AuthIdentity | null): boolean {
+  return !identity || conversation.userId === identity.id;
+}
+
+/**
+ * Load a conversation the user may access. Other users' conversations are reported as not found.
+ */
+export async function findAccessibleConversation(
+  store: ConversationStore,
+  id: string,
+  identity: AuthIdentity | null
+): Promise<Conversation | null> {
+  const conversation = await store.get(id);
+  return conversation && canAccessConversation(conversation, identity) ? conversation : null;
+}
+
+/**
+ * Parse a JSON request body, treating an empty or malformed body as an empty object
+ */
+export async function readJsonBody(req: NextRequest): Promise<Record<string, unknown>> {
+  try {
+    const body = await req.json();
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return {};
+  }
+}
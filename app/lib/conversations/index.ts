@@ -0,0 +1,31 @@
+import { createFileConversationStore } from './fileStore';
+import type { ConversationStore } from './types';
+
+// Select the conversation backend: "file" (JSON files on disk) or "none" to keep chats in the browser only
+const CONVERSATION_STORE = (process.env.CONVERSATION_STORE || 'file').toLowerCase();
+
+let store: ConversationStore | null | undefined;
+
+/**
+ * Returns the configured conversation store, or null when server-side storage is disabled
+ */
+export function getConversationStore(): ConversationStore | null {
+  if (store !== undefined) {
+    return store;
+  }
+
+  switch (CONVERSATION_STORE) {
+    case 'none':
+    case 'disabled':
+      store = null;
+      break;
+    case 'file':
+      store = createFileConversationStore();
+      break;
+    default:
+      console.warn(`Unknown CONVERSATION_STORE "${CONVERSATION_STORE}", falling back to file`);
+      store = createFileConversationStore();
+  }
+
+  return store;
+}
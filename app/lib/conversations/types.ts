@@ -0,0 +1,84 @@
+import type { Citation } from '../citations';
+import type { ResponseCode } from '../responseCodes/types';
+
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  isError?: boolean;
+  hasVectorStoreError?: boolean;
+  vectorStoreErrorMessage?: string;
+  citations?: Citation[];
+  responseCodes?: ResponseCode[];
+  reasoningEffort?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  knowledgeBase?: string; // Knowledge base the chat's questions are asked against; unset means the default
+  userId?: string; // Signed-in user who owns the chat; unset when it was saved with auth off
+  pinned?: boolean;
+  folder?: string; // User-defined folder the chat is filed under
+  archivedAt?: string; // Archived chats are hidden from the main history list but kept
+  hasCustomTitle?: boolean; // Renamed by the user, so clients no longer title the chat after its first question
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  knowledgeBase?: string;
+  pinned?: boolean;
+  folder?: string;
+  archivedAt?: string;
+  hasCustomTitle?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// How a chat is organized in the history panel; a null folder takes the chat out of its folder
+export interface ConversationOrganization {
+  pinned?: boolean;
+  folder?: string | null;
+  archived?: boolean;
+}
+
+export interface ConversationUpdate extends ConversationOrganization {
+  title?: string;
+  hasCustomTitle?: boolean;
+}
+
+export interface CreateConversationInput {
+  id?: string;
+  title?: string;
+  hasCustomTitle?: boolean;
+  knowledgeBase?: string;
+  userId?: string;
+  organization?: ConversationOrganization;
+  messages?: StoredMessage[];
+}
+
+export interface ConversationListOptions {
+  userId?: string; // Only conversations owned by this user
+}
+
+/**
+ * Storage backend for chat sessions. Implementations resolve to null for unknown ids
+ * rather than throwing, so routes can answer with a 404.
+ */
+export interface ConversationStore {
+  name: string;
+  list(options?: ConversationListOptions): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  create(input: CreateConversationInput): Promise<Conversation>;
+  // Messages whose id is already stored are skipped, so clients can safely retry an append.
+  appendMessages(id: string, messages: StoredMessage[]): Promise<Conversation | null>;
+  // Renames and changes pins, folders or archiving. Only a new title counts as an update of the chat.
+  update(id: string, changes: ConversationUpdate): Promise<Conversation | null>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,124 @@
+import type { Citation } from '../citations';
+import { normalizeResponseCodes } from '../responseCodes/validation';
+import type { ConversationOrganization, StoredMessage } from './types';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Chat';
+const MAX_TITLE_LENGTH = 200;
+const MAX_FOLDER_LENGTH = 60;
+const MAX_MESSAGE_LENGTH = 100000;
+const MAX_MESSAGES_PER_REQUEST = 500;
+
+// Ids are also used as file names, so keep them to a safe character set.
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+export function normalizeConversationTitle(title: unknown): string {
+  if (typeof title !== 'string' || !title.trim()) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+
+  return title.trim().replace(/\s+/g, ' ').slice(0, MAX_TITLE_LENGTH);
+}
+
+// Empty folder names mean "no folder"
+export function normalizeFolderName(folder: unknown): string | undefined {
+  if (typeof folder !== 'string') {
+    return undefined;
+  }
+
+  return folder.trim().replace(/\s+/g, ' ').slice(0, MAX_FOLDER_LENGTH) || undefined;
+}
+
+/**
+ * Pin, folder and archive fields from a request body. Fields that are left out stay unchanged;
+ * returns null when one of them has the wrong type.
+ */
+export function normalizeConversationOrganization(body: Record<string, unknown>): ConversationOrganization | null {
+  const { pinned, folder, archived } = body;
+  if (
+    (pinned !== undefined && typeof pinned !== 'boolean') ||
+    (archived !== undefined && typeof archived !== 'boolean') ||
+    (folder !== undefined && folder !== null && typeof folder !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    pinned,
+    folder: folder === undefined ? undefined : normalizeFolderName(folder) ?? null,
+    archived
+  };
+}
+
+function normalizeCitations(citations: unknown): Citation[] | undefined {
+  if (!Array.isArray(citations)) {
+    return undefined;
+  }
+
+  return citations
+    .filter((citation) => {
+      return (
+        !!citation &&
+        typeof citation === 'object' &&
+        Number.isInteger(citation.id) &&
+        typeof citation.source === 'string' &&
+        typeof citation.snippet === 'string'
+      );
+    })
+    .map(({ id, source, section, chunkIndex, score, snippet }) => ({
+      id,
+      source,
+      section: typeof section === 'string' ? section : undefined,
+      chunkIndex: Number.isInteger(chunkIndex) ? chunkIndex : undefined,
+      score: typeof score === 'number' ? score : undefined,
+      snippet
+    }));
+}
+
+function normalizeMessage(message: unknown): StoredMessage | null {
+  if (!message || typeof message !== 'object') {
+    return null;
+  }
+
+  const candidate = message as Partial<StoredMessage>;
+  if (
+    !isValidConversationId(candidate.id) ||
+    (candidate.role !== 'user' && candidate.role !== 'assistant') ||
+    typeof candidate.content !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    id: candidate.id,
+    role: candidate.role,
+    content: candidate.content.slice(0, MAX_MESSAGE_LENGTH),
+    timestamp: typeof candidate.timestamp === 'string' ? candidate.timestamp : '',
+    isError: candidate.isError ? true : undefined,
+    hasVectorStoreError: candidate.hasVectorStoreError ? true : undefined,
+    vectorStoreErrorMessage:
+      typeof candidate.vectorStoreErrorMessage === 'string' && candidate.vectorStoreErrorMessage
+        ? candidate.vectorStoreErrorMessage
+        : undefined,
+    citations: normalizeCitations(candidate.citations),
+    responseCodes: normalizeResponseCodes(candidate.responseCodes),
+    reasoningEffort: typeof candidate.reasoningEffort === 'string' ? candidate.reasoningEffort : undefined
+  };
+}
+
+/**
+ * Validate messages from a request body, dropping malformed entries.
+ * Returns null when the value is not an array or is larger than we accept in one request.
+ */
+export function normalizeMessages(messages: unknown): StoredMessage[] | null {
+  if (!Array.isArray(messages) || messages.length > MAX_MESSAGES_PER_REQUEST) {
+    return null;
+  }
+
+  return messages
+    .map(normalizeMessage)
+    .filter((message): message is StoredMessage => message !== null);
+}
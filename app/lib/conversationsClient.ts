@@ -0,0 +1,82 @@
+import type {
+  Conversation,
+  ConversationOrganization,
+  ConversationSummary,
+  ConversationUpdate,
+  StoredMessage
+} from './conversations/types';
+
+const CONVERSATIONS_ENDPOINT = '/api/conversations';
+
+async function requestConversationApi<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${CONVERSATIONS_ENDPOINT}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || body?.error || `Conversation request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * List stored conversations. Resolves to null when the server store is disabled or unreachable,
+ * in which case chats are kept in the browser only.
+ */
+export async function listConversations(): Promise<ConversationSummary[] | null> {
+  try {
+    const response = await fetch(CONVERSATIONS_ENDPOINT, { cache: 'no-store' });
+    // 503 means the store is turned off; any other failure also falls back to browser storage.
+    if (!response.ok) {
+      return null;
+    }
+
+    const body = await response.json();
+    return Array.isArray(body?.conversations) ? body.conversations : null;
+  } catch (error) {
+    console.error('Unable to reach conversation store:', error);
+    return null;
+  }
+}
+
+export async function fetchConversation(id: string): Promise<Conversation> {
+  const body = await requestConversationApi<{ conversation: Conversation }>(`/${encodeURIComponent(id)}`, {
+    cache: 'no-store'
+  });
+  return body.conversation;
+}
+
+export async function createConversation(conversation: {
+  id: string;
+  title: string;
+  hasCustomTitle?: boolean;
+  knowledgeBase?: string;
+  messages: StoredMessage[];
+} & ConversationOrganization): Promise<Conversation> {
+  const body = await requestConversationApi<{ conversation: Conversation }>('', {
+    method: 'POST',
+    body: JSON.stringify(conversation)
+  });
+  return body.conversation;
+}
+
+export async function appendConversationMessages(id: string, messages: StoredMessage[]): Promise<void> {
+  await requestConversationApi(`/${encodeURIComponent(id)}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ messages })
+  });
+}
+
+export async function updateConversation(id: string, changes: ConversationUpdate): Promise<void> {
+  await requestConversationApi(`/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes)
+  });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await requestConversationApi(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
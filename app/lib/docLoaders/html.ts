@@ -0,0 +1,118 @@
+// Elements that carry site chrome rather than documentation content
+const BOILERPLATE_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'iframe'];
+const BOILERPLATE_ROLE_PATTERN =
+  /<(\w+)\b[^>]*\brole=["'](?:navigation|banner|contentinfo|search)["'][^>]*>[\s\S]*?<\/\1>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '-',
+  mdash: '-',
+  hellip: '...',
+  copy: '(c)',
+  reg: '(R)',
+  trade: '(TM)'
+};
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? Number.parseInt(entity.slice(2), 16)
+        : Number.parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(value: string): string {
+  return decodeHtmlEntities(value.replace(/<[^>]+>/g, '')).replace(/[ \t]+/g, ' ').trim();
+}
+
+function convertTable(tableHtml: string): string {
+  const rows = tableHtml.match(/<tr\b[\s\S]*?<\/tr>/gi) || [];
+  const markdownRows = rows
+    .map((row) => (row.match(/<t[hd]\b[\s\S]*?<\/t[hd]>/gi) || []).map((cell) => stripTags(cell).replace(/\|/g, '\\|')))
+    .filter((cells) => cells.length > 0);
+
+  if (markdownRows.length === 0) {
+    return '';
+  }
+
+  const columnCount = Math.max(...markdownRows.map((cells) => cells.length));
+  const lines = markdownRows.map((cells) => {
+    const paddedCells = [...cells, ...Array(columnCount - cells.length).fill('')];
+    return `| ${paddedCells.join(' | ')} |`;
+  });
+  lines.splice(1, 0, `| ${Array(columnCount).fill('---').join(' | ')} |`);
+
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Convert an HTML documentation page to markdown, dropping navigation and other boilerplate.
+ * This is a pragmatic converter for generated doc pages, not a full HTML parser.
+ */
+export function convertHtmlToMarkdown(html: string): { title: string; markdown: string } {
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  // Prefer the main content region when the page marks one.
+  const mainMatch = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i) || body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i);
+  if (mainMatch) {
+    body = mainMatch[1];
+  } else {
+    const bodyMatch = body.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i);
+    body = bodyMatch ? bodyMatch[1] : body;
+  }
+
+  for (const element of BOILERPLATE_ELEMENTS) {
+    body = body.replace(new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}>`, 'gi'), '');
+  }
+  body = body.replace(BOILERPLATE_ROLE_PATTERN, '');
+
+  const codeBlocks: string[] = [];
+  body = body.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (match, inner: string) => {
+    const languageMatch = inner.match(/class=["'][^"']*\blang(?:uage)?-([\w+-]+)/i);
+    const code = decodeHtmlEntities(inner.replace(/<[^>]+>/g, '')).replace(/\s+$/, '');
+    codeBlocks.push(`\n\n\`\`\`${languageMatch ? languageMatch[1].toLowerCase() : ''}\n${code}\n\`\`\`\n\n`);
+    return `__HTML_CODE_BLOCK_${codeBlocks.length - 1}__`;
+  });
+
+  body = body
+    .replace(/<table\b[\s\S]*?<\/table>/gi, (table) => convertTable(table))
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level: string, inner: string) => {
+      return `\n\n${'#'.repeat(Number(level))} ${stripTags(inner)}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (match, inner: string) => `\`${stripTags(inner)}\``)
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<a\b[^>]*href=["'](https?:[^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (match, href: string, inner: string) => {
+      const label = stripTags(inner);
+      return label ? `[${label}](${href})` : '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|ul|ol|dl|dd|dt|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  const markdown = decodeHtmlEntities(body)
+    .replace(/__HTML_CODE_BLOCK_(\d+)__/g, (match, index: string) => codeBlocks[Number(index)] || '')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const headingMatch = markdown.match(/^# (.+)$/m);
+  return {
+    title: headingMatch ? headingMatch[1].trim() : (titleMatch ? stripTags(titleMatch[1]) : ''),
+    markdown
+  };
+}
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { convertHtmlToMarkdown } from './html';
+import { isOpenApiSpec, splitOpenApiSpec } from './openapi';
+
+// Files in the docs directory that are generated by our own tooling rather than documentation.
+const IGNORED_DOC_FILES = new Set(['.gitkeep', 'summary.json']);
+const IGNORED_DOC_DIRECTORIES = new Set(['node_modules']);
+const SUPPORTED_DOC_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.pdf', '.json', '.yaml', '.yml'];
+
+export type DocumentFormat = 'markdown' | 'text' | 'html' | 'pdf' | 'openapi' | 'json' | 'yaml';
+
+// A unit that is already split (for example one API operation) and should not be re-chunked
+export interface PreparedChunk {
+  content: string;
+  section: string;
+}
+
+export interface LoadedDocument {
+  source: string; // Path relative to the docs directory, always with forward slashes
+  title: string;
+  format: DocumentFormat;
+  content: string;
+  chunks?: PreparedChunk[];
+}
+
+/**
+ * Recursively list documentation files in the docs directory, relative to that directory
+ */
+export function listDocumentationFiles(docsDir: string, relativeDir = ''): string[] {
+  const entries = fs.readdirSync(path.join(docsDir, relativeDir), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    // Dotfiles hold generated state such as the ingest manifest and search index.
+    if (entry.name.startsWith('.') || IGNORED_DOC_FILES.has(entry.name)) {
+      continue;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      if (!IGNORED_DOC_DIRECTORIES.has(entry.name)) {
+        files.push(...listDocumentationFiles(docsDir, relativePath));
+      }
+      continue;
+    }
+
+    if (entry.isFile() && SUPPORTED_DOC_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(relativePath);
+    }
+  }
+
+  return files.sort();
+}
+
+function titleFromFileName(file: string): string {
+  return path.basename(file, path.extname(file)).replace(/[-_]/g, ' ');
+}
+
+function loadStructuredDocument(file: string, raw: string, format: 'json' | 'yaml'): LoadedDocument {
+  const parsed = format === 'json' ? JSON.parse(raw) : yaml.load(raw);
+
+  if (isOpenApiSpec(parsed)) {
+    const { title, chunks } = splitOpenApiSpec(parsed);
+    return {
+      source: file,
+      title,
+      format: 'openapi',
+      content: raw,
+      chunks
+    };
+  }
+
+  // Plain example payloads are kept whole so a request or response is never split mid-object.
+  const title = titleFromFileName(file);
+  const body = format === 'json' ? JSON.stringify(parsed, null, 2) : raw.trim();
+  return {
+    source: file,
+    title,
+    format,
+    content: raw,
+    chunks: [
+      {
+        content: `# ${title}\n\nExample ${format.toUpperCase()} payload from \`${file}\`:\n\n\`\`\`${format}\n${body}\n\`\`\``,
+        section: title
+      }
+    ]
+  };
+}
+
+async function loadPdfText(filePath: string): Promise<string> {
+  // Import the parser module directly; the package entry point runs a debug harness when bundled.
+  const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+  const parsed = await pdfParse(fs.readFileSync(filePath));
+
+  return String(parsed.text || '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\f/g, '\n\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Load a documentation file into text (or prepared chunks) ready for chunking
+ */
+export async function loadDocumentationFile(docsDir: string, file: string): Promise<LoadedDocument> {
+  const filePath = path.join(docsDir, file);
+  const extension = path.extname(file).toLowerCase();
+
+  if (extension === '.pdf') {
+    return {
+      source: file,
+      title: titleFromFileName(file),
+      format: 'pdf',
+      content: await loadPdfText(filePath)
+    };
+  }
+
+  const raw = fs.readFileSync(filePath, 'utf-8');
+
+  if (extension === '.html' || extension === '.htm') {
+    const { title, markdown } = convertHtmlToMarkdown(raw);
+    return {
+      source: file,
+      title: title || titleFromFileName(file),
+      format: 'html',
+      content: markdown
+    };
+  }
+
+  if (extension === '.json') {
+    return loadStructuredDocument(file, raw, 'json');
+  }
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return loadStructuredDocument(file, raw, 'yaml');
+  }
+
+  // Extract title and section information where possible
+  const headingMatch = raw.match(/^# (.+)$/m);
+
+  return {
+    source: file,
+    title: headingMatch ? headingMatch[1] : titleFromFileName(file),
+    format: extension === '.txt' ? 'text' : 'markdown',
+    content: raw
+  };
+}
@@ -0,0 +1,206 @@
+import type { PreparedChunk } from './index';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_SCHEMA_PROPERTIES = 40;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+export function isOpenApiSpec(value: unknown): value is Record<string, any> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (typeof (value as any).openapi === 'string' || typeof (value as any).swagger === 'string') &&
+    typeof (value as any).paths === 'object'
+  );
+}
+
+function oneLine(value: unknown, maxLength = MAX_DESCRIPTION_LENGTH): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+
+  const normalized = value.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  return normalized.length <= maxLength ? normalized : `${normalized.slice(0, maxLength - 3)}...`;
+}
+
+/**
+ * Resolve a local `#/...` JSON reference, following chained references
+ */
+function resolveRef(spec: Record<string, any>, value: any, seen: Set<string> = new Set()): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') {
+    return value;
+  }
+
+  const ref: string = value.$ref;
+  if (!ref.startsWith('#/') || seen.has(ref)) {
+    return value;
+  }
+
+  seen.add(ref);
+  const resolved = ref
+    .slice(2)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((current: any, segment) => (current && typeof current === 'object' ? current[segment] : undefined), spec);
+
+  return resolved === undefined ? value : resolveRef(spec, resolved, seen);
+}
+
+function describeSchemaType(spec: Record<string, any>, schema: any): string {
+  if (!schema || typeof schema !== 'object') {
+    return '';
+  }
+
+  const refName = typeof schema.$ref === 'string' ? schema.$ref.split('/').pop() : '';
+  const resolved = resolveRef(spec, schema);
+
+  if (resolved?.type === 'array') {
+    const itemType = describeSchemaType(spec, resolved.items);
+    return itemType ? `array of ${itemType}` : 'array';
+  }
+
+  const baseType = refName || resolved?.type || (resolved?.properties ? 'object' : '');
+  const format = resolved?.format ? ` (${resolved.format})` : '';
+  const allowedValues = Array.isArray(resolved?.enum) ? ` one of ${resolved.enum.map(String).join(', ')}` : '';
+  return `${baseType}${format}${allowedValues}`;
+}
+
+function describeSchemaProperties(spec: Record<string, any>, schema: any): string[] {
+  let resolved = resolveRef(spec, schema);
+
+  if (resolved?.type === 'array') {
+    resolved = resolveRef(spec, resolved.items);
+  }
+
+  // Flatten allOf compositions so inherited fields are listed too.
+  const parts = Array.isArray(resolved?.allOf) ? resolved.allOf.map((part: any) => resolveRef(spec, part)) : [resolved];
+  const required = new Set<string>();
+  const properties: Array<[string, any]> = [];
+
+  parts.forEach((part: any) => {
+    (Array.isArray(part?.required) ? part.required : []).forEach((name: string) => required.add(name));
+    Object.entries(part?.properties || {}).forEach((entry) => properties.push(entry as [string, any]));
+  });
+
+  return properties.slice(0, MAX_SCHEMA_PROPERTIES).map(([name, propertySchema]) => {
+    const resolvedProperty = resolveRef(spec, propertySchema);
+    const description = oneLine(resolvedProperty?.description);
+    return `| ${name} | ${describeSchemaType(spec, propertySchema)} | ${required.has(name) ? 'yes' : 'no'} | ${description} |`;
+  });
+}
+
+function buildOperationChunk(
+  spec: Record<string, any>,
+  pathName: string,
+  method: string,
+  pathItem: Record<string, any>,
+  operation: Record<string, any>
+): PreparedChunk {
+  const title = `${method.toUpperCase()} ${pathName}`;
+  const lines: string[] = [`# ${title}${operation.summary ? ` - ${oneLine(operation.summary)}` : ''}`, ''];
+
+  if (operation.operationId) {
+    lines.push(`Operation ID: ${operation.operationId}`);
+  }
+  if (Array.isArray(operation.tags) && operation.tags.length > 0) {
+    lines.push(`Tags: ${operation.tags.join(', ')}`);
+  }
+  if (operation.deprecated) {
+    lines.push('Deprecated: yes');
+  }
+  if (typeof operation.description === 'string' && operation.description.trim()) {
+    lines.push('', operation.description.trim());
+  }
+
+  // Path-level parameters apply to every operation unless overridden.
+  const parameters = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+    .map((parameter: any) => resolveRef(spec, parameter))
+    .filter((parameter: any) => parameter && typeof parameter.name === 'string');
+  const bodyParameter = parameters.find((parameter: any) => parameter.in === 'body');
+  const plainParameters = parameters.filter((parameter: any) => parameter.in !== 'body');
+
+  if (plainParameters.length > 0) {
+    lines.push('', '## Parameters', '', '| Name | In | Type | Required | Description |', '| --- | --- | --- | --- | --- |');
+    plainParameters.forEach((parameter: any) => {
+      const type = describeSchemaType(spec, parameter.schema || parameter);
+      lines.push(`| ${parameter.name} | ${parameter.in || ''} | ${type} | ${parameter.required ? 'yes' : 'no'} | ${oneLine(parameter.description)} |`);
+    });
+  }
+
+  const requestBody = resolveRef(spec, operation.requestBody);
+  const requestContent = requestBody?.content && typeof requestBody.content === 'object' ? requestBody.content : null;
+  const requestSchema = requestContent
+    ? (Object.values(requestContent)[0] as any)?.schema
+    : bodyParameter?.schema;
+
+  if (requestSchema) {
+    lines.push('', '## Request body', '');
+    if (requestContent) {
+      lines.push(`Content types: ${Object.keys(requestContent).join(', ')}`);
+    }
+    lines.push(`Schema: ${describeSchemaType(spec, requestSchema) || 'object'}`);
+
+    const propertyRows = describeSchemaProperties(spec, requestSchema);
+    if (propertyRows.length > 0) {
+      lines.push('', '| Field | Type | Required | Description |', '| --- | --- | --- | --- |', ...propertyRows);
+    }
+  }
+
+  const responses = operation.responses && typeof operation.responses === 'object' ? operation.responses : {};
+  const responseCodes = Object.keys(responses);
+  if (responseCodes.length > 0) {
+    lines.push('', '## Responses', '', '| Code | Description | Schema |', '| --- | --- | --- |');
+    responseCodes.forEach((code) => {
+      const response = resolveRef(spec, responses[code]);
+      const responseSchema = response?.content
+        ? (Object.values(response.content)[0] as any)?.schema
+        : response?.schema;
+      lines.push(`| ${code} | ${oneLine(response?.description)} | ${describeSchemaType(spec, responseSchema)} |`);
+    });
+  }
+
+  return {
+    content: lines.join('\n'),
+    section: title
+  };
+}
+
+/**
+ * Split an OpenAPI 3 or Swagger 2 spec into one chunk per operation, plus an overview chunk
+ */
+export function splitOpenApiSpec(spec: Record<string, any>): { title: string; chunks: PreparedChunk[] } {
+  const title = oneLine(spec.info?.title) || 'API reference';
+  const servers = Array.isArray(spec.servers)
+    ? spec.servers.map((server: any) => server?.url).filter(Boolean)
+    : spec.host
+      ? [`${(spec.schemes || ['https'])[0]}://${spec.host}${spec.basePath || ''}`]
+      : [];
+
+  const overviewLines = [`# ${title}`, ''];
+  if (spec.info?.version) {
+    overviewLines.push(`Version: ${spec.info.version}`);
+  }
+  if (servers.length > 0) {
+    overviewLines.push(`Base URLs: ${servers.join(', ')}`);
+  }
+  if (typeof spec.info?.description === 'string' && spec.info.description.trim()) {
+    overviewLines.push('', spec.info.description.trim());
+  }
+
+  const chunks: PreparedChunk[] = [];
+
+  Object.entries(spec.paths || {}).forEach(([pathName, rawPathItem]) => {
+    const pathItem = resolveRef(spec, rawPathItem) || {};
+    HTTP_METHODS.forEach((method) => {
+      if (pathItem[method] && typeof pathItem[method] === 'object') {
+        chunks.push(buildOperationChunk(spec, pathName, method, pathItem, pathItem[method]));
+      }
+    });
+  });
+
+  overviewLines.push('', `Operations: ${chunks.length}`, ...chunks.map((chunk) => `- ${chunk.section}`));
+
+  return {
+    title,
+    chunks: [{ content: overviewLines.join('\n'), section: 'Overview' }, ...chunks]
+  };
+}
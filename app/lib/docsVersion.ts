@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface DocsVersion {
+  version: string;
+  updatedAt: string;
+}
+
+// Read stamps by resolved file path
+const cachedVersions = new Map<string, { mtimeMs: number; version: string }>();
+
+/**
+ * Current docs version stamp of a knowledge base, or an empty string before the first ingest.
+ * Cached answers are keyed with it, so bumping the stamp invalidates them.
+ */
+export function readDocsVersion(filePath: string): string {
+  const resolvedPath = path.resolve(filePath);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolvedPath).mtimeMs;
+  } catch {
+    return '';
+  }
+
+  const cached = cachedVersions.get(resolvedPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.version;
+  }
+
+  let version = '';
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    version = typeof parsed?.version === 'string' ? parsed.version : '';
+  } catch (error) {
+    console.warn(`Ignoring unreadable docs version stamp at ${resolvedPath}:`, error);
+  }
+
+  cachedVersions.set(resolvedPath, { mtimeMs, version });
+  return version;
+}
+
+/**
+ * Write a new docs version stamp after the documentation changed
+ */
+export function bumpDocsVersion(filePath: string): DocsVersion {
+  const stamp: DocsVersion = {
+    version: crypto.randomUUID(),
+    updatedAt: new Date().toISOString()
+  };
+
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(path.resolve(filePath), JSON.stringify(stamp, null, 2));
+  return stamp;
+}
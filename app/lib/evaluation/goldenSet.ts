@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { EvalCase } from './types';
+
+function toStringList(value: unknown, field: string, caseId: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    return [value];
+  }
+
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`Golden case "${caseId}": ${field} must be a string or a list of strings`);
+  }
+
+  return value;
+}
+
+function normalizeCase(raw: any, index: number): EvalCase {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Golden case #${index + 1} is not an object`);
+  }
+
+  const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : `case-${index + 1}`;
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    throw new Error(`Golden case "${id}" is missing a question`);
+  }
+
+  const history = Array.isArray(raw.history)
+    ? raw.history.filter(
+        (message: any) =>
+          message && (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string'
+      )
+    : undefined;
+
+  return {
+    id,
+    question: raw.question.trim(),
+    history,
+    expectedSources: toStringList(raw.expectedSources, 'expectedSources', id),
+    requiredFacts: toStringList(raw.requiredFacts, 'requiredFacts', id),
+    mustSayNoMatch: raw.mustSayNoMatch === true,
+    tags: toStringList(raw.tags, 'tags', id)
+  };
+}
+
+/**
+ * Load golden cases from a YAML file (a list, or an object with a `cases` list),
+ * a JSON array, or JSON lines with one case per line.
+ */
+export function loadGoldenSet(filePath: string): EvalCase[] {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  let entries: unknown;
+
+  if (extension === '.jsonl') {
+    entries = raw
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1} of ${filePath}`);
+        }
+      });
+  } else if (extension === '.json') {
+    entries = JSON.parse(raw);
+  } else {
+    entries = yaml.load(raw);
+  }
+
+  const list = Array.isArray(entries) ? entries : (entries as any)?.cases;
+  if (!Array.isArray(list)) {
+    throw new Error(`${filePath} does not contain a list of golden cases`);
+  }
+
+  const cases = list.map(normalizeCase);
+  const seenIds = new Set<string>();
+  for (const evalCase of cases) {
+    if (seenIds.has(evalCase.id)) {
+      throw new Error(`Duplicate golden case id "${evalCase.id}" in ${filePath}`);
+    }
+    seenIds.add(evalCase.id);
+  }
+
+  return cases;
+}
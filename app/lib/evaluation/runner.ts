@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { runGlobalPaymentsDocsAgent } from '../agent';
+import type { ConversationMessage } from '../agent';
+import { scoreCase, summarizeResults } from './scoring';
+import type { AgentRunOutput } from './scoring';
+import type { EvalCase, EvalCaseResult, EvalRun } from './types';
+
+const EVAL_RUN_VERSION = 1;
+
+export type EvalAgent = (
+  question: string,
+  history: ConversationMessage[],
+  model?: string
+) => Promise<AgentRunOutput>;
+
+export interface EvalRunOptions {
+  goldenSet: string;
+  model?: string;
+  label?: string;
+  runAgent?: EvalAgent;
+  onCaseComplete?: (result: EvalCaseResult, index: number, total: number) => void;
+}
+
+/**
+ * Default agent adapter: the production agent, with its result reduced to what is scored
+ */
+export const runDocsAgentForEval: EvalAgent = async (question, history, model) => {
+  const result: any = await runGlobalPaymentsDocsAgent(question, model, history);
+
+  return {
+    response: typeof result?.response === 'string' ? result.response : '',
+    citations: Array.isArray(result?.metadata?.citations) ? result.metadata.citations : [],
+    reasoningEffort: result?.metadata?.reasoningEffort,
+    error: result?.error ? String(result.error?.message || result.error) : undefined
+  };
+};
+
+/**
+ * Run every golden case through the agent one at a time and score the answers
+ */
+export async function runEvaluation(cases: EvalCase[], options: EvalRunOptions): Promise<EvalRun> {
+  const { goldenSet, model, label, runAgent = runDocsAgentForEval, onCaseComplete } = options;
+  const startedAt = new Date().toISOString();
+  const results: EvalCaseResult[] = [];
+
+  for (let index = 0; index < cases.length; index++) {
+    const evalCase = cases[index];
+    const caseStartedAt = Date.now();
+    let output: AgentRunOutput;
+
+    try {
+      output = await runAgent(evalCase.question, evalCase.history || [], model);
+    } catch (error) {
+      output = { response: '', citations: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const result = scoreCase(evalCase, output, Date.now() - caseStartedAt);
+    results.push(result);
+    onCaseComplete?.(result, index, cases.length);
+  }
+
+  const config: EvalRun['config'] = {
+    model: model || 'default',
+    retrievalProvider: process.env.RETRIEVAL_PROVIDER || 'openai'
+  };
+  if (label) {
+    config.label = label;
+  }
+
+  return {
+    version: EVAL_RUN_VERSION,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    goldenSet,
+    config,
+    summary: summarizeResults(results),
+    results
+  };
+}
+
+export function writeEvalRun(runsDir: string, run: EvalRun): string {
+  fs.mkdirSync(runsDir, { recursive: true });
+  const fileName = `${run.startedAt.replace(/[:.]/g, '-')}.json`;
+  const filePath = path.join(runsDir, fileName);
+  fs.writeFileSync(filePath, JSON.stringify(run, null, 2));
+  return filePath;
+}
+
+export function loadEvalRun(filePath: string): EvalRun {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!parsed || parsed.version !== EVAL_RUN_VERSION || !Array.isArray(parsed.results)) {
+    throw new Error(`${filePath} is not a saved evaluation run`);
+  }
+  return parsed;
+}
+
+/**
+ * Find the most recent saved run for the same golden set, to diff against by default
+ */
+export function findLatestEvalRun(runsDir: string, goldenSet: string): string | null {
+  if (!fs.existsSync(runsDir)) {
+    return null;
+  }
+
+  const runFiles = fs
+    .readdirSync(runsDir)
+    .filter((fileName) => fileName.endsWith('.json'))
+    .sort()
+    .reverse();
+
+  for (const fileName of runFiles) {
+    const filePath = path.join(runsDir, fileName);
+    try {
+      if (loadEvalRun(filePath).goldenSet === goldenSet) {
+        return filePath;
+      }
+    } catch {
+      // Ignore unrelated or corrupt files in the runs directory.
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,172 @@
+import { DOCS_ONLY_NO_MATCH_MESSAGE, DOCS_ONLY_UNAVAILABLE_MESSAGE } from '../agent';
+import type { Citation } from '../citations';
+import type { EvalCase, EvalCaseResult, EvalComparison, EvalRun, EvalSummary } from './types';
+
+export interface AgentRunOutput {
+  response: string;
+  citations: Citation[];
+  reasoningEffort?: string;
+  error?: string;
+}
+
+function normalizeSourcePath(source: string): string {
+  return source
+    .trim()
+    .toLowerCase()
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^docs\//, '');
+}
+
+function sourceMatches(cited: string, expected: string): boolean {
+  const citedPath = normalizeSourcePath(cited);
+  const expectedPath = normalizeSourcePath(expected);
+  return citedPath === expectedPath || citedPath.endsWith(`/${expectedPath}`);
+}
+
+function factMatches(answer: string, fact: string): boolean {
+  const regexMatch = fact.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(answer);
+    } catch {
+      // Not a valid pattern after all; fall back to a plain substring check.
+    }
+  }
+
+  return answer.toLowerCase().includes(fact.toLowerCase());
+}
+
+/**
+ * Score one agent answer against its golden case
+ */
+export function scoreCase(evalCase: EvalCase, output: AgentRunOutput, durationMs: number): EvalCaseResult {
+  const answer = output.response || '';
+  const citedSources = Array.from(new Set(output.citations.map((citation) => citation.source)));
+  const saidNoMatch = answer.includes(DOCS_ONLY_NO_MATCH_MESSAGE);
+  const failures: string[] = [];
+
+  if (output.error) {
+    failures.push(`error: ${output.error}`);
+  } else if (answer.includes(DOCS_ONLY_UNAVAILABLE_MESSAGE)) {
+    failures.push('error: documentation search was unavailable');
+  }
+
+  const noMatchCorrect = evalCase.mustSayNoMatch ? saidNoMatch : !saidNoMatch;
+  if (!noMatchCorrect) {
+    failures.push(evalCase.mustSayNoMatch ? 'expected the no-match answer' : 'answered with no-match');
+  }
+
+  // Retrieval and facts only apply to questions the docs are expected to answer.
+  const expectedSources = evalCase.mustSayNoMatch ? [] : evalCase.expectedSources || [];
+  let retrievalHit: boolean | null = null;
+  let firstHitRank: number | null = null;
+
+  if (expectedSources.length > 0) {
+    const hitIndex = output.citations.findIndex((citation) =>
+      expectedSources.some((expected) => sourceMatches(citation.source, expected))
+    );
+    retrievalHit = hitIndex !== -1;
+    firstHitRank = retrievalHit ? hitIndex + 1 : null;
+
+    if (!retrievalHit) {
+      failures.push(`none of the expected sources were cited (${expectedSources.join(', ')})`);
+    }
+  }
+
+  const requiredFacts = evalCase.mustSayNoMatch ? [] : evalCase.requiredFacts || [];
+  const factsFound = requiredFacts.filter((fact) => factMatches(answer, fact));
+  const factsMissing = requiredFacts.filter((fact) => !factsFound.includes(fact));
+  if (factsMissing.length > 0) {
+    failures.push(`missing facts: ${factsMissing.join(', ')}`);
+  }
+
+  return {
+    id: evalCase.id,
+    question: evalCase.question,
+    tags: evalCase.tags || [],
+    passed: failures.length === 0,
+    failures,
+    answer,
+    saidNoMatch,
+    noMatchCorrect,
+    citedSources,
+    retrievalHit,
+    firstHitRank,
+    factsFound,
+    factsMissing,
+    reasoningEffort: output.reasoningEffort,
+    durationMs,
+    error: output.error
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : Math.round((numerator / denominator) * 10000) / 10000;
+}
+
+export function summarizeResults(results: EvalCaseResult[]): EvalSummary {
+  const retrievalResults = results.filter((result) => result.retrievalHit !== null);
+  const totalFacts = results.reduce(
+    (total, result) => total + result.factsFound.length + result.factsMissing.length,
+    0
+  );
+  const foundFacts = results.reduce((total, result) => total + result.factsFound.length, 0);
+  const totalDuration = results.reduce((total, result) => total + result.durationMs, 0);
+
+  return {
+    totalCases: results.length,
+    passedCases: results.filter((result) => result.passed).length,
+    passRate: ratio(results.filter((result) => result.passed).length, results.length),
+    retrievalCases: retrievalResults.length,
+    retrievalHitRate: ratio(retrievalResults.filter((result) => result.retrievalHit).length, retrievalResults.length),
+    noMatchAccuracy: ratio(results.filter((result) => result.noMatchCorrect && !result.error).length, results.length),
+    factCoverage: ratio(foundFacts, totalFacts),
+    errorCount: results.filter((result) => result.error).length,
+    averageDurationMs: results.length === 0 ? 0 : Math.round(totalDuration / results.length)
+  };
+}
+
+const COMPARED_METRICS: (keyof EvalSummary)[] = [
+  'passRate',
+  'retrievalHitRate',
+  'noMatchAccuracy',
+  'factCoverage',
+  'errorCount',
+  'averageDurationMs'
+];
+
+/**
+ * Diff a run against a baseline run: metric deltas plus cases that regressed or were fixed
+ */
+export function compareRuns(baseline: EvalRun, current: EvalRun): EvalComparison {
+  const baselineResults = new Map(baseline.results.map((result) => [result.id, result]));
+  const currentIds = new Set(current.results.map((result) => result.id));
+  const changes: EvalComparison['changes'] = [];
+
+  for (const result of current.results) {
+    const previous = baselineResults.get(result.id);
+    if (!previous) {
+      changes.push({ id: result.id, change: 'added', failures: result.failures });
+    } else if (previous.passed && !result.passed) {
+      changes.push({ id: result.id, change: 'regressed', failures: result.failures });
+    } else if (!previous.passed && result.passed) {
+      changes.push({ id: result.id, change: 'fixed', failures: [] });
+    }
+  }
+
+  baseline.results
+    .filter((result) => !currentIds.has(result.id))
+    .forEach((result) => changes.push({ id: result.id, change: 'removed', failures: [] }));
+
+  const summaryDelta: EvalComparison['summaryDelta'] = {};
+  COMPARED_METRICS.forEach((metric) => {
+    summaryDelta[metric] = Math.round((current.summary[metric] - baseline.summary[metric]) * 10000) / 10000;
+  });
+
+  return {
+    baselineStartedAt: baseline.startedAt,
+    summaryDelta,
+    changes
+  };
+}
@@ -0,0 +1,65 @@
+import type { ConversationMessage } from '../agent';
+
+// One golden question with what a correct run must retrieve and say
+export interface EvalCase {
+  id: string;
+  question: string;
+  history?: ConversationMessage[];
+  expectedSources?: string[]; // Doc paths relative to docs/; a hit is any of them being cited
+  requiredFacts?: string[]; // Substrings (case-insensitive) or /regex/flags the answer must contain
+  mustSayNoMatch?: boolean; // The answer must be the documentation no-match message
+  tags?: string[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  tags: string[];
+  passed: boolean;
+  failures: string[];
+  answer: string;
+  saidNoMatch: boolean;
+  noMatchCorrect: boolean;
+  citedSources: string[];
+  retrievalHit: boolean | null; // null when the case has no expected sources
+  firstHitRank: number | null;
+  factsFound: string[];
+  factsMissing: string[];
+  reasoningEffort?: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  totalCases: number;
+  passedCases: number;
+  passRate: number;
+  retrievalCases: number;
+  retrievalHitRate: number;
+  noMatchAccuracy: number;
+  factCoverage: number;
+  errorCount: number;
+  averageDurationMs: number;
+}
+
+export interface EvalRun {
+  version: number;
+  startedAt: string;
+  finishedAt: string;
+  goldenSet: string;
+  config: Record<string, string | number | boolean>;
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
+
+export interface EvalCaseChange {
+  id: string;
+  change: 'regressed' | 'fixed' | 'added' | 'removed';
+  failures: string[];
+}
+
+export interface EvalComparison {
+  baselineStartedAt: string;
+  summaryDelta: Partial<Record<keyof EvalSummary, number>>;
+  changes: EvalCaseChange[];
+}
@@ -0,0 +1,49 @@
+import type { FeedbackRecord } from './types';
+
+export type FeedbackExportFormat = 'json' | 'jsonl' | 'csv';
+
+const CSV_COLUMNS: { header: string; value: (record: FeedbackRecord) => string }[] = [
+  { header: 'createdAt', value: (record) => record.createdAt },
+  { header: 'rating', value: (record) => record.rating },
+  { header: 'reason', value: (record) => record.reason || '' },
+  { header: 'comment', value: (record) => record.comment || '' },
+  { header: 'question', value: (record) => record.question },
+  { header: 'answer', value: (record) => record.answer },
+  {
+    header: 'sources',
+    value: (record) =>
+      record.sources
+        .map((source) => {
+          const details = [
+            source.section,
+            typeof source.score === 'number' ? `score ${source.score}` : ''
+          ].filter(Boolean);
+          return details.length > 0 ? `${source.source} (${details.join(', ')})` : source.source;
+        })
+        .join('; ')
+  },
+  { header: 'reasoningEffort', value: (record) => record.reasoningEffort || '' },
+  { header: 'userId', value: (record) => record.userId || '' },
+  { header: 'conversationId', value: (record) => record.conversationId },
+  { header: 'messageId', value: (record) => record.messageId }
+];
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatFeedbackExport(records: FeedbackRecord[], format: FeedbackExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return [
+        CSV_COLUMNS.map((column) => column.header).join(','),
+        ...records.map((record) =>
+          CSV_COLUMNS.map((column) => escapeCsvValue(column.value(record))).join(',')
+        )
+      ].join('\r\n');
+    case 'jsonl':
+      return records.map((record) => JSON.stringify(record)).join('\n');
+    default:
+      return JSON.stringify(records, null, 2);
+  }
+}
@@ -0,0 +1,17 @@
+import { readBearerToken } from '../auth';
+import { secretsMatch } from '../auth/signedToken';
+
+// Exports require "Authorization: Bearer <token>"; without a token they are turned off
+const FEEDBACK_EXPORT_TOKEN = process.env.FEEDBACK_EXPORT_TOKEN || '';
+
+export function isFeedbackExportEnabled(): boolean {
+  return !!FEEDBACK_EXPORT_TOKEN;
+}
+
+/**
+ * Whether a request carries the feedback export token. Kept free of Node APIs so the middleware can use it.
+ */
+export async function hasFeedbackExportToken(headers: Headers): Promise<boolean> {
+  const bearerToken = readBearerToken(headers);
+  return !!FEEDBACK_EXPORT_TOKEN && !!bearerToken && secretsMatch(bearerToken, FEEDBACK_EXPORT_TOKEN);
+}
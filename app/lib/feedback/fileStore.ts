@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FeedbackInput, FeedbackListOptions, FeedbackRecord, FeedbackStore } from './types';
+
+const FEEDBACK_STORE_PATH = process.env.FEEDBACK_STORE_PATH || path.join('.data', 'feedback.jsonl');
+
+/**
+ * Feedback store that appends one JSON record per line to a local file
+ */
+export function createFileFeedbackStore(filePath = FEEDBACK_STORE_PATH): FeedbackStore {
+  const storePath = path.resolve(filePath);
+
+  async function readRecords(): Promise<FeedbackRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(storePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: FeedbackRecord[] = [];
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        console.warn(`Skipping malformed feedback record on line ${index + 1} of ${storePath}`);
+      }
+    });
+
+    return records;
+  }
+
+  return {
+    name: 'file',
+
+    async record(input: FeedbackInput) {
+      const record: FeedbackRecord = {
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        ...input
+      };
+
+      await fs.mkdir(path.dirname(storePath), { recursive: true });
+      await fs.appendFile(storePath, `${JSON.stringify(record)}\n`);
+      return record;
+    },
+
+    async list(options: FeedbackListOptions = {}) {
+      // Records are append-only; keep the latest vote per message.
+      const latestByMessage = new Map<string, FeedbackRecord>();
+      for (const record of await readRecords()) {
+        latestByMessage.set(`${record.conversationId}:${record.messageId}`, record);
+      }
+
+      const sinceTime = options.since ? new Date(options.since).getTime() : NaN;
+
+      return Array.from(latestByMessage.values())
+        .filter((record) => !options.rating || record.rating === options.rating)
+        .filter((record) => Number.isNaN(sinceTime) || new Date(record.createdAt).getTime() >= sinceTime)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { createFileFeedbackStore } from './fileStore';
+import type { FeedbackStore } from './types';
+
+// Select the feedback backend: "file" (JSON lines on disk) or "none" to turn feedback collection off
+const FEEDBACK_STORE = (process.env.FEEDBACK_STORE || 'file').toLowerCase();
+
+let store: FeedbackStore | null | undefined;
+
+/**
+ * Returns the configured feedback store, or null when feedback collection is disabled
+ */
+export function getFeedbackStore(): FeedbackStore | null {
+  if (store !== undefined) {
+    return store;
+  }
+
+  switch (FEEDBACK_STORE) {
+    case 'none':
+    case 'disabled':
+      store = null;
+      break;
+    case 'file':
+      store = createFileFeedbackStore();
+      break;
+    default:
+      console.warn(`Unknown FEEDBACK_STORE "${FEEDBACK_STORE}", falling back to file`);
+      store = createFileFeedbackStore();
+  }
+
+  return store;
+}
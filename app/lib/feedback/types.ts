@@ -0,0 +1,44 @@
+import type { Citation } from '../citations';
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason =
+  | 'incorrect'
+  | 'incomplete'
+  | 'wrong_sources'
+  | 'outdated'
+  | 'unclear'
+  | 'other';
+
+export interface FeedbackInput {
+  conversationId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+  question: string;
+  answer: string;
+  sources: Citation[];
+  reasoningEffort?: string;
+  userId?: string; // Signed-in user who gave the feedback; set by the server, unset when auth is off
+}
+
+export interface FeedbackRecord extends FeedbackInput {
+  id: string;
+  createdAt: string;
+}
+
+export interface FeedbackListOptions {
+  rating?: FeedbackRating;
+  since?: string;
+}
+
+/**
+ * Storage backend for answer feedback. A later record for the same message replaces
+ * the earlier one, so users can change their vote.
+ */
+export interface FeedbackStore {
+  name: string;
+  record(input: FeedbackInput): Promise<FeedbackRecord>;
+  list(options?: FeedbackListOptions): Promise<FeedbackRecord[]>;
+}
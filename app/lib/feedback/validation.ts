@@ -0,0 +1,75 @@
+import type { FeedbackInput, FeedbackReason } from './types';
+
+// Reasons offered for a thumbs-down, in display order
+export const FEEDBACK_REASONS: { value: FeedbackReason; label: string }[] = [
+  { value: 'incorrect', label: 'Incorrect answer' },
+  { value: 'incomplete', label: 'Incomplete or missing details' },
+  { value: 'wrong_sources', label: 'Irrelevant sources' },
+  { value: 'outdated', label: 'Outdated information' },
+  { value: 'unclear', label: 'Hard to understand' },
+  { value: 'other', label: 'Other' }
+];
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_SOURCES = 20;
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+function normalizeText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Validate a feedback request body. Returns an error message for invalid input.
+ */
+export function normalizeFeedbackInput(body: any): { input: FeedbackInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid feedback format' };
+  }
+
+  if (body.rating !== 'up' && body.rating !== 'down') {
+    return { error: 'Rating must be "up" or "down"' };
+  }
+
+  if (typeof body.conversationId !== 'string' || !ID_PATTERN.test(body.conversationId)) {
+    return { error: 'Invalid conversation id' };
+  }
+
+  if (typeof body.messageId !== 'string' || !ID_PATTERN.test(body.messageId)) {
+    return { error: 'Invalid message id' };
+  }
+
+  const answer = normalizeText(body.answer, MAX_TEXT_LENGTH);
+  if (!answer) {
+    return { error: 'Answer is required' };
+  }
+
+  const reason = FEEDBACK_REASONS.some((option) => option.value === body.reason) ? body.reason : undefined;
+  const sources = Array.isArray(body.sources)
+    ? body.sources
+        .filter((source: any) => source && typeof source.source === 'string')
+        .slice(0, MAX_SOURCES)
+        .map((source: any) => ({
+          id: Number.isInteger(source.id) ? source.id : 0,
+          source: source.source,
+          section: typeof source.section === 'string' ? source.section : undefined,
+          chunkIndex: Number.isInteger(source.chunkIndex) ? source.chunkIndex : undefined,
+          score: typeof source.score === 'number' ? source.score : undefined,
+          snippet: normalizeText(source.snippet, MAX_COMMENT_LENGTH)
+        }))
+    : [];
+
+  return {
+    input: {
+      conversationId: body.conversationId,
+      messageId: body.messageId,
+      rating: body.rating,
+      reason: body.rating === 'down' ? reason : undefined,
+      comment: normalizeText(body.comment, MAX_COMMENT_LENGTH) || undefined,
+      question: normalizeText(body.question, MAX_TEXT_LENGTH),
+      answer,
+      sources,
+      reasoningEffort: typeof body.reasoningEffort === 'string' ? body.reasoningEffort : undefined
+    }
+  };
+}
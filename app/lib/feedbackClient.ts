@@ -0,0 +1,14 @@
+import type { FeedbackInput } from './feedback/types';
+
+export async function submitFeedback(feedback: FeedbackInput): Promise<void> {
+  const response = await fetch('/api/feedback', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(feedback)
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || body?.error || `Feedback request failed with status ${response.status}`);
+  }
+}
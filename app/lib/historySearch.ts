@@ -0,0 +1,166 @@
+export interface SearchableMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface SearchableSession {
+  id: string;
+  title: string;
+  updatedAt: string;
+  messages: SearchableMessage[];
+}
+
+export interface HistorySearchMessageHit {
+  messageId: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+}
+
+export interface HistorySearchResult {
+  chatId: string;
+  title: string;
+  updatedAt: string;
+  isTitleMatch: boolean;
+  messageHits: HistorySearchMessageHit[];
+  totalMessageHits: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const MAX_SEARCH_TERMS = 8;
+const MAX_MESSAGE_HITS_PER_CHAT = 3;
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40;
+const SEARCH_HIGHLIGHT_NAME = 'history-search';
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Lowercase search terms from the query box. Every term has to match, in any order.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = collapseWhitespace(query.toLowerCase()).split(' ').filter(Boolean);
+  return terms.filter((term, index) => terms.indexOf(term) === index).slice(0, MAX_SEARCH_TERMS);
+}
+
+const containsAllTerms = (text: string, terms: string[]) => {
+  const lowerText = text.toLowerCase();
+  return terms.every((term) => lowerText.includes(term));
+};
+
+/**
+ * Where the terms occur in a text, merged and in order, for wrapping them in a highlight
+ */
+export function findMatchRanges(text: string, terms: string[]): TextRange[] {
+  const lowerText = text.toLowerCase();
+  const ranges: TextRange[] = [];
+
+  terms.forEach((term) => {
+    let index = lowerText.indexOf(term);
+    while (term && index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+// A single-line excerpt that starts shortly before the first match
+function buildSnippet(content: string, terms: string[]): string {
+  const text = collapseWhitespace(content);
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  const firstMatch = findMatchRanges(text, terms)[0];
+  let start = Math.max(0, (firstMatch?.start ?? 0) - SNIPPET_LEAD);
+  // Don't cut the first word in half
+  const wordStart = text.lastIndexOf(' ', start);
+  if (start > 0 && wordStart !== -1 && start - wordStart < 15) {
+    start = wordStart + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Chats whose title or messages contain every term of the query, in the order they were given.
+ * Messages are listed in conversation order, up to a few per chat.
+ */
+export function searchChatHistory(sessions: SearchableSession[], query: string): HistorySearchResult[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: HistorySearchResult[] = [];
+  sessions.forEach((session) => {
+    const isTitleMatch = containsAllTerms(session.title, terms);
+    const matchingMessages = session.messages.filter((message) => containsAllTerms(message.content, terms));
+    if (!isTitleMatch && matchingMessages.length === 0) {
+      return;
+    }
+
+    results.push({
+      chatId: session.id,
+      title: session.title,
+      updatedAt: session.updatedAt,
+      isTitleMatch,
+      messageHits: matchingMessages.slice(0, MAX_MESSAGE_HITS_PER_CHAT).map((message) => ({
+        messageId: message.id,
+        role: message.role,
+        snippet: buildSnippet(message.content, terms),
+      })),
+      totalMessageHits: matchingMessages.length,
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Mark the terms inside a rendered message with the CSS Custom Highlight API. Does nothing in
+ * browsers without it; the message itself is still scrolled to and flashed.
+ */
+export function highlightSearchTerms(element: HTMLElement, terms: string[]) {
+  if (typeof CSS === 'undefined' || !('highlights' in CSS) || typeof Highlight === 'undefined') {
+    return;
+  }
+
+  const highlight = new Highlight();
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  while (node) {
+    const textNode = node;
+    findMatchRanges(textNode.textContent || '', terms).forEach(({ start, end }) => {
+      const range = document.createRange();
+      range.setStart(textNode, start);
+      range.setEnd(textNode, end);
+      highlight.add(range);
+    });
+    node = walker.nextNode();
+  }
+
+  CSS.highlights.set(SEARCH_HIGHLIGHT_NAME, highlight);
+}
+
+export function clearSearchHighlight() {
+  if (typeof CSS !== 'undefined' && 'highlights' in CSS) {
+    CSS.highlights.delete(SEARCH_HIGHLIGHT_NAME);
+  }
+}
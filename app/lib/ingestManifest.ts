@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const INGEST_MANIFEST_VERSION = 1;
+
+// One uploaded chunk, stored as its own file in the vector store
+export interface ManifestChunk {
+  hash: string;
+  chunkIndex: number;
+  section: string;
+  fileId: string;
+}
+
+export interface ManifestFile {
+  hash: string;
+  title: string;
+  ingestedAt: string;
+  chunks: ManifestChunk[];
+}
+
+export interface IngestManifest {
+  version: number;
+  vectorStoreId: string;
+  updatedAt: string;
+  files: Record<string, ManifestFile>;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+export function createEmptyManifest(vectorStoreId: string): IngestManifest {
+  return {
+    version: INGEST_MANIFEST_VERSION,
+    vectorStoreId,
+    updatedAt: new Date().toISOString(),
+    files: {}
+  };
+}
+
+/**
+ * Load the ingest manifest for a vector store. A missing manifest, or one recorded
+ * against a different vector store, yields an empty manifest so everything is uploaded.
+ */
+export function loadIngestManifest(manifestPath: string, vectorStoreId: string): IngestManifest {
+  if (!fs.existsSync(manifestPath)) {
+    return createEmptyManifest(vectorStoreId);
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (!parsed || parsed.version !== INGEST_MANIFEST_VERSION || typeof parsed.files !== 'object') {
+      console.warn(`Ignoring ingest manifest at ${manifestPath}: unsupported format`);
+      return createEmptyManifest(vectorStoreId);
+    }
+
+    if (parsed.vectorStoreId !== vectorStoreId) {
+      console.warn(
+        `Ingest manifest was recorded for vector store ${parsed.vectorStoreId}; starting fresh for ${vectorStoreId}`
+      );
+      return createEmptyManifest(vectorStoreId);
+    }
+
+    return parsed as IngestManifest;
+  } catch (error) {
+    console.warn(`Unable to read ingest manifest at ${manifestPath}:`, error);
+    return createEmptyManifest(vectorStoreId);
+  }
+}
+
+export function saveIngestManifest(manifestPath: string, manifest: IngestManifest) {
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
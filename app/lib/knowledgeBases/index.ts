@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import type { KnowledgeBase, KnowledgeBaseConfig, KnowledgeBaseList, KnowledgeBaseSummary } from './types';
+import { isKnowledgeBaseId } from './validation';
+
+const DEFAULT_KNOWLEDGE_BASES_PATH = path.join('config', 'knowledge-bases.json');
+const DEFAULT_KNOWLEDGE_BASE_ID = 'default';
+const DEFAULT_VECTOR_STORE_ID = 'vs_69288aa80bf881918d805ebd82e191f9';
+const DEFAULT_VECTOR_STORE_NAME = 'globalpaymentsdocs';
+const DEFAULT_RANKING_RULES_PATH = path.join('config', 'ranking-rules.json');
+const DEFAULT_PERSONA = 'You are a documentation-only AI assistant for Global Payments Inc.';
+
+interface LoadedKnowledgeBases {
+  defaultKnowledgeBase: KnowledgeBase;
+  knowledgeBases: KnowledgeBase[];
+}
+
+let cachedKnowledgeBases: { mtimeMs: number; loaded: LoadedKnowledgeBases } | null = null;
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Fill in a knowledge base's settings. Only the default knowledge base falls back to the
+ * VECTOR_STORE_ID, LOCAL_DOCS_DIR and path environment variables; the others must name their
+ * own vector store and docs directory.
+ */
+function resolveKnowledgeBase(config: KnowledgeBaseConfig, isDefault: boolean): KnowledgeBase | null {
+  // Read at call time so scripts that load .env.local after importing this module still apply it.
+  const env = (name: string) => (isDefault ? readString(process.env[name]) : undefined);
+  const vectorStoreId =
+    readString(config.vectorStoreId) || env('VECTOR_STORE_ID') || (isDefault ? DEFAULT_VECTOR_STORE_ID : undefined);
+  const docsDir = readString(config.docsDir) || env('LOCAL_DOCS_DIR') || (isDefault ? 'docs' : undefined);
+  if (!vectorStoreId || !docsDir) {
+    console.warn(`Skipping knowledge base "${config.id}": vectorStoreId and docsDir are required`);
+    return null;
+  }
+
+  return {
+    id: config.id,
+    name: readString(config.name) || config.id,
+    description: readString(config.description),
+    vectorStoreId,
+    vectorStoreName:
+      readString(config.vectorStoreName) ||
+      env('VECTOR_STORE_NAME') ||
+      (isDefault ? DEFAULT_VECTOR_STORE_NAME : config.id),
+    docsDir,
+    persona: readString(config.persona) || DEFAULT_PERSONA,
+    rankingRulesPath:
+      readString(config.rankingRulesPath) ||
+      readString(process.env.RANKING_RULES_PATH) ||
+      DEFAULT_RANKING_RULES_PATH,
+    localIndexPath:
+      readString(config.localIndexPath) ||
+      env('LOCAL_INDEX_PATH') ||
+      path.join(docsDir, '.search-index.json'),
+    responseCodesPath:
+      readString(config.responseCodesPath) ||
+      env('RESPONSE_CODES_PATH') ||
+      path.join(docsDir, '.response-codes.json'),
+    ingestManifestPath:
+      readString(config.ingestManifestPath) ||
+      env('INGEST_MANIFEST_PATH') ||
+      path.join(docsDir, '.ingest-manifest.json'),
+    docsVersionPath:
+      readString(config.docsVersionPath) ||
+      env('DOCS_VERSION_PATH') ||
+      path.join(docsDir, '.docs-version.json')
+  };
+}
+
+function createFallbackKnowledgeBases(): LoadedKnowledgeBases {
+  const knowledgeBase = resolveKnowledgeBase(
+    { id: DEFAULT_KNOWLEDGE_BASE_ID, name: 'Global Payments documentation' },
+    true
+  ) as KnowledgeBase;
+
+  return { defaultKnowledgeBase: knowledgeBase, knowledgeBases: [knowledgeBase] };
+}
+
+function parseKnowledgeBases(filePath: string): LoadedKnowledgeBases | null {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const configs: KnowledgeBaseConfig[] = Array.isArray(parsed?.knowledgeBases) ? parsed.knowledgeBases : [];
+  const validConfigs = configs.filter((config, index) => {
+    if (!config || !isKnowledgeBaseId(config.id)) {
+      console.warn(`Skipping knowledge base ${index + 1} in ${filePath}: missing or invalid id`);
+      return false;
+    }
+    if (configs.findIndex((other) => other?.id === config.id) !== index) {
+      console.warn(`Skipping duplicate knowledge base "${config.id}" in ${filePath}`);
+      return false;
+    }
+    return true;
+  });
+
+  if (validConfigs.length === 0) {
+    return null;
+  }
+
+  const defaultId = validConfigs.some((config) => config.id === parsed.defaultKnowledgeBase)
+    ? parsed.defaultKnowledgeBase
+    : validConfigs[0].id;
+  const knowledgeBases = validConfigs
+    .map((config) => resolveKnowledgeBase(config, config.id === defaultId))
+    .filter((knowledgeBase): knowledgeBase is KnowledgeBase => knowledgeBase !== null);
+  const defaultKnowledgeBase = knowledgeBases.find((knowledgeBase) => knowledgeBase.id === defaultId);
+
+  return defaultKnowledgeBase ? { defaultKnowledgeBase, knowledgeBases } : null;
+}
+
+/**
+ * Load the knowledge bases file, reloading it when it changes. Without a usable file there is a
+ * single default knowledge base configured from the environment.
+ */
+function loadKnowledgeBases(): LoadedKnowledgeBases {
+  const resolvedPath = path.resolve(process.env.KNOWLEDGE_BASES_PATH || DEFAULT_KNOWLEDGE_BASES_PATH);
+
+  let mtimeMs = 0;
+  try {
+    mtimeMs = fs.statSync(resolvedPath).mtimeMs;
+  } catch {
+    // No config file; fall through to the environment-based default.
+  }
+
+  if (cachedKnowledgeBases && cachedKnowledgeBases.mtimeMs === mtimeMs) {
+    return cachedKnowledgeBases.loaded;
+  }
+
+  let loaded: LoadedKnowledgeBases | null = null;
+  if (mtimeMs) {
+    try {
+      loaded = parseKnowledgeBases(resolvedPath);
+      if (!loaded) {
+        console.warn(`No usable knowledge bases in ${resolvedPath}; using the default from the environment`);
+      }
+    } catch (error) {
+      console.error(`Failed to load knowledge bases from ${resolvedPath}:`, error);
+    }
+  }
+
+  cachedKnowledgeBases = { mtimeMs, loaded: loaded || createFallbackKnowledgeBases() };
+  return cachedKnowledgeBases.loaded;
+}
+
+export function getDefaultKnowledgeBase(): KnowledgeBase {
+  return loadKnowledgeBases().defaultKnowledgeBase;
+}
+
+/**
+ * Knowledge base by id, or the default one when no id is given. Unknown ids return null.
+ */
+export function getKnowledgeBase(id?: string | null): KnowledgeBase | null {
+  if (!id) {
+    return getDefaultKnowledgeBase();
+  }
+
+  return loadKnowledgeBases().knowledgeBases.find((knowledgeBase) => knowledgeBase.id === id) || null;
+}
+
+export function getKnowledgeBases(): KnowledgeBase[] {
+  return loadKnowledgeBases().knowledgeBases;
+}
+
+export function toKnowledgeBaseSummary({ id, name, description }: KnowledgeBase): KnowledgeBaseSummary {
+  return { id, name, description };
+}
+
+export function listKnowledgeBases(): KnowledgeBaseList {
+  const { defaultKnowledgeBase, knowledgeBases } = loadKnowledgeBases();
+  return {
+    defaultKnowledgeBase: defaultKnowledgeBase.id,
+    knowledgeBases: knowledgeBases.map(toKnowledgeBaseSummary)
+  };
+}
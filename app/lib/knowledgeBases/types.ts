@@ -0,0 +1,43 @@
+// One entry of config/knowledge-bases.json. Paths are relative to the project root.
+export interface KnowledgeBaseConfig {
+  id: string;
+  name: string;
+  description?: string;
+  vectorStoreId?: string;
+  vectorStoreName?: string;
+  docsDir?: string;
+  persona?: string; // Opening sentence of the system prompt, e.g. "You are ... for the terminals team."
+  rankingRulesPath?: string;
+  localIndexPath?: string; // Defaults to <docsDir>/.search-index.json
+  responseCodesPath?: string; // Defaults to <docsDir>/.response-codes.json
+  ingestManifestPath?: string; // Defaults to <docsDir>/.ingest-manifest.json
+  docsVersionPath?: string; // Defaults to <docsDir>/.docs-version.json
+}
+
+// A knowledge base with every setting resolved
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description?: string;
+  vectorStoreId: string;
+  vectorStoreName: string;
+  docsDir: string;
+  persona: string;
+  rankingRulesPath: string;
+  localIndexPath: string;
+  responseCodesPath: string;
+  ingestManifestPath: string;
+  docsVersionPath: string;
+}
+
+// What the UI needs to offer a knowledge base in the selector
+export interface KnowledgeBaseSummary {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface KnowledgeBaseList {
+  defaultKnowledgeBase: string;
+  knowledgeBases: KnowledgeBaseSummary[];
+}
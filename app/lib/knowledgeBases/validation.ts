@@ -0,0 +1,5 @@
+const KNOWLEDGE_BASE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export function isKnowledgeBaseId(value: unknown): value is string {
+  return typeof value === 'string' && KNOWLEDGE_BASE_ID_PATTERN.test(value);
+}
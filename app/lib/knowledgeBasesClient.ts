@@ -0,0 +1,20 @@
+import type { KnowledgeBaseList } from './knowledgeBases/types';
+
+/**
+ * Knowledge bases configured on the server. Resolves to null when the list cannot be loaded,
+ * in which case chats use the server's default knowledge base.
+ */
+export async function fetchKnowledgeBases(): Promise<KnowledgeBaseList | null> {
+  try {
+    const response = await fetch('/api/knowledge-bases', { cache: 'no-store' });
+    if (!response.ok) {
+      return null;
+    }
+
+    const body = await response.json();
+    return Array.isArray(body?.knowledgeBases) ? body : null;
+  } catch (error) {
+    console.error('Unable to load knowledge bases:', error);
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+function parsePrice(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Prices in USD per million tokens, used to estimate what an answer cost. Defaults are GPT-5.1 list prices.
+const INPUT_COST_PER_MILLION_TOKENS = parsePrice(process.env.MODEL_INPUT_COST_PER_1M_TOKENS, 1.25);
+const OUTPUT_COST_PER_MILLION_TOKENS = parsePrice(process.env.MODEL_OUTPUT_COST_PER_1M_TOKENS, 10);
+
+/**
+ * Tokens used by every model call made for one answer, including query rewrites, tool steps and retries
+ */
+export interface ModelUsage {
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number; // Estimate from the configured per-token prices
+}
+
+export function createModelUsage(): ModelUsage {
+  return { modelCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Add the `usage` of a Responses API response to the running total
+ */
+export function addModelUsage(usage: ModelUsage, response: any) {
+  const inputTokens = Number(response?.usage?.input_tokens) || 0;
+  const outputTokens = Number(response?.usage?.output_tokens) || 0;
+
+  usage.modelCalls++;
+  usage.inputTokens += inputTokens;
+  usage.outputTokens += outputTokens;
+  usage.totalTokens += Number(response?.usage?.total_tokens) || inputTokens + outputTokens;
+  usage.costUsd +=
+    (inputTokens * INPUT_COST_PER_MILLION_TOKENS + outputTokens * OUTPUT_COST_PER_MILLION_TOKENS) / 1000000;
+}
@@ -0,0 +1,123 @@
+import path from 'path';
+import { createFixtureNotFoundError, getFixturePath, readFixture, writeFixture } from './openaiFixtures';
+import type { FixtureMethod, FixtureMode } from './openaiFixtures';
+
+// Import OpenAI properly
+const { OpenAI } = require('openai');
+
+const DEFAULT_FIXTURES_DIR = path.join('fixtures', 'openai');
+
+export interface OpenAIClientOptions {
+  apiKey?: string;
+  baseURL?: string;
+  fixtureMode?: FixtureMode;
+  fixturesDir?: string;
+}
+
+let sharedClient: any = null;
+
+async function* replayEvents(events: unknown[]) {
+  for (const event of events) {
+    yield event;
+  }
+}
+
+/**
+ * Wrap one client method so its calls are recorded to, or replayed from, fixture files.
+ * `toParams` maps the call arguments to the parameters that identify the fixture.
+ */
+function wrapWithFixtures(
+  target: any,
+  methodName: string,
+  fixtureMethod: FixtureMethod,
+  mode: FixtureMode,
+  fixturesDir: string,
+  toParams: (...args: any[]) => any,
+  toRecorded: (result: any) => unknown = (result) => result
+) {
+  const original = target[methodName].bind(target);
+
+  target[methodName] = async (...args: any[]) => {
+    const params = toParams(...args);
+    const isStream = !!params?.stream;
+
+    if (mode === 'replay') {
+      const fixture = readFixture(fixturesDir, fixtureMethod, params);
+      if (!fixture) {
+        throw createFixtureNotFoundError(fixtureMethod, getFixturePath(fixturesDir, fixtureMethod, params));
+      }
+      return isStream ? replayEvents(fixture.events || []) : fixture.response;
+    }
+
+    const result = await original(...args);
+
+    if (!isStream) {
+      writeFixture(fixturesDir, { method: fixtureMethod, params, response: toRecorded(result) });
+      return result;
+    }
+
+    // Pass streamed events through as they arrive and save them once the stream completes.
+    return (async function* recordEvents() {
+      const events: unknown[] = [];
+      for await (const event of result) {
+        events.push(event);
+        yield event;
+      }
+      writeFixture(fixturesDir, { method: fixtureMethod, params, events });
+    })();
+  };
+}
+
+/**
+ * Create an OpenAI client. In record or replay mode, responses.create, embeddings.create and
+ * vectorStores.search go through fixture files so runs are repeatable without network access.
+ */
+export function createOpenAIClient(options: OpenAIClientOptions = {}) {
+  // Read at call time so scripts that load .env.local after importing this module still apply it.
+  // OPENAI_FIXTURE_MODE: "record" saves calls to fixture files, "replay" serves them without network.
+  const mode = options.fixtureMode || ((process.env.OPENAI_FIXTURE_MODE || 'off').toLowerCase() as FixtureMode);
+  const fixturesDir = path.resolve(options.fixturesDir || process.env.OPENAI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+
+  const client = new OpenAI({
+    // Replays never reach the API, so they do not need a real key.
+    apiKey: options.apiKey || process.env.OPENAI_API_KEY || (mode === 'replay' ? 'fixture-replay' : ''),
+    // OPENAI_BASE_URL points the client at another OpenAI-compatible server, such as scripts/fake-openai-server.ts
+    baseURL: options.baseURL || process.env.OPENAI_BASE_URL || undefined
+  });
+
+  if (mode !== 'record' && mode !== 'replay') {
+    return client;
+  }
+
+  wrapWithFixtures(client.responses, 'create', 'responses.create', mode, fixturesDir, (params) => params);
+  wrapWithFixtures(client.embeddings, 'create', 'embeddings.create', mode, fixturesDir, (params) => params);
+  wrapWithFixtures(
+    client.vectorStores,
+    'search',
+    'vectorStores.search',
+    mode,
+    fixturesDir,
+    (vectorStoreId, params) => ({ vector_store_id: vectorStoreId, ...params }),
+    // Keep the page contents only; the page object also holds the client and raw response.
+    (page) => ({ data: page?.data ?? [], has_more: !!page?.has_more })
+  );
+
+  return client;
+}
+
+/**
+ * Shared client used by the agent, retrieval and ingestion, created on first use
+ */
+export function getOpenAIClient() {
+  if (!sharedClient) {
+    sharedClient = createOpenAIClient();
+  }
+  return sharedClient;
+}
+
+/**
+ * Replace the shared client, e.g. with a stub in tests or a replaying client in the eval runner
+ */
+export function setOpenAIClient(client: any) {
+  sharedClient = client;
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+// OpenAI calls that can be recorded and replayed; the rest of the client always goes to the network
+export type FixtureMethod = 'responses.create' | 'embeddings.create' | 'vectorStores.search';
+
+export interface OpenAIFixture {
+  method: FixtureMethod;
+  params: unknown;
+  recordedAt: string;
+  response?: unknown;
+  events?: unknown[]; // Streamed calls store their events in order
+}
+
+export function createFixtureNotFoundError(method: FixtureMethod, filePath: string): Error {
+  return Object.assign(
+    new Error(
+      `No recorded OpenAI fixture for ${method} (expected ${filePath}). ` +
+        'Run once with OPENAI_FIXTURE_MODE=record and network access to create it.'
+    ),
+    { code: 'fixture_not_found' }
+  );
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Fixture key for a call: a hash of the method and its parameters, independent of key order
+ */
+export function getFixtureKey(method: FixtureMethod, params: unknown): string {
+  return crypto.createHash('sha256').update(`${method}:${stableStringify(params)}`).digest('hex').slice(0, 32);
+}
+
+export function getFixturePath(fixturesDir: string, method: FixtureMethod, params: unknown): string {
+  return path.join(fixturesDir, method, `${getFixtureKey(method, params)}.json`);
+}
+
+export function readFixture(fixturesDir: string, method: FixtureMethod, params: unknown): OpenAIFixture | null {
+  const filePath = getFixturePath(fixturesDir, method, params);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function writeFixture(fixturesDir: string, fixture: Omit<OpenAIFixture, 'recordedAt'>): string {
+  const filePath = getFixturePath(fixturesDir, fixture.method, fixture.params);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify({ ...fixture, recordedAt: new Date().toISOString() }, null, 2));
+  return filePath;
+}
@@ -0,0 +1,118 @@
+import { getOpenAIClient } from './openaiClient';
+import type { ConversationMessage } from './agent';
+import { addModelUsage } from './modelUsage';
+import type { ModelUsage } from './modelUsage';
+
+// QUERY_REWRITE: "llm" rewrites retrieval queries with a model call; "off" (default) uses the built-in heuristic
+const QUERY_REWRITE = (process.env.QUERY_REWRITE || 'off').toLowerCase();
+const QUERY_REWRITE_MODEL = process.env.QUERY_REWRITE_MODEL || '';
+const MAX_REWRITE_HISTORY_MESSAGES = 6;
+const MAX_REWRITE_MESSAGE_CHARS = 600;
+const MAX_SUB_QUERIES = 3;
+const MAX_QUERY_CHARS = 300;
+
+const REWRITE_INSTRUCTIONS = `You turn the latest user question in a conversation about Global Payments developer documentation into search queries for a documentation search engine.
+
+Rules:
+1. Write "query" as a standalone search query: replace pronouns and references such as "it", "that" or "the second one" with the concrete topic from the conversation.
+2. Keep exact identifiers unchanged: response codes, API field names, endpoint paths, product names.
+3. Do not answer the question and do not add facts that are not in the conversation.
+4. When the question asks about several distinct things and sub-queries are allowed, also list one focused query per part in "subQueries" (at most ${MAX_SUB_QUERIES}). Otherwise return an empty list.
+5. Respond with JSON only: {"query": "...", "subQueries": ["..."]}`;
+
+export interface QueryRewriteOptions {
+  model: string;
+  allowSubQueries: boolean; // Set for multi-part questions
+  usage?: ModelUsage; // Receives the tokens used by the rewrite call
+}
+
+export interface RewrittenQuery {
+  query: string;
+  subQueries: string[];
+}
+
+export function isQueryRewriteEnabled(): boolean {
+  return QUERY_REWRITE === 'llm';
+}
+
+function cleanQuery(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_CHARS) : '';
+}
+
+function buildRewriteInput(input: string, history: ConversationMessage[], allowSubQueries: boolean): string {
+  const transcript = history
+    .slice(-MAX_REWRITE_HISTORY_MESSAGES)
+    .map((message) => {
+      const content =
+        message.content.length > MAX_REWRITE_MESSAGE_CHARS
+          ? `${message.content.slice(0, MAX_REWRITE_MESSAGE_CHARS - 3)}...`
+          : message.content;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n\n');
+
+  return `Conversation (oldest to newest):
+${transcript || '(no earlier turns)'}
+
+Latest user question:
+${input}
+
+Sub-queries allowed: ${allowSubQueries ? 'yes' : 'no'}`;
+}
+
+function parseRewrite(outputText: string): RewrittenQuery | null {
+  // Models occasionally wrap JSON in a code fence; take the outermost object.
+  const jsonMatch = outputText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    const query = cleanQuery(parsed?.query);
+    if (!query) {
+      return null;
+    }
+
+    const subQueries: string[] = (Array.isArray(parsed?.subQueries) ? parsed.subQueries : [])
+      .map(cleanQuery)
+      .filter((subQuery: string) => subQuery && subQuery.toLowerCase() !== query.toLowerCase())
+      .slice(0, MAX_SUB_QUERIES);
+
+    return { query, subQueries };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite the latest turn plus history into a standalone search query, with sub-queries for
+ * multi-part questions. Resolves with null when the rewrite fails so callers can fall back.
+ */
+export async function rewriteRetrievalQuery(
+  input: string,
+  history: ConversationMessage[],
+  options: QueryRewriteOptions
+): Promise<RewrittenQuery | null> {
+  try {
+    const response = await getOpenAIClient().responses.create({
+      model: QUERY_REWRITE_MODEL || options.model,
+      instructions: REWRITE_INSTRUCTIONS,
+      input: buildRewriteInput(input, history, options.allowSubQueries)
+    });
+    if (options.usage) {
+      addModelUsage(options.usage, response);
+    }
+
+    const rewrite = parseRewrite(typeof response?.output_text === 'string' ? response.output_text : '');
+    if (!rewrite) {
+      console.warn('Query rewrite returned no usable query; using the heuristic retrieval query.');
+      return null;
+    }
+
+    return options.allowSubQueries ? rewrite : { query: rewrite.query, subQueries: [] };
+  } catch (error) {
+    console.warn('Query rewrite failed; using the heuristic retrieval query.', error);
+    return null;
+  }
+}
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import type { SearchResult } from './retrieval/types';
+
+// Text a rule pattern is tested against; "all" joins the source, section and content
+export type RankingRuleField = 'source' | 'section' | 'content' | 'all';
+
+// One rule as written in the ranking rules JSON file
+export interface RankingRuleConfig {
+  id: string;
+  description?: string;
+  pattern: string;
+  flags?: string; // Regular expression flags (default: "i")
+  field?: RankingRuleField; // Default: "all"
+  multiplier?: number; // Applied to the chunk score when the rule applies (default: 1)
+  whenRules?: string[]; // Only apply when the patterns of all these rules also match the chunk
+  unlessRules?: string[]; // Skip when the pattern of any of these rules also matches the chunk
+  exclude?: boolean | { unlessQueryMatches?: string }; // Leave the chunk out of the model context
+}
+
+interface RankingRule {
+  id: string;
+  description?: string;
+  pattern: RegExp;
+  field: RankingRuleField;
+  multiplier: number;
+  whenRules: string[];
+  unlessRules: string[];
+  exclude: boolean;
+  excludeUnlessQuery: RegExp | null;
+}
+
+export interface AppliedRankingRule {
+  id: string;
+  multiplier: number;
+  excluded: boolean;
+}
+
+export interface RankedSearchResult extends SearchResult {
+  adjustedScore: number;
+  appliedRules: AppliedRankingRule[];
+  excludedBy?: string; // Id of the first rule that excluded the chunk
+}
+
+export type RankingStatus = 'selected' | 'not_selected' | 'below_threshold' | 'excluded';
+
+// Reported in the agent metadata so it is visible why a chunk ranked where it did
+export interface RankingReport {
+  rulesPath: string;
+  rules: Array<{ id: string; description?: string }>;
+  results: Array<{
+    source: string;
+    section?: string;
+    chunkIndex?: number;
+    score: number;
+    adjustedScore: number;
+    appliedRules: AppliedRankingRule[];
+    status: RankingStatus;
+  }>;
+}
+
+// Loaded rules by resolved file path; knowledge bases can share a rules file or have their own
+const cachedRules = new Map<string, { mtimeMs: number; rules: RankingRule[] }>();
+
+function compilePattern(pattern: string, flags: string): RegExp {
+  // Global and sticky regexes keep state between test() calls, so drop those flags.
+  return new RegExp(pattern, flags.replace(/[gy]/g, ''));
+}
+
+function compileRule(config: RankingRuleConfig, index: number): RankingRule | null {
+  if (!config || typeof config.id !== 'string' || !config.id.trim() || typeof config.pattern !== 'string') {
+    console.warn(`Skipping ranking rule ${index + 1}: "id" and "pattern" are required`);
+    return null;
+  }
+
+  const field = config.field || 'all';
+  if (!['source', 'section', 'content', 'all'].includes(field)) {
+    console.warn(`Skipping ranking rule "${config.id}": unknown field "${field}"`);
+    return null;
+  }
+
+  const multiplier = config.multiplier ?? 1;
+  if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 0) {
+    console.warn(`Skipping ranking rule "${config.id}": multiplier must be a non-negative number`);
+    return null;
+  }
+
+  try {
+    const flags = typeof config.flags === 'string' ? config.flags : 'i';
+    const unlessQueryMatches = typeof config.exclude === 'object' ? config.exclude?.unlessQueryMatches : undefined;
+
+    return {
+      id: config.id,
+      description: config.description,
+      pattern: compilePattern(config.pattern, flags),
+      field,
+      multiplier,
+      whenRules: Array.isArray(config.whenRules) ? config.whenRules : [],
+      unlessRules: Array.isArray(config.unlessRules) ? config.unlessRules : [],
+      exclude: !!config.exclude,
+      excludeUnlessQuery: unlessQueryMatches ? compilePattern(unlessQueryMatches, flags) : null
+    };
+  } catch (error) {
+    console.warn(`Skipping ranking rule "${config.id}": invalid pattern`, error);
+    return null;
+  }
+}
+
+/**
+ * Load the ranking rules file, reloading it when it changes so rules can be edited without a restart.
+ * A missing or invalid file means no rules, so results keep their retrieval order.
+ */
+export function loadRankingRules(filePath: string): RankingRule[] {
+  const resolvedPath = path.resolve(filePath);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolvedPath).mtimeMs;
+  } catch {
+    return [];
+  }
+
+  const cached = cachedRules.get(resolvedPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.rules;
+  }
+
+  let rules: RankingRule[] = [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    const configs: RankingRuleConfig[] = Array.isArray(parsed?.rules) ? parsed.rules : [];
+    rules = configs
+      .map((config, index) => compileRule(config, index))
+      .filter((rule): rule is RankingRule => rule !== null);
+  } catch (error) {
+    console.error(`Failed to load ranking rules from ${resolvedPath}:`, error);
+  }
+
+  cachedRules.set(resolvedPath, { mtimeMs, rules });
+  return rules;
+}
+
+function getFieldText(result: SearchResult, field: RankingRuleField): string {
+  switch (field) {
+    case 'source':
+      return result.source;
+    case 'section':
+      return result.section || '';
+    case 'content':
+      return result.content;
+    default:
+      return `${result.source}\n${result.section || ''}\n${result.content}`;
+  }
+}
+
+/**
+ * Apply the ranking rules to search results and sort them by adjusted score.
+ * `whenRules` and `unlessRules` refer to whether the other rules' patterns match the chunk.
+ * @param query - The user's question, checked against `exclude.unlessQueryMatches`
+ */
+export function rankSearchResults(
+  results: SearchResult[],
+  query: string,
+  rules: RankingRule[]
+): RankedSearchResult[] {
+  return results
+    .map((result) => {
+      const matchedRuleIds = new Set(
+        rules.filter((rule) => rule.pattern.test(getFieldText(result, rule.field))).map((rule) => rule.id)
+      );
+      const appliedRules: AppliedRankingRule[] = [];
+      let adjustedScore = result.score;
+      let excludedBy: string | undefined;
+
+      rules.forEach((rule) => {
+        const applies =
+          matchedRuleIds.has(rule.id) &&
+          rule.whenRules.every((id) => matchedRuleIds.has(id)) &&
+          !rule.unlessRules.some((id) => matchedRuleIds.has(id));
+
+        if (!applies) {
+          return;
+        }
+
+        const excluded = rule.exclude && !rule.excludeUnlessQuery?.test(query);
+        adjustedScore *= rule.multiplier;
+        excludedBy = excludedBy || (excluded ? rule.id : undefined);
+        appliedRules.push({ id: rule.id, multiplier: rule.multiplier, excluded });
+      });
+
+      return { ...result, adjustedScore, appliedRules, excludedBy };
+    })
+    .sort((a, b) => b.adjustedScore - a.adjustedScore);
+}
+
+/**
+ * The rules' descriptions as one line for the system prompt, so answers follow the same source
+ * preferences as the ranking. Empty when no rule has a description.
+ */
+export function describeRankingRules(rules: RankingRule[]): string {
+  return rules
+    .map((rule) => rule.description?.trim().replace(/\.$/, ''))
+    .filter(Boolean)
+    .join('; ');
+}
+
+export function buildRankingReport(
+  ranked: RankedSearchResult[],
+  selected: RankedSearchResult[],
+  minScore: number,
+  rulesPath: string
+): RankingReport {
+  const rules = loadRankingRules(rulesPath);
+
+  return {
+    rulesPath,
+    rules: rules.map(({ id, description }) => ({ id, description })),
+    results: ranked.map((result) => {
+      let status: RankingStatus = 'not_selected';
+      if (result.excludedBy) {
+        status = 'excluded';
+      } else if (result.adjustedScore <= minScore) {
+        status = 'below_threshold';
+      } else if (selected.includes(result)) {
+        status = 'selected';
+      }
+
+      return {
+        source: result.source,
+        section: result.section || undefined,
+        chunkIndex: result.chunkIndex,
+        score: Math.round(result.score * 1000) / 1000,
+        adjustedScore: Math.round(result.adjustedScore * 1000) / 1000,
+        appliedRules: result.appliedRules,
+        status
+      };
+    })
+  };
+}
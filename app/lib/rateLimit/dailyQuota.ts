@@ -0,0 +1,62 @@
+import type { DailyQuotaOptions, DailyQuotaTracker, DailyQuotaUsage } from './types';
+
+function getUtcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function getSecondsUntilUtcMidnight(now: Date): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+/**
+ * In-memory daily token and cost totals per client. Totals reset at UTC midnight and apply per
+ * server process. A request is refused once a total has reached its limit, so the answer that
+ * crosses a limit is still returned.
+ */
+export function createDailyQuotaTracker(options: DailyQuotaOptions): DailyQuotaTracker {
+  const usageByClient = new Map<string, DailyQuotaUsage>();
+  let currentDay = getUtcDay(new Date());
+
+  function getUsage(clientKey: string, now: Date): DailyQuotaUsage {
+    const day = getUtcDay(now);
+    if (day !== currentDay) {
+      // Yesterday's totals are no longer needed.
+      usageByClient.clear();
+      currentDay = day;
+    }
+
+    return usageByClient.get(clientKey) || { day, requests: 0, tokens: 0, costUsd: 0 };
+  }
+
+  return {
+    check(clientKey) {
+      const now = new Date();
+      const usage = getUsage(clientKey, now);
+      const exceeded =
+        options.maxTokens > 0 && usage.tokens >= options.maxTokens
+          ? 'tokens'
+          : options.maxCostUsd > 0 && usage.costUsd >= options.maxCostUsd
+            ? 'cost'
+            : undefined;
+
+      return {
+        allowed: !exceeded,
+        exceeded,
+        usage: { ...usage },
+        limits: { ...options },
+        retryAfterSeconds: exceeded ? getSecondsUntilUtcMidnight(now) : 0
+      };
+    },
+
+    record(clientKey, { totalTokens, costUsd }) {
+      const usage = getUsage(clientKey, new Date());
+      usageByClient.set(clientKey, {
+        day: usage.day,
+        requests: usage.requests + 1,
+        tokens: usage.tokens + totalTokens,
+        costUsd: usage.costUsd + costUsd
+      });
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import type { AuthIdentity } from '../auth/types';
+import { createDailyQuotaTracker } from './dailyQuota';
+import { createTokenBucketRateLimiter } from './tokenBucket';
+import type {
+  DailyQuotaTracker,
+  QuotaDecision,
+  RateLimitClient,
+  RateLimitDecision,
+  RateLimiter,
+  TokenBucketOptions
+} from './types';
+
+function parseNonNegativeNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Requests per minute and burst size per client IP; RATE_LIMIT_REQUESTS_PER_MINUTE=0 turns rate limiting off
+const IP_LIMITS: TokenBucketOptions = {
+  refillPerMinute: parseNonNegativeNumber(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE, 10),
+  capacity: Math.max(1, parseNonNegativeNumber(process.env.RATE_LIMIT_BURST, 5))
+};
+// Known API keys (comma-separated) are limited per key instead of per IP, optionally with their own limits
+const API_KEYS = (process.env.RATE_LIMIT_API_KEYS || '')
+  .split(',')
+  .map((key) => key.trim())
+  .filter(Boolean);
+const API_KEY_LIMITS: TokenBucketOptions = {
+  refillPerMinute: parseNonNegativeNumber(process.env.RATE_LIMIT_API_KEY_REQUESTS_PER_MINUTE, IP_LIMITS.refillPerMinute),
+  capacity: Math.max(1, parseNonNegativeNumber(process.env.RATE_LIMIT_API_KEY_BURST, IP_LIMITS.capacity))
+};
+// Proxies in front of the app that append to X-Forwarded-For; the client IP is the entry they received
+const TRUSTED_PROXY_HOPS = Math.max(1, Math.floor(parseNonNegativeNumber(process.env.RATE_LIMIT_TRUSTED_PROXIES, 1)));
+// Daily model usage per client; 0 means unlimited
+const QUOTA_DAILY_TOKENS = parseNonNegativeNumber(process.env.QUOTA_DAILY_TOKENS, 0);
+const QUOTA_DAILY_COST_USD = parseNonNegativeNumber(process.env.QUOTA_DAILY_COST_USD, 0);
+
+let ipRateLimiter: RateLimiter | undefined;
+let apiKeyRateLimiter: RateLimiter | undefined;
+let dailyQuotaTracker: DailyQuotaTracker | undefined;
+
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+function readApiKey(headers: Headers): string {
+  const authorization = headers.get('authorization') || '';
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+  return (bearer ? bearer[1] : headers.get('x-api-key') || '').trim();
+}
+
+function readClientIp(headers: Headers): string {
+  const forwardedFor = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwardedFor.length > 0) {
+    // Entries before the ones added by trusted proxies can be set by the client.
+    return forwardedFor[Math.max(0, forwardedFor.length - TRUSTED_PROXY_HOPS)];
+  }
+
+  return (headers.get('x-real-ip') || '').trim() || 'unknown';
+}
+
+/**
+ * Who a request counts against. Authenticated requests count against their identity; API keys
+ * sign in with get the API key limits. Otherwise keys that are not in RATE_LIMIT_API_KEYS are
+ * ignored, so made-up keys cannot be used to get a fresh bucket.
+ */
+export function getRateLimitClient(headers: Headers, identity?: AuthIdentity | null): RateLimitClient {
+  if (identity) {
+    return identity.method === 'api_key'
+      ? { key: `api_key:${identity.id}`, type: 'api_key' }
+      : { key: `user:${identity.id}`, type: 'user' };
+  }
+
+  const apiKey = readApiKey(headers);
+  if (apiKey && API_KEYS.includes(apiKey)) {
+    return { key: `api_key:${hashApiKey(apiKey)}`, type: 'api_key' };
+  }
+
+  return { key: `ip:${readClientIp(headers)}`, type: 'ip' };
+}
+
+/**
+ * Take one request from the client's bucket. Returns null when rate limiting is off.
+ */
+export function checkRateLimit(client: RateLimitClient): RateLimitDecision | null {
+  const limits = client.type === 'api_key' ? API_KEY_LIMITS : IP_LIMITS;
+  if (limits.refillPerMinute <= 0) {
+    return null;
+  }
+
+  if (client.type === 'api_key') {
+    apiKeyRateLimiter = apiKeyRateLimiter || createTokenBucketRateLimiter(API_KEY_LIMITS);
+    return apiKeyRateLimiter.take(client.key);
+  }
+
+  ipRateLimiter = ipRateLimiter || createTokenBucketRateLimiter(IP_LIMITS);
+  return ipRateLimiter.take(client.key);
+}
+
+function getDailyQuotaTracker(): DailyQuotaTracker | null {
+  if (QUOTA_DAILY_TOKENS <= 0 && QUOTA_DAILY_COST_USD <= 0) {
+    return null;
+  }
+
+  dailyQuotaTracker =
+    dailyQuotaTracker || createDailyQuotaTracker({ maxTokens: QUOTA_DAILY_TOKENS, maxCostUsd: QUOTA_DAILY_COST_USD });
+  return dailyQuotaTracker;
+}
+
+/**
+ * Whether the client has quota left today. Returns null when no quota is configured.
+ */
+export function checkDailyQuota(client: RateLimitClient): QuotaDecision | null {
+  return getDailyQuotaTracker()?.check(client.key) || null;
+}
+
+/**
+ * Count the model usage of a completed request against the client's daily quota
+ */
+export function recordDailyUsage(client: RateLimitClient, usage: { totalTokens: number; costUsd: number }) {
+  getDailyQuotaTracker()?.record(client.key, usage);
+}
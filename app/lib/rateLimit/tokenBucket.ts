@@ -0,0 +1,67 @@
+import type { RateLimiter, TokenBucketOptions } from './types';
+
+// Full buckets carry no state, so they are dropped once this many clients are tracked.
+const PRUNE_THRESHOLD = 10000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory token bucket per client. Each request takes one token; tokens refill continuously at
+ * `refillPerMinute` up to `capacity`. Limits apply per server process.
+ */
+export function createTokenBucketRateLimiter(options: TokenBucketOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.refillPerMinute / 60000;
+
+  function refill(bucket: Bucket, now: number) {
+    bucket.tokens = Math.min(options.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  }
+
+  function pruneFullBuckets(now: number) {
+    const fullKeys: string[] = [];
+    buckets.forEach((bucket, key) => {
+      refill(bucket, now);
+      if (bucket.tokens >= options.capacity) {
+        fullKeys.push(key);
+      }
+    });
+    fullKeys.forEach((key) => buckets.delete(key));
+  }
+
+  return {
+    take(clientKey) {
+      const now = Date.now();
+      let bucket = buckets.get(clientKey);
+      if (!bucket) {
+        if (buckets.size >= PRUNE_THRESHOLD) {
+          pruneFullBuckets(now);
+        }
+        bucket = { tokens: options.capacity, updatedAt: now };
+        buckets.set(clientKey, bucket);
+      } else {
+        refill(bucket, now);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return {
+          allowed: true,
+          limit: options.capacity,
+          remaining: Math.floor(bucket.tokens),
+          retryAfterSeconds: 0
+        };
+      }
+
+      return {
+        allowed: false,
+        limit: options.capacity,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000))
+      };
+    }
+  };
+}
@@ -0,0 +1,46 @@
+export interface TokenBucketOptions {
+  capacity: number; // Requests that can be made in a burst
+  refillPerMinute: number; // Sustained requests per minute
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(clientKey: string): RateLimitDecision;
+}
+
+export interface DailyQuotaOptions {
+  maxTokens: number; // 0 means unlimited
+  maxCostUsd: number; // 0 means unlimited
+}
+
+export interface DailyQuotaUsage {
+  day: string; // UTC date, YYYY-MM-DD
+  requests: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  exceeded?: 'tokens' | 'cost';
+  usage: DailyQuotaUsage;
+  limits: DailyQuotaOptions;
+  retryAfterSeconds: number; // Seconds until the quota resets at UTC midnight, 0 when allowed
+}
+
+export interface DailyQuotaTracker {
+  check(clientKey: string): QuotaDecision;
+  record(clientKey: string, usage: { totalTokens: number; costUsd: number }): void;
+}
+
+// Who a request is counted against: the signed-in user or API key, a known rate-limit key, otherwise the client IP
+export interface RateLimitClient {
+  key: string;
+  type: 'user' | 'api_key' | 'ip';
+}
@@ -0,0 +1,93 @@
+import type { Parent, PhrasingContent, Root, RootContent, Text } from 'mdast';
+import { CITATION_MARKER_PATTERN, getCitationAnchorId } from './citations';
+
+export interface RemarkCitationsOptions {
+  messageId: string;
+  citationIds: number[]; // Only markers for these sources become links
+}
+
+// Link text cannot hold another link; code never reaches here because it has no text children.
+const SKIPPED_PARENT_TYPES = new Set(['link', 'linkReference']);
+
+function createCitationNode(messageId: string, citationId: number): Text {
+  return {
+    type: 'text',
+    value: String(citationId),
+    // Rendered as <sup class="citation-ref"><a href="#footnote">n</a></sup> by remark-rehype
+    data: {
+      hName: 'sup',
+      hProperties: { className: ['citation-ref'] },
+      hChildren: [
+        {
+          type: 'element',
+          tagName: 'a',
+          properties: { href: `#${getCitationAnchorId(messageId, citationId)}`, dataCitationId: citationId },
+          children: [{ type: 'text', value: String(citationId) }]
+        }
+      ]
+    } as Text['data']
+  };
+}
+
+function splitCitationMarkers(node: Text, messageId: string, knownIds: Set<number>): PhrasingContent[] {
+  const parts: PhrasingContent[] = [];
+  let lastIndex = 0;
+
+  node.value.replace(CITATION_MARKER_PATTERN, (match: string, idList: string, offset: number) => {
+    const citationIds = idList
+      .split(',')
+      .map((idText) => Number.parseInt(idText.trim(), 10))
+      .filter((citationId) => knownIds.has(citationId));
+
+    if (citationIds.length > 0) {
+      if (offset > lastIndex) {
+        parts.push({ type: 'text', value: node.value.slice(lastIndex, offset) });
+      }
+      citationIds.forEach((citationId) => parts.push(createCitationNode(messageId, citationId)));
+      lastIndex = offset + match.length;
+    }
+
+    return match;
+  });
+
+  if (parts.length === 0) {
+    return [node];
+  }
+
+  if (lastIndex < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(lastIndex) });
+  }
+
+  return parts;
+}
+
+function replaceCitationMarkers(parent: Parent, messageId: string, knownIds: Set<number>) {
+  const children: RootContent[] = [];
+
+  parent.children.forEach((child) => {
+    if (child.type === 'text') {
+      children.push(...splitCitationMarkers(child, messageId, knownIds));
+      return;
+    }
+
+    if ('children' in child && !SKIPPED_PARENT_TYPES.has(child.type)) {
+      replaceCitationMarkers(child, messageId, knownIds);
+    }
+    children.push(child);
+  });
+
+  parent.children = children;
+}
+
+/**
+ * Remark plugin that turns [1] style source markers into links to the message's citation footnotes
+ */
+export default function remarkCitations(options: RemarkCitationsOptions) {
+  const knownIds = new Set(options.citationIds);
+
+  return (tree: Root) => {
+    if (knownIds.size > 0) {
+      replaceCitationMarkers(tree, options.messageId, knownIds);
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import type { Code, Parent, Root, RootContent } from 'mdast';
+import { normalizeCodeLanguage } from './codeLanguages';
+
+export const CODE_TABS_CLASS_NAME = 'code-tabs';
+
+function isTabbableCode(node: RootContent): node is Code {
+  return node.type === 'code' && !!normalizeCodeLanguage(node.lang || '');
+}
+
+// Rendered as <div class="code-tabs"> around the original code blocks by remark-rehype
+function createCodeTabsNode(codes: Code[]): RootContent {
+  return {
+    type: 'codeTabs',
+    children: codes,
+    data: {
+      hName: 'div',
+      hProperties: { className: [CODE_TABS_CLASS_NAME] }
+    }
+  } as unknown as RootContent;
+}
+
+function groupCodeSamples(parent: Parent) {
+  const children: RootContent[] = [];
+  let run: Code[] = [];
+
+  const flushRun = () => {
+    const languages = run.map((code) => normalizeCodeLanguage(code.lang || ''));
+    const hasDistinctLanguages = languages.every((language, index) => languages.indexOf(language) === index);
+
+    if (run.length > 1 && hasDistinctLanguages) {
+      children.push(createCodeTabsNode(run));
+    } else {
+      children.push(...run);
+    }
+    run = [];
+  };
+
+  parent.children.forEach((child) => {
+    if (isTabbableCode(child)) {
+      run.push(child);
+      return;
+    }
+
+    flushRun();
+    if ('children' in child) {
+      groupCodeSamples(child);
+    }
+    children.push(child);
+  });
+  flushRun();
+
+  parent.children = children;
+}
+
+/**
+ * Remark plugin that groups back-to-back code blocks in different languages (the same sample in
+ * curl, PHP, Java...) so they can be shown as language tabs
+ */
+export default function remarkCodeTabs() {
+  return (tree: Root) => {
+    groupCodeSamples(tree);
+  };
+}
@@ -0,0 +1,205 @@
+import type { HttpHeader, HttpRequestDraft } from './types';
+
+const DATA_OPTIONS = new Set(['-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--data-urlencode']);
+// Options whose argument does not change the request the builder sends
+const IGNORED_OPTIONS_WITH_VALUE = new Set([
+  '-o', '--output', '-w', '--write-out', '-m', '--max-time', '--connect-timeout',
+  '--cacert', '--cert', '--key', '-E', '-x', '--proxy', '--retry'
+]);
+
+const SHELL_OPERATORS = new Set(['|', '||', '&&', ';', '>', '>>']);
+
+/**
+ * Split a shell command into words the way a POSIX shell would for quoting and escapes.
+ * Line continuations and plain newlines are treated as spaces. Returns null for unbalanced quotes.
+ */
+function tokenizeShellCommand(command: string): string[] | null {
+  const tokens: string[] = [];
+  let current = '';
+  let hasToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && /["\\$`\n]/.test(command[index + 1] || '')) {
+        index += 1;
+        current += command[index] === '\n' ? '' : command[index];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      hasToken = true;
+    } else if (char === '\\') {
+      index += 1;
+      const escaped = command[index] || '';
+      if (escaped !== '\n' && escaped !== '\r') {
+        current += escaped;
+        hasToken = true;
+      }
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+      }
+      current = '';
+      hasToken = false;
+    } else if (char === '#' && !hasToken) {
+      // Comment until the end of the line
+      const lineEnd = command.indexOf('\n', index);
+      index = lineEnd === -1 ? command.length : lineEnd;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    return null;
+  }
+
+  if (hasToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+function parseHeader(value: string): HttpHeader | null {
+  const separatorIndex = value.indexOf(':');
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  return { name: value.slice(0, separatorIndex).trim(), value: value.slice(separatorIndex + 1).trim() };
+}
+
+function hasHeader(headers: HttpHeader[], name: string): boolean {
+  return headers.some((header) => header.name.toLowerCase() === name.toLowerCase());
+}
+
+// JSON bodies are pretty-printed so they are easier to edit
+function formatBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Parse a curl command into an editable request. Resolves to null when the text is not a
+ * single curl command with an http(s) URL.
+ */
+export function parseCurlCommand(command: string): HttpRequestDraft | null {
+  const tokens = tokenizeShellCommand(command.trim());
+  if (!tokens) {
+    return null;
+  }
+
+  // Shell prompts in copied examples
+  if (tokens[0] === '$' || tokens[0] === '>') {
+    tokens.shift();
+  }
+
+  if (tokens[0] !== 'curl') {
+    return null;
+  }
+
+  let method = '';
+  let url = '';
+  let useGet = false;
+  const headers: HttpHeader[] = [];
+  const dataParts: string[] = [];
+
+  for (let index = 1; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    const nextValue = () => {
+      index += 1;
+      return tokens[index];
+    };
+
+    if (SHELL_OPERATORS.has(token)) {
+      // Piping the response into jq and similar: the request ends here
+      break;
+    }
+
+    if (token === '-X' || token === '--request') {
+      method = (nextValue() || '').toUpperCase();
+    } else if (token.startsWith('-X') && token.length > 2) {
+      method = token.slice(2).toUpperCase();
+    } else if (token === '-H' || token === '--header') {
+      const header = parseHeader(nextValue() || '');
+      if (header) {
+        headers.push(header);
+      }
+    } else if (DATA_OPTIONS.has(token)) {
+      dataParts.push(nextValue() || '');
+    } else if (token === '--json') {
+      dataParts.push(nextValue() || '');
+      if (!hasHeader(headers, 'Content-Type')) {
+        headers.push({ name: 'Content-Type', value: 'application/json' });
+      }
+      if (!hasHeader(headers, 'Accept')) {
+        headers.push({ name: 'Accept', value: 'application/json' });
+      }
+    } else if (token === '-u' || token === '--user') {
+      headers.push({ name: 'Authorization', value: `Basic ${btoa(nextValue() || '')}` });
+    } else if (token === '-A' || token === '--user-agent') {
+      headers.push({ name: 'User-Agent', value: nextValue() || '' });
+    } else if (token === '-b' || token === '--cookie') {
+      headers.push({ name: 'Cookie', value: nextValue() || '' });
+    } else if (token === '-G' || token === '--get') {
+      useGet = true;
+    } else if (token === '--url') {
+      url = nextValue() || '';
+    } else if (IGNORED_OPTIONS_WITH_VALUE.has(token)) {
+      nextValue();
+    } else if (token.startsWith('-')) {
+      // Flags such as -s, -i, -L and --compressed
+      continue;
+    } else if (!url) {
+      url = token;
+    } else {
+      // A second URL: not a single request
+      return null;
+    }
+  }
+
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  const data = dataParts.join('&');
+  if (useGet && data) {
+    url = `${url}${url.includes('?') ? '&' : '?'}${data}`;
+  }
+
+  const body = useGet ? '' : data;
+  return {
+    method: method || (useGet || !body ? 'GET' : 'POST'),
+    url,
+    headers,
+    body: formatBody(body)
+  };
+}
@@ -0,0 +1,129 @@
+import type { HttpHeader, HttpRequestDraft, SandboxResponse } from './types';
+
+// Origins the request builder may send to, comma separated (for example a local mock such as
+// "http://localhost:4030"). Set it to an empty value to turn sending off.
+const REQUEST_BUILDER_SANDBOX_ORIGINS = process.env.REQUEST_BUILDER_SANDBOX_ORIGINS ?? 'https://apis.sandbox.globalpay.com';
+const REQUEST_BUILDER_TIMEOUT_MS = Number.parseInt(process.env.REQUEST_BUILDER_TIMEOUT_MS || '15000', 10) || 15000;
+const MAX_RESPONSE_BYTES = 256 * 1024;
+
+// Never forwarded: the user's own session with this app and hop-by-hop headers
+const BLOCKED_REQUEST_HEADERS = new Set([
+  'host', 'cookie', 'connection', 'content-length', 'transfer-encoding', 'keep-alive',
+  'upgrade', 'te', 'trailer', 'expect', 'proxy-authorization', 'proxy-connection'
+]);
+const BLOCKED_RESPONSE_HEADERS = new Set(['set-cookie', 'set-cookie2', 'connection', 'keep-alive', 'transfer-encoding']);
+
+function parseOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+const SANDBOX_ORIGINS = REQUEST_BUILDER_SANDBOX_ORIGINS.split(',')
+  .map((value) => value.trim())
+  .filter(Boolean)
+  .map((value) => {
+    const origin = parseOrigin(value);
+    if (!origin) {
+      console.warn(`Ignoring invalid REQUEST_BUILDER_SANDBOX_ORIGINS entry "${value}"`);
+    }
+    return origin;
+  })
+  .filter((origin): origin is string => !!origin);
+
+/**
+ * Origins the proxy sends to, in configuration order. The first one is offered as the sandbox base URL.
+ */
+export function getSandboxOrigins(): string[] {
+  return SANDBOX_ORIGINS;
+}
+
+export function isSandboxUrl(url: string): boolean {
+  const origin = parseOrigin(url);
+  return !!origin && SANDBOX_ORIGINS.includes(origin);
+}
+
+// Read at most maxBytes of the body so a large download cannot exhaust the server
+async function readLimitedText(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) {
+    return { text: '', truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done || !value) {
+      break;
+    }
+
+    if (received + value.length > maxBytes) {
+      chunks.push(value.slice(0, maxBytes - received));
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    received += value.length;
+  }
+
+  return { text: Buffer.concat(chunks).toString('utf8'), truncated };
+}
+
+/**
+ * Send a request to an allow-listed sandbox origin. Callers check isSandboxUrl first.
+ * Redirects are returned as-is so they cannot lead the proxy to another host.
+ * Network failures throw with code "upstream_timeout" or "upstream_error".
+ */
+export async function sendSandboxRequest(request: HttpRequestDraft): Promise<SandboxResponse> {
+  const headers = new Headers();
+  request.headers
+    .filter((header) => !BLOCKED_REQUEST_HEADERS.has(header.name.toLowerCase()))
+    .forEach((header) => headers.append(header.name, header.value));
+
+  const startedAt = Date.now();
+  let response: Response;
+  let responseBody: { text: string; truncated: boolean };
+  try {
+    response = await fetch(request.url, {
+      method: request.method,
+      headers,
+      body: request.body || undefined,
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_BUILDER_TIMEOUT_MS)
+    });
+    responseBody = await readLimitedText(response, MAX_RESPONSE_BYTES);
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw Object.assign(new Error(`The sandbox did not respond within ${REQUEST_BUILDER_TIMEOUT_MS / 1000}s`), {
+        code: 'upstream_timeout'
+      });
+    }
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+    throw Object.assign(new Error(`Could not reach the sandbox${cause ? `: ${cause}` : ''}`), { code: 'upstream_error' });
+  }
+
+  const responseHeaders: HttpHeader[] = [];
+  response.headers.forEach((value, name) => {
+    if (!BLOCKED_RESPONSE_HEADERS.has(name)) {
+      responseHeaders.push({ name, value });
+    }
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+    body: responseBody.text,
+    truncated: responseBody.truncated,
+    durationMs: Date.now() - startedAt
+  };
+}
@@ -0,0 +1,166 @@
+import type { HttpRequestDraft, SnippetLanguage } from './types';
+
+export const SNIPPET_LANGUAGES: SnippetLanguage[] = ['curl', 'javascript', 'python', 'php', 'java'];
+
+// Set by the HTTP client itself; Java refuses them outright
+const CLIENT_MANAGED_HEADERS = new Set(['host', 'content-length', 'connection']);
+
+// Double-quoted literal; JSON escapes are also valid in JavaScript, Python and Java strings
+const quoteDouble = (value: string) => JSON.stringify(value);
+const quoteShell = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+const quotePhp = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+function isJson(value: string): boolean {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Indent every line after the first, for values placed inside a nested block
+const indentFollowingLines = (value: string, indent: string) => value.split('\n').join(`\n${indent}`);
+
+function getSendableHeaders(request: HttpRequestDraft) {
+  return request.headers.filter(
+    (header) => header.name.trim() && !CLIENT_MANAGED_HEADERS.has(header.name.trim().toLowerCase())
+  );
+}
+
+function buildCurlSnippet(request: HttpRequestDraft): string {
+  const lines = [`curl -X ${request.method} ${quoteShell(request.url)}`];
+  request.headers
+    .filter((header) => header.name.trim())
+    .forEach((header) => lines.push(`  -H ${quoteShell(`${header.name}: ${header.value}`)}`));
+  if (request.body) {
+    lines.push(`  -d ${quoteShell(request.body)}`);
+  }
+  return lines.join(' \\\n');
+}
+
+function buildNodeSnippet(request: HttpRequestDraft): string {
+  const options = [`  method: ${quoteDouble(request.method)},`];
+  const headers = getSendableHeaders(request);
+  if (headers.length > 0) {
+    options.push('  headers: {');
+    headers.forEach((header) => options.push(`    ${quoteDouble(header.name)}: ${quoteDouble(header.value)},`));
+    options.push('  },');
+  }
+  if (request.body) {
+    // JSON text is also a JavaScript object literal, which reads better than an escaped string
+    options.push(
+      isJson(request.body)
+        ? `  body: JSON.stringify(${indentFollowingLines(request.body, '  ')}),`
+        : `  body: ${quoteDouble(request.body)},`
+    );
+  }
+
+  return [
+    '// Node.js 18+ (built-in fetch)',
+    `const response = await fetch(${quoteDouble(request.url)}, {`,
+    ...options,
+    '});',
+    '',
+    'console.log(response.status, await response.text());'
+  ].join('\n');
+}
+
+function buildPythonSnippet(request: HttpRequestDraft): string {
+  const args = [`    ${quoteDouble(request.method)},`, `    ${quoteDouble(request.url)},`];
+  const headers = getSendableHeaders(request);
+  if (headers.length > 0) {
+    args.push('    headers={');
+    headers.forEach((header) => args.push(`        ${quoteDouble(header.name)}: ${quoteDouble(header.value)},`));
+    args.push('    },');
+  }
+  if (request.body) {
+    const canUseTripleQuotes = !request.body.includes('"""') && !request.body.includes('\\') && !request.body.endsWith('"');
+    args.push(`    data=${canUseTripleQuotes ? `"""${request.body}"""` : quoteDouble(request.body)},`);
+  }
+
+  return [
+    'import requests',
+    '',
+    'response = requests.request(',
+    ...args,
+    ')',
+    '',
+    'print(response.status_code, response.text)'
+  ].join('\n');
+}
+
+function buildPhpSnippet(request: HttpRequestDraft): string {
+  const options = [
+    `    CURLOPT_CUSTOMREQUEST => ${quotePhp(request.method)},`,
+    '    CURLOPT_RETURNTRANSFER => true,'
+  ];
+  const headers = getSendableHeaders(request);
+  if (headers.length > 0) {
+    options.push('    CURLOPT_HTTPHEADER => [');
+    headers.forEach((header) => options.push(`        ${quotePhp(`${header.name}: ${header.value}`)},`));
+    options.push('    ],');
+  }
+  if (request.body) {
+    options.push(`    CURLOPT_POSTFIELDS => ${quotePhp(request.body)},`);
+  }
+
+  return [
+    '<?php',
+    '',
+    `$ch = curl_init(${quotePhp(request.url)});`,
+    'curl_setopt_array($ch, [',
+    ...options,
+    ']);',
+    '',
+    '$response = curl_exec($ch);',
+    'echo curl_getinfo($ch, CURLINFO_HTTP_CODE), "\\n", $response;',
+    'curl_close($ch);'
+  ].join('\n');
+}
+
+function buildJavaSnippet(request: HttpRequestDraft): string {
+  const builder = [`    .uri(URI.create(${quoteDouble(request.url)}))`];
+  getSendableHeaders(request).forEach((header) =>
+    builder.push(`    .header(${quoteDouble(header.name)}, ${quoteDouble(header.value)})`)
+  );
+  const bodyPublisher = request.body
+    ? `HttpRequest.BodyPublishers.ofString(${quoteDouble(request.body)})`
+    : 'HttpRequest.BodyPublishers.noBody()';
+  builder.push(`    .method(${quoteDouble(request.method)}, ${bodyPublisher})`);
+
+  return [
+    '// Java 11+ (java.net.http)',
+    'import java.net.URI;',
+    'import java.net.http.HttpClient;',
+    'import java.net.http.HttpRequest;',
+    'import java.net.http.HttpResponse;',
+    '',
+    'HttpRequest request = HttpRequest.newBuilder()',
+    ...builder,
+    '    .build();',
+    '',
+    'HttpResponse<String> response = HttpClient.newHttpClient()',
+    '    .send(request, HttpResponse.BodyHandlers.ofString());',
+    'System.out.println(response.statusCode() + " " + response.body());'
+  ].join('\n');
+}
+
+/**
+ * Equivalent code for a request in one of the snippet languages
+ */
+export function generateSnippet(request: HttpRequestDraft, language: SnippetLanguage): string {
+  switch (language) {
+    case 'javascript':
+      return buildNodeSnippet(request);
+    case 'python':
+      return buildPythonSnippet(request);
+    case 'php':
+      return buildPhpSnippet(request);
+    case 'java':
+      return buildJavaSnippet(request);
+    case 'curl':
+    default:
+      return buildCurlSnippet(request);
+  }
+}
@@ -0,0 +1,28 @@
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
+// An HTTP request as edited in the request builder
+export interface HttpRequestDraft {
+  method: string;
+  url: string;
+  headers: HttpHeader[];
+  body: string; // Empty when the request has no body
+}
+
+// Fence languages of the generated snippets, so they share the code tab preference
+export type SnippetLanguage = 'curl' | 'javascript' | 'python' | 'php' | 'java';
+
+export interface SandboxResponse {
+  status: number;
+  statusText: string;
+  headers: HttpHeader[];
+  body: string;
+  truncated: boolean; // The body was cut off at the proxy's size limit
+  durationMs: number;
+}
+
+export interface RequestBuilderConfig {
+  sandboxOrigins: string[]; // Origins the proxy sends to; empty when sending is turned off
+}
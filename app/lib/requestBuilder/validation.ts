@@ -0,0 +1,85 @@
+import type { HttpHeader, HttpRequestDraft } from './types';
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const MAX_URL_LENGTH = 2048;
+const MAX_HEADERS = 50;
+const MAX_HEADER_VALUE_LENGTH = 8192;
+const MAX_BODY_LENGTH = 100 * 1024;
+// RFC 7230 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]{1,100}$/;
+
+function normalizeHeaders(value: unknown): HttpHeader[] | null {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.length > MAX_HEADERS) {
+    return null;
+  }
+
+  const headers: HttpHeader[] = [];
+  for (const header of value) {
+    if (!header || typeof header.name !== 'string' || typeof header.value !== 'string') {
+      return null;
+    }
+
+    const name = header.name.trim();
+    // Rows left empty in the form are skipped
+    if (!name) {
+      continue;
+    }
+
+    if (!HEADER_NAME_PATTERN.test(name) || /[\r\n]/.test(header.value) || header.value.length > MAX_HEADER_VALUE_LENGTH) {
+      return null;
+    }
+
+    headers.push({ name, value: header.value.trim() });
+  }
+
+  return headers;
+}
+
+/**
+ * Validate a request builder send request. Returns an error message for invalid input.
+ */
+export function normalizeSandboxRequest(body: any): { request: HttpRequestDraft } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request format' };
+  }
+
+  const method = typeof body.method === 'string' ? body.method.trim().toUpperCase() : '';
+  if (!HTTP_METHODS.includes(method)) {
+    return { error: `Method must be one of ${HTTP_METHODS.join(', ')}` };
+  }
+
+  const url = typeof body.url === 'string' ? body.url.trim() : '';
+  if (!url || url.length > MAX_URL_LENGTH) {
+    return { error: 'Invalid URL' };
+  }
+
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      return { error: 'URL must use http or https' };
+    }
+  } catch {
+    return { error: 'Invalid URL' };
+  }
+
+  const headers = normalizeHeaders(body.headers);
+  if (!headers) {
+    return { error: 'Invalid headers' };
+  }
+
+  const requestBody = body.body === undefined ? '' : body.body;
+  if (typeof requestBody !== 'string' || requestBody.length > MAX_BODY_LENGTH) {
+    return { error: `Body must be a string of at most ${MAX_BODY_LENGTH} characters` };
+  }
+
+  if (requestBody && (method === 'GET' || method === 'HEAD')) {
+    return { error: `${method} requests cannot have a body` };
+  }
+
+  return { request: { method, url, headers, body: requestBody } };
+}
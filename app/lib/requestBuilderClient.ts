@@ -0,0 +1,42 @@
+import type { HttpRequestDraft, RequestBuilderConfig, SandboxResponse } from './requestBuilder/types';
+
+let configRequest: Promise<RequestBuilderConfig | null> | null = null;
+
+/**
+ * Sandbox origins the server will proxy to, loaded once per page. Resolves to null when they cannot be loaded.
+ */
+export function fetchRequestBuilderConfig(): Promise<RequestBuilderConfig | null> {
+  if (!configRequest) {
+    configRequest = fetch('/api/request-builder', { cache: 'no-store' })
+      .then(async (response) => {
+        if (!response.ok) {
+          return null;
+        }
+
+        const body = await response.json();
+        return Array.isArray(body?.sandboxOrigins) ? { sandboxOrigins: body.sandboxOrigins } : null;
+      })
+      .catch((error) => {
+        console.error('Unable to load request builder settings:', error);
+        configRequest = null;
+        return null;
+      });
+  }
+
+  return configRequest;
+}
+
+export async function sendRequestBuilderRequest(request: HttpRequestDraft): Promise<SandboxResponse> {
+  const response = await fetch('/api/request-builder', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || body?.error || `Request failed with status ${response.status}`);
+  }
+
+  return body;
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildResponseCacheStats, createResponseCacheCounters } from './stats';
+import type { ResponseCache, ResponseCacheOptions } from './types';
+
+const RESPONSE_CACHE_DIR = process.env.RESPONSE_CACHE_DIR || path.join('.data', 'response-cache');
+
+interface FileCacheEntry<T> {
+  key: string;
+  expiresAt: number;
+  value: T;
+}
+
+interface FileCacheListing {
+  filePath: string;
+  bytes: number;
+  mtimeMs: number;
+}
+
+/**
+ * Cache that keeps one JSON file per entry, so answers survive restarts and can be shared by
+ * server processes on the same disk. A hit touches the file, so the oldest modification time
+ * marks the least recently used entry.
+ */
+export function createFileResponseCache<T = unknown>(
+  options: ResponseCacheOptions,
+  directory = RESPONSE_CACHE_DIR
+): ResponseCache<T> {
+  const cacheDir = path.resolve(directory);
+  const counters = createResponseCacheCounters();
+
+  // Keys can be long JSON strings, so files are named by their hash.
+  const filePathFor = (key: string) =>
+    path.join(cacheDir, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+
+  async function listEntries(): Promise<FileCacheListing[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(cacheDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const listings: FileCacheListing[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+
+      const filePath = path.join(cacheDir, fileName);
+      try {
+        const stat = await fs.stat(filePath);
+        listings.push({ filePath, bytes: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Removed by another process since the directory was read.
+      }
+    }
+
+    return listings;
+  }
+
+  async function removeFile(filePath: string) {
+    try {
+      await fs.unlink(filePath);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async function evictLeastRecentlyUsed() {
+    const listings = (await listEntries()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = listings.reduce((total, listing) => total + listing.bytes, 0);
+    let entryCount = listings.length;
+
+    for (const listing of listings) {
+      if (entryCount <= options.maxEntries && totalBytes <= options.maxBytes) {
+        break;
+      }
+
+      await removeFile(listing.filePath);
+      totalBytes -= listing.bytes;
+      entryCount--;
+      counters.evictions++;
+    }
+  }
+
+  return {
+    name: 'file',
+
+    async get(key) {
+      const filePath = filePathFor(key);
+
+      try {
+        const entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as FileCacheEntry<T>;
+        if (entry.key !== key) {
+          counters.misses++;
+          return null;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+          await removeFile(filePath);
+          counters.expirations++;
+          counters.misses++;
+          return null;
+        }
+
+        const now = new Date();
+        await fs.utimes(filePath, now, now);
+        counters.hits++;
+        return entry.value;
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          console.warn(`Ignoring unreadable response cache entry ${filePath}:`, error);
+        }
+        counters.misses++;
+        return null;
+      }
+    },
+
+    async set(key, value) {
+      const contents = JSON.stringify({ key, expiresAt: Date.now() + options.ttlMs, value });
+      if (Buffer.byteLength(contents) > options.maxBytes) {
+        return;
+      }
+
+      const filePath = filePathFor(key);
+      await fs.mkdir(cacheDir, { recursive: true });
+      // Write to a temporary file first so readers never see a partial entry.
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, contents);
+      await fs.rename(tempPath, filePath);
+      counters.sets++;
+      await evictLeastRecentlyUsed();
+    },
+
+    async delete(key) {
+      await removeFile(filePathFor(key));
+    },
+
+    async clear() {
+      const listings = await listEntries();
+      for (const listing of listings) {
+        await removeFile(listing.filePath);
+      }
+    },
+
+    async stats() {
+      const listings = await listEntries();
+      const bytes = listings.reduce((total, listing) => total + listing.bytes, 0);
+      return buildResponseCacheStats('file', options, counters, listings.length, bytes);
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import { createFileResponseCache } from './fileCache';
+import { createMemoryResponseCache } from './memoryCache';
+import type { ResponseCache, ResponseCacheOptions } from './types';
+
+// Select the chat answer cache: "memory" (per-process LRU), "file" (shared JSON files on disk) or "none"
+const RESPONSE_CACHE = (process.env.RESPONSE_CACHE || 'memory').toLowerCase();
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: parsePositiveInt(process.env.RESPONSE_CACHE_TTL_SECONDS, 60 * 60) * 1000,
+  maxEntries: parsePositiveInt(process.env.RESPONSE_CACHE_MAX_ENTRIES, 500),
+  maxBytes: parsePositiveInt(process.env.RESPONSE_CACHE_MAX_BYTES, 50 * 1024 * 1024)
+};
+
+let cache: ResponseCache<any> | null | undefined;
+
+/**
+ * Returns the configured response cache, or null when caching is disabled
+ */
+export function getResponseCache<T = unknown>(): ResponseCache<T> | null {
+  if (cache !== undefined) {
+    return cache;
+  }
+
+  switch (RESPONSE_CACHE) {
+    case 'none':
+    case 'disabled':
+      cache = null;
+      break;
+    case 'memory':
+      cache = createMemoryResponseCache(RESPONSE_CACHE_OPTIONS);
+      break;
+    case 'file':
+      cache = createFileResponseCache(RESPONSE_CACHE_OPTIONS);
+      break;
+    default:
+      console.warn(`Unknown RESPONSE_CACHE "${RESPONSE_CACHE}", falling back to memory`);
+      cache = createMemoryResponseCache(RESPONSE_CACHE_OPTIONS);
+  }
+
+  return cache;
+}
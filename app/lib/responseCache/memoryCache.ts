@@ -0,0 +1,87 @@
+import { buildResponseCacheStats, createResponseCacheCounters } from './stats';
+import type { ResponseCache, ResponseCacheOptions } from './types';
+
+interface MemoryCacheEntry<T> {
+  value: T;
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * In-process LRU cache bounded by entry count and approximate JSON size.
+ * A Map keeps insertion order, so re-inserting on every hit keeps the least recently used entry first.
+ */
+export function createMemoryResponseCache<T = unknown>(options: ResponseCacheOptions): ResponseCache<T> {
+  const entries = new Map<string, MemoryCacheEntry<T>>();
+  const counters = createResponseCacheCounters();
+  let totalBytes = 0;
+
+  function remove(key: string) {
+    const entry = entries.get(key);
+    if (entry) {
+      totalBytes -= entry.bytes;
+      entries.delete(key);
+    }
+  }
+
+  function evictLeastRecentlyUsed() {
+    while (entries.size > options.maxEntries || (totalBytes > options.maxBytes && entries.size > 0)) {
+      const oldestKey = entries.keys().next().value as string;
+      remove(oldestKey);
+      counters.evictions++;
+    }
+  }
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        counters.misses++;
+        return null;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        counters.expirations++;
+        counters.misses++;
+        return null;
+      }
+
+      // Move to the most recently used end.
+      entries.delete(key);
+      entries.set(key, entry);
+      counters.hits++;
+      return entry.value;
+    },
+
+    async set(key, value) {
+      const bytes = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(value));
+      remove(key);
+
+      // A value larger than the whole cache would only evict everything else.
+      if (bytes > options.maxBytes) {
+        return;
+      }
+
+      entries.set(key, { value, bytes, expiresAt: Date.now() + options.ttlMs });
+      totalBytes += bytes;
+      counters.sets++;
+      evictLeastRecentlyUsed();
+    },
+
+    async delete(key) {
+      remove(key);
+    },
+
+    async clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+
+    async stats() {
+      return buildResponseCacheStats('memory', options, counters, entries.size, totalBytes);
+    }
+  };
+}
@@ -0,0 +1,33 @@
+import type { ResponseCacheOptions, ResponseCacheStats } from './types';
+
+export interface ResponseCacheCounters {
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number;
+  expirations: number;
+}
+
+export function createResponseCacheCounters(): ResponseCacheCounters {
+  return { hits: 0, misses: 0, sets: 0, evictions: 0, expirations: 0 };
+}
+
+export function buildResponseCacheStats(
+  backend: string,
+  options: ResponseCacheOptions,
+  counters: ResponseCacheCounters,
+  entries: number,
+  bytes: number
+): ResponseCacheStats {
+  const lookups = counters.hits + counters.misses;
+  return {
+    backend,
+    entries,
+    bytes,
+    maxEntries: options.maxEntries,
+    maxBytes: options.maxBytes,
+    ttlMs: options.ttlMs,
+    ...counters,
+    hitRate: lookups > 0 ? Math.round((counters.hits / lookups) * 1000) / 1000 : 0
+  };
+}
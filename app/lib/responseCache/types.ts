@@ -0,0 +1,34 @@
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number; // Approximate size of the stored JSON values
+}
+
+export interface ResponseCacheStats {
+  backend: string;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  ttlMs: number;
+  // Counters since the server started
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number; // Entries dropped to stay within maxEntries/maxBytes
+  expirations: number; // Entries dropped because they were older than the TTL
+  hitRate: number;
+}
+
+/**
+ * Cache for chat answers. Values are JSON-serializable; expired entries read as misses.
+ * Implementations never throw from `get`, so a broken cache only costs a fresh answer.
+ */
+export interface ResponseCache<T = unknown> {
+  name: string;
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<ResponseCacheStats>;
+}
@@ -0,0 +1,150 @@
+import type { DocumentChunk } from '../chunking';
+import type { ResponseCode, ResponseCodeCategory } from './types';
+
+const CODE_VALUE_PATTERN = /^\d{3,6}$/;
+const CODE_HEADER_PATTERN = /\bcodes?\b/i;
+const REASON_HEADER_PATTERN = /reason|message|meaning|name|status|title|result/i;
+const DESCRIPTION_HEADER_PATTERN = /description|details?|explanation|action|notes?/i;
+const CATEGORY_HEADER_PATTERN = /category|type|decline/i;
+// List items only count as codes under headings like "Response codes" or "Error handling"
+const CODE_SECTION_PATTERN = /\b(?:codes?|status|errors?|declines?|responses?)\b/i;
+// - **20051**: *Insufficient funds* - Ask for another card
+const CODE_LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(?:\*\*|`)?(\d{3,6})(?:\*\*|`)?\s*(?::|-|–|—)\s*(.+)$/;
+const REASON_SEPARATOR_PATTERN = /\s+(?:-|–|—)\s+/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function stripInlineMarkdown(value: string): string {
+  return value.replace(/[*_`]/g, '').replace(/<br\s*\/?>/gi, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => stripInlineMarkdown(cell));
+}
+
+/**
+ * Soft or hard decline from the most specific text available: a category cell, the row, then the heading
+ */
+export function inferResponseCodeCategory(...texts: Array<string | undefined>): ResponseCodeCategory {
+  for (const text of texts) {
+    if (!text) {
+      continue;
+    }
+
+    const soft = /soft[\s_-]*declin/i.test(text);
+    const hard = /hard[\s_-]*declin/i.test(text);
+    if (soft !== hard) {
+      return soft ? 'soft_decline' : 'hard_decline';
+    }
+  }
+
+  return 'other';
+}
+
+function findColumn(headers: string[], pattern: RegExp, exclude: number[]): number {
+  return headers.findIndex((header, index) => !exclude.includes(index) && pattern.test(header));
+}
+
+function extractTableCodes(lines: string[], heading: string, source: string, section: string): ResponseCode[] {
+  const headers = splitTableRow(lines[0]);
+  const codeColumn = findColumn(headers, CODE_HEADER_PATTERN, []);
+  if (codeColumn === -1) {
+    return [];
+  }
+
+  const reasonColumn = findColumn(headers, REASON_HEADER_PATTERN, [codeColumn]);
+  const descriptionColumn = findColumn(headers, DESCRIPTION_HEADER_PATTERN, [codeColumn, reasonColumn]);
+  const categoryColumn = findColumn(headers, CATEGORY_HEADER_PATTERN, [codeColumn, reasonColumn, descriptionColumn]);
+
+  return lines
+    .slice(2)
+    .map(splitTableRow)
+    .filter((cells) => CODE_VALUE_PATTERN.test(cells[codeColumn] || ''))
+    .map((cells) => ({
+      code: cells[codeColumn],
+      reason: reasonColumn !== -1 ? cells[reasonColumn] || '' : '',
+      description: descriptionColumn !== -1 ? cells[descriptionColumn] || '' : '',
+      category: inferResponseCodeCategory(
+        categoryColumn !== -1 ? cells[categoryColumn] : undefined,
+        cells.join(' '),
+        heading,
+        section
+      ),
+      source,
+      section: section || undefined
+    }));
+}
+
+function extractListItemCode(line: string, heading: string, source: string, section: string): ResponseCode | null {
+  const match = line.match(CODE_LIST_ITEM_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [reason, ...rest] = match[2].split(REASON_SEPARATOR_PATTERN);
+  const text = stripInlineMarkdown(match[2]);
+
+  return {
+    code: match[1],
+    reason: rest.length > 0 ? stripInlineMarkdown(reason) : text,
+    description: rest.length > 0 ? stripInlineMarkdown(rest.join(' - ')) : '',
+    category: inferResponseCodeCategory(text, heading, section),
+    source,
+    section: section || undefined
+  };
+}
+
+/**
+ * Extract response codes from the tables and lists of one chunk. Tables need a "code" column;
+ * list items need a heading about codes, statuses, errors or declines. Code blocks are skipped.
+ */
+export function extractResponseCodes(chunk: DocumentChunk, source: string): ResponseCode[] {
+  const codes: ResponseCode[] = [];
+  const lines = chunk.content.split('\n');
+  let heading = chunk.section;
+  let inCodeFence = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    if (/^(```|~~~)/.test(trimmed)) {
+      inCodeFence = !inCodeFence;
+      continue;
+    }
+
+    if (inCodeFence) {
+      continue;
+    }
+
+    const headingMatch = trimmed.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      heading = headingMatch[1];
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && TABLE_SEPARATOR_PATTERN.test((lines[index + 1] || '').trim())) {
+      const tableLines: string[] = [];
+      while (index < lines.length && lines[index].trim().startsWith('|')) {
+        tableLines.push(lines[index]);
+        index++;
+      }
+      index--;
+      codes.push(...extractTableCodes(tableLines, heading, source, chunk.section));
+      continue;
+    }
+
+    if (CODE_SECTION_PATTERN.test(`${chunk.section}\n${heading}`)) {
+      const listCode = extractListItemCode(line, heading, source, chunk.section);
+      if (listCode) {
+        codes.push(listCode);
+      }
+    }
+  }
+
+  return codes;
+}
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { chunkLoadedDocument } from '../chunking';
+import type { DocumentChunk } from '../chunking';
+import { listDocumentationFiles, loadDocumentationFile } from '../docLoaders';
+import type { LoadedDocument } from '../docLoaders';
+import { extractResponseCodes } from './extract';
+import type { ResponseCode, ResponseCodeCatalog, ResponseCodeCatalogOptions, ResponseCodeQuery } from './types';
+
+const RESPONSE_CODE_CATALOG_VERSION = 1;
+const DEFAULT_LOOKUP_LIMIT = 50;
+
+// Loaded catalogs by resolved catalog path, one per knowledge base
+const loadedCatalogs = new Map<string, { promise: Promise<ResponseCodeCatalog>; mtimeMs: number }>();
+
+/**
+ * Response codes documented in one loaded file, one entry per code and section
+ */
+export function extractDocumentResponseCodes(
+  document: LoadedDocument,
+  chunks: DocumentChunk[] = chunkLoadedDocument(document)
+): ResponseCode[] {
+  const codes: ResponseCode[] = [];
+  const seen = new Set<string>();
+
+  chunks.forEach((chunk) => {
+    extractResponseCodes(chunk, document.source).forEach((entry) => {
+      const key = `${entry.code}\n${entry.section || ''}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        codes.push(entry);
+      }
+    });
+  });
+
+  return codes;
+}
+
+export function createResponseCodeCatalog(codes: ResponseCode[]): ResponseCodeCatalog {
+  return {
+    version: RESPONSE_CODE_CATALOG_VERSION,
+    builtAt: new Date().toISOString(),
+    codes
+  };
+}
+
+export async function buildResponseCodeCatalog(docsDir: string): Promise<ResponseCodeCatalog> {
+  const codes: ResponseCode[] = [];
+
+  for (const file of listDocumentationFiles(docsDir)) {
+    try {
+      codes.push(...extractDocumentResponseCodes(await loadDocumentationFile(docsDir, file)));
+    } catch (error) {
+      console.error(`Skipping ${file} in response code catalog:`, error);
+    }
+  }
+
+  return createResponseCodeCatalog(codes);
+}
+
+export function writeResponseCodeCatalog(catalog: ResponseCodeCatalog, catalogPath: string) {
+  fs.mkdirSync(path.dirname(catalogPath), { recursive: true });
+  fs.writeFileSync(catalogPath, JSON.stringify(catalog, null, 2));
+}
+
+function readResponseCodeCatalog(catalogPath: string): ResponseCodeCatalog | null {
+  if (!fs.existsSync(catalogPath)) {
+    return null;
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+  if (!parsed || parsed.version !== RESPONSE_CODE_CATALOG_VERSION || !Array.isArray(parsed.codes)) {
+    console.warn(`Ignoring response code catalog at ${catalogPath}: unsupported format`);
+    return null;
+  }
+
+  return parsed as ResponseCodeCatalog;
+}
+
+async function loadResponseCodeCatalog(options: ResponseCodeCatalogOptions): Promise<ResponseCodeCatalog> {
+  const catalogPath = path.resolve(options.catalogPath);
+  const catalog = readResponseCodeCatalog(catalogPath);
+  if (catalog) {
+    return catalog;
+  }
+
+  console.log(`No response code catalog at ${catalogPath}; extracting codes from ${options.docsDir} in memory`);
+  return buildResponseCodeCatalog(path.resolve(options.docsDir));
+}
+
+function getCatalogMtimeMs(catalogPath: string): number {
+  try {
+    return fs.statSync(catalogPath).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * The response code catalog written by `npm run upload-docs`, reloaded when the file changes
+ */
+export function getResponseCodeCatalog(options: ResponseCodeCatalogOptions): Promise<ResponseCodeCatalog> {
+  const catalogPath = path.resolve(options.catalogPath);
+  const mtimeMs = getCatalogMtimeMs(catalogPath);
+  const loaded = loadedCatalogs.get(catalogPath);
+  if (loaded && loaded.mtimeMs === mtimeMs) {
+    return loaded.promise;
+  }
+
+  const promise = loadResponseCodeCatalog(options).catch((error) => {
+    loadedCatalogs.delete(catalogPath);
+    throw error;
+  });
+  loadedCatalogs.set(catalogPath, { promise, mtimeMs });
+  return promise;
+}
+
+/**
+ * Find catalog entries by exact code, category and/or words in the reason or description
+ */
+export async function lookupResponseCodes(
+  query: ResponseCodeQuery,
+  options: ResponseCodeCatalogOptions
+): Promise<ResponseCode[]> {
+  const { codes } = await getResponseCodeCatalog(options);
+  const wantedCodes = (query.codes || []).map((code) => code.trim()).filter(Boolean);
+  const words = (query.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return codes
+    .filter((entry) => {
+      if (wantedCodes.length > 0 && !wantedCodes.includes(entry.code)) {
+        return false;
+      }
+
+      if (query.category && entry.category !== query.category) {
+        return false;
+      }
+
+      const text = `${entry.reason} ${entry.description}`.toLowerCase();
+      return words.every((word) => text.includes(word));
+    })
+    .sort((a, b) => Number(a.code) - Number(b.code))
+    .slice(0, query.limit || DEFAULT_LOOKUP_LIMIT);
+}
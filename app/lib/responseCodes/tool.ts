@@ -0,0 +1,56 @@
+import type { AgentTool } from '../agentTools/types';
+import { lookupResponseCodes } from './index';
+import type { ResponseCodeQuery } from './types';
+import { RESPONSE_CODE_CATEGORIES, isResponseCodeCategory } from './validation';
+
+export const LOOKUP_RESPONSE_CODES_TOOL_NAME = 'lookup_response_codes';
+
+export const lookupResponseCodesTool: AgentTool = {
+  definition: {
+    type: 'function',
+    name: LOOKUP_RESPONSE_CODES_TOOL_NAME,
+    description:
+      'Look up Global Payments response codes in the catalog extracted from the documentation tables. ' +
+      'Use it for any question about specific response codes or about which codes are soft or hard declines.',
+    parameters: {
+      type: 'object',
+      properties: {
+        codes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Exact codes to look up, e.g. ["20051"]. Leave empty to list codes by category or text.'
+        },
+        category: {
+          type: 'string',
+          enum: RESPONSE_CODE_CATEGORIES,
+          description: 'Only return codes in this category.'
+        },
+        text: {
+          type: 'string',
+          description: 'Words that must appear in the reason or description, e.g. "insufficient funds".'
+        }
+      },
+      additionalProperties: false
+    },
+    strict: false
+  },
+
+  async run(args, context) {
+    const query: ResponseCodeQuery = {
+      codes: Array.isArray(args.codes) ? args.codes.map(String) : undefined,
+      category: isResponseCodeCategory(args.category) ? args.category : undefined,
+      text: typeof args.text === 'string' ? args.text : undefined
+    };
+    const { docsDir, responseCodesPath } = context.knowledgeBase;
+    const codes = await lookupResponseCodes(query, { docsDir, catalogPath: responseCodesPath });
+    context.addResponseCodes(codes);
+
+    return {
+      output:
+        codes.length > 0
+          ? { codes: codes.map(({ code, reason, description, category, source }) => ({ code, reason, description, category, source })) }
+          : { codes: [], note: 'No matching response codes are documented.' },
+      summary: `${codes.length} code${codes.length === 1 ? '' : 's'}`
+    };
+  }
+};
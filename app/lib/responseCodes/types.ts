@@ -0,0 +1,30 @@
+export type ResponseCodeCategory = 'soft_decline' | 'hard_decline' | 'other';
+
+// A response code documented in a table or list, extracted at ingest time
+export interface ResponseCode {
+  code: string;
+  reason: string;
+  description: string;
+  category: ResponseCodeCategory;
+  source: string; // Documentation file the code was found in
+  section?: string;
+}
+
+export interface ResponseCodeCatalog {
+  version: number;
+  builtAt: string;
+  codes: ResponseCode[];
+}
+
+export interface ResponseCodeQuery {
+  codes?: string[];
+  category?: ResponseCodeCategory;
+  text?: string; // Words that must all appear in the reason or description
+  limit?: number;
+}
+
+// Where a knowledge base's catalog is written, and the docs to extract it from when it is missing
+export interface ResponseCodeCatalogOptions {
+  docsDir: string;
+  catalogPath: string;
+}
@@ -0,0 +1,41 @@
+import type { ResponseCode, ResponseCodeCategory } from './types';
+
+export const RESPONSE_CODE_CATEGORIES: ResponseCodeCategory[] = ['soft_decline', 'hard_decline', 'other'];
+
+export const RESPONSE_CODE_CATEGORY_LABELS: Record<ResponseCodeCategory, string> = {
+  soft_decline: 'Soft declines',
+  hard_decline: 'Hard declines',
+  other: 'Other codes'
+};
+
+export function isResponseCodeCategory(value: unknown): value is ResponseCodeCategory {
+  return typeof value === 'string' && (RESPONSE_CODE_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Keep well-formed response code entries from an untrusted value (API payloads, stored messages)
+ */
+export function normalizeResponseCodes(value: unknown): ResponseCode[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter((entry) => {
+      return (
+        !!entry &&
+        typeof entry === 'object' &&
+        typeof entry.code === 'string' &&
+        typeof entry.source === 'string' &&
+        isResponseCodeCategory(entry.category)
+      );
+    })
+    .map(({ code, reason, description, category, source, section }) => ({
+      code,
+      reason: typeof reason === 'string' ? reason : '',
+      description: typeof description === 'string' ? description : '',
+      category,
+      source,
+      section: typeof section === 'string' && section ? section : undefined
+    }));
+}
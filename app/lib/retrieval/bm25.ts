@@ -0,0 +1,109 @@
+// Okapi BM25 tuning constants
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your'
+]);
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+export interface Bm25Index {
+  documentCount: number;
+  averageLength: number;
+  documentFrequencies: Map<string, number>;
+  documents: Array<{
+    id: string;
+    length: number;
+    termFrequencies: Map<string, number>;
+  }>;
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+/**
+ * Lower-case word tokenizer that keeps identifiers such as `payment_method` or `20051` intact
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter((token) => !STOP_WORDS.has(token));
+}
+
+export function buildBm25Index(documents: Bm25Document[]): Bm25Index {
+  const documentFrequencies = new Map<string, number>();
+  let totalLength = 0;
+
+  const indexedDocuments = documents.map((document) => {
+    const tokens = tokenize(document.text);
+    const termFrequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    termFrequencies.forEach((_, term) => {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    });
+
+    totalLength += tokens.length;
+    return {
+      id: document.id,
+      length: tokens.length,
+      termFrequencies
+    };
+  });
+
+  return {
+    documentCount: indexedDocuments.length,
+    averageLength: indexedDocuments.length > 0 ? totalLength / indexedDocuments.length : 0,
+    documentFrequencies,
+    documents: indexedDocuments
+  };
+}
+
+/**
+ * Score every indexed document against the query and return the best matches first
+ */
+export function searchBm25Index(index: Bm25Index, query: string, limit: number): Bm25Match[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.documentCount === 0) {
+    return [];
+  }
+
+  const matches: Bm25Match[] = [];
+
+  for (const document of index.documents) {
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const termFrequency = document.termFrequencies.get(term);
+      if (!termFrequency) {
+        continue;
+      }
+
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const inverseDocumentFrequency = Math.log(
+        1 + (index.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+      );
+      const lengthNormalization =
+        1 - BM25_B + BM25_B * (document.length / (index.averageLength || 1));
+
+      score +=
+        inverseDocumentFrequency *
+        ((termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * lengthNormalization));
+    }
+
+    if (score > 0) {
+      matches.push({ id: document.id, score });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,128 @@
+import type { DocumentationSearchResponse, RetrievalProvider, SearchResult } from './types';
+
+// How much a lexical (BM25) match adds on top of the vector similarity, from 0 to 1
+const HYBRID_LEXICAL_WEIGHT = Number.parseFloat(process.env.HYBRID_LEXICAL_WEIGHT || '0.5');
+// Share of the remaining score gap closed when a chunk contains every exact identifier in the query
+const HYBRID_EXACT_MATCH_BOOST = Number.parseFloat(process.env.HYBRID_EXACT_MATCH_BOOST || '0.6');
+const MAX_HYBRID_RESULTS = 20;
+
+// Tokens developers search for verbatim: response codes, field names, endpoint paths and quoted code
+const IDENTIFIER_PATTERNS = [
+  /`([^`\n]{2,80})`/g, // `card.number`
+  /(?:^|\s)(\/[\w{}:.-]*[a-z][\w{}:.\/-]*)/gi, // /v1/payments/{id}
+  /\b(\d{3,6})\b/g, // 20051, 422
+  /\b([a-z][a-z0-9]*(?:_[a-z0-9]+)+)\b/gi, // payment_method
+  /\b([a-z]+[A-Z][A-Za-z0-9]*)\b/g, // paymentMethod
+  /\b([a-z]\w+(?:\.[a-z]\w+)+)\b/gi // card.expiry_month
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Exact identifiers in a query, such as response codes, API field names and endpoint paths
+ */
+export function extractExactIdentifiers(query: string): string[] {
+  const identifiers: string[] = [];
+
+  IDENTIFIER_PATTERNS.forEach((pattern) => {
+    const matches = query.match(new RegExp(pattern.source, pattern.flags)) || [];
+    matches.forEach((match) => {
+      const identifier = match.replace(/^\s+/, '').replace(/^`|`$/g, '').replace(/[.?!,]+$/, '');
+      if (identifier && !identifiers.some((existing) => existing.toLowerCase() === identifier.toLowerCase())) {
+        identifiers.push(identifier);
+      }
+    });
+  });
+
+  return identifiers;
+}
+
+function containsIdentifier(text: string, identifier: string): boolean {
+  return new RegExp(`(?<![\\w/])${escapeRegExp(identifier)}(?![\\w])`, 'i').test(text);
+}
+
+function getResultKey(result: SearchResult): string {
+  return `${result.source}\n${result.chunkIndex ?? result.content}`;
+}
+
+/**
+ * Fuse vector and lexical scores so chunks found by both rank highest, then boost chunks
+ * containing the exact identifiers from the query. Scores stay in the 0-1 range.
+ */
+function fuseResults(
+  vectorResults: SearchResult[],
+  lexicalResults: SearchResult[],
+  identifiers: string[]
+): SearchResult[] {
+  const fused: Array<{ result: SearchResult; vectorScore: number; lexicalScore: number }> = [];
+  const indexByKey: Record<string, number> = {};
+
+  const addResults = (results: SearchResult[], kind: 'vectorScore' | 'lexicalScore') => {
+    results.forEach((result) => {
+      const key = getResultKey(result);
+      if (indexByKey[key] === undefined) {
+        indexByKey[key] = fused.length;
+        fused.push({ result, vectorScore: 0, lexicalScore: 0 });
+      }
+
+      const entry = fused[indexByKey[key]];
+      entry[kind] = Math.max(entry[kind], result.score);
+    });
+  };
+
+  // Vector results first so their metadata (file id, section) is kept for chunks found by both.
+  addResults(vectorResults, 'vectorScore');
+  addResults(lexicalResults, 'lexicalScore');
+
+  return fused
+    .map(({ result, vectorScore, lexicalScore }) => {
+      let score = 1 - (1 - vectorScore) * (1 - HYBRID_LEXICAL_WEIGHT * lexicalScore);
+
+      if (identifiers.length > 0) {
+        const haystack = `${result.source}\n${result.section || ''}\n${result.content}`;
+        const matched = identifiers.filter((identifier) => containsIdentifier(haystack, identifier)).length;
+        score += (1 - score) * HYBRID_EXACT_MATCH_BOOST * (matched / identifiers.length);
+      }
+
+      return { ...result, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HYBRID_RESULTS);
+}
+
+/**
+ * Retrieval provider that runs vector and lexical search side by side and fuses the results.
+ * Either side failing still returns the other side's results.
+ */
+export function createHybridProvider(
+  vectorProvider: RetrievalProvider,
+  lexicalProvider: RetrievalProvider
+): RetrievalProvider {
+  return {
+    name: 'hybrid',
+    async search(query, options): Promise<DocumentationSearchResponse> {
+      const [vectorResponse, lexicalResponse] = await Promise.all([
+        vectorProvider.search(query, options),
+        lexicalProvider.search(query, options)
+      ]);
+
+      if (lexicalResponse.error?.type === 'VectorSearchError') {
+        console.warn(`Lexical search failed: ${lexicalResponse.error.message}`);
+      }
+
+      const identifiers = extractExactIdentifiers(query);
+      if (identifiers.length > 0) {
+        console.log("Exact identifiers in query:", identifiers.join(', '));
+      }
+
+      const results = fuseResults(vectorResponse.results || [], lexicalResponse.results || [], identifiers);
+      if (results.length === 0) {
+        return { results: [], error: vectorResponse.error || lexicalResponse.error };
+      }
+
+      return { results };
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import type { KnowledgeBase } from '../knowledgeBases/types';
+import { createHybridProvider } from './hybrid';
+import { createLocalIndexProvider } from './localIndex';
+import { createOpenAIVectorStoreProvider } from './openaiVectorStore';
+import type { RetrievalProvider } from './types';
+
+// Select the retrieval backend: "hybrid" (vector store search fused with BM25), "openai" (vector store
+// search only) or "local" (BM25 over the knowledge base's docs directory only)
+const RETRIEVAL_PROVIDER = (process.env.RETRIEVAL_PROVIDER || 'hybrid').toLowerCase();
+
+// Providers by knowledge base id; rebuilt when the knowledge base config is reloaded
+const providers = new Map<string, { knowledgeBase: KnowledgeBase; provider: RetrievalProvider }>();
+
+function createRetrievalProvider(knowledgeBase: KnowledgeBase): RetrievalProvider {
+  const localIndexOptions = { docsDir: knowledgeBase.docsDir, indexPath: knowledgeBase.localIndexPath };
+
+  switch (RETRIEVAL_PROVIDER) {
+    case 'local':
+      return createLocalIndexProvider(localIndexOptions);
+    case 'openai':
+      return createOpenAIVectorStoreProvider(knowledgeBase.vectorStoreId);
+    case 'hybrid':
+      return createHybridProvider(
+        createOpenAIVectorStoreProvider(knowledgeBase.vectorStoreId),
+        createLocalIndexProvider(localIndexOptions)
+      );
+    default:
+      console.warn(`Unknown RETRIEVAL_PROVIDER "${RETRIEVAL_PROVIDER}", falling back to hybrid`);
+      return createHybridProvider(
+        createOpenAIVectorStoreProvider(knowledgeBase.vectorStoreId),
+        createLocalIndexProvider(localIndexOptions)
+      );
+  }
+}
+
+export function getRetrievalProvider(knowledgeBase: KnowledgeBase): RetrievalProvider {
+  const cached = providers.get(knowledgeBase.id);
+  if (cached && cached.knowledgeBase === knowledgeBase) {
+    return cached.provider;
+  }
+
+  const provider = createRetrievalProvider(knowledgeBase);
+  providers.set(knowledgeBase.id, { knowledgeBase, provider });
+  return provider;
+}
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import path from 'path';
+import { chunkLoadedDocument } from '../chunking';
+import type { DocumentChunk } from '../chunking';
+import { listDocumentationFiles, loadDocumentationFile } from '../docLoaders';
+import type { LoadedDocument } from '../docLoaders';
+import { buildBm25Index, searchBm25Index } from './bm25';
+import type { Bm25Index } from './bm25';
+import type { DocumentationSearchResponse, RetrievalProvider, SearchResult } from './types';
+
+const LOCAL_INDEX_VERSION = 2;
+const MAX_LOCAL_RESULTS = 20;
+// BM25 scores are unbounded; map them onto 0-1 so they are comparable with vector similarity.
+// A raw score equal to this constant maps to 0.5.
+const BM25_SCORE_HALF_SATURATION = 4;
+
+export interface LocalIndexChunk {
+  id: string;
+  source: string;
+  title: string;
+  section: string;
+  chunkIndex: number;
+  content: string;
+}
+
+export interface LocalIndexFile {
+  version: number;
+  builtAt: string;
+  chunks: LocalIndexChunk[];
+}
+
+// Where a knowledge base's documentation and its prebuilt index live
+export interface LocalIndexOptions {
+  docsDir: string;
+  indexPath: string;
+}
+
+interface LoadedLocalIndex {
+  chunksById: Map<string, LocalIndexChunk>;
+  bm25: Bm25Index;
+}
+
+// Loaded indexes by resolved index path, one per knowledge base
+const loadedIndexes = new Map<string, { promise: Promise<LoadedLocalIndex>; mtimeMs: number }>();
+
+export function toLocalIndexChunk(document: LoadedDocument, chunk: DocumentChunk): LocalIndexChunk {
+  const { source, title } = document;
+  return {
+    // The full path keeps api.md and api.yaml apart
+    id: `${source}#${chunk.chunkIndex}`,
+    source,
+    title,
+    section: chunk.section,
+    chunkIndex: chunk.chunkIndex,
+    content: chunk.content
+  };
+}
+
+export function createLocalIndexFile(chunks: LocalIndexChunk[]): LocalIndexFile {
+  return {
+    version: LOCAL_INDEX_VERSION,
+    builtAt: new Date().toISOString(),
+    chunks
+  };
+}
+
+/**
+ * Chunk every documentation file in the docs directory into a serializable index
+ */
+export async function buildLocalIndex(docsDir: string): Promise<LocalIndexFile> {
+  const chunks: LocalIndexChunk[] = [];
+
+  for (const file of listDocumentationFiles(docsDir)) {
+    let document: LoadedDocument;
+
+    try {
+      document = await loadDocumentationFile(docsDir, file);
+    } catch (error) {
+      console.error(`Skipping ${file} in local index:`, error);
+      continue;
+    }
+
+    chunkLoadedDocument(document).forEach((chunk) => chunks.push(toLocalIndexChunk(document, chunk)));
+  }
+
+  return createLocalIndexFile(chunks);
+}
+
+export function writeLocalIndex(index: LocalIndexFile, indexPath: string) {
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2));
+}
+
+function readLocalIndex(indexPath: string): LocalIndexFile | null {
+  if (!fs.existsSync(indexPath)) {
+    return null;
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  if (!parsed || parsed.version !== LOCAL_INDEX_VERSION || !Array.isArray(parsed.chunks)) {
+    console.warn(`Ignoring local search index at ${indexPath}: unsupported format`);
+    return null;
+  }
+
+  return parsed as LocalIndexFile;
+}
+
+async function loadLocalIndex(options: LocalIndexOptions): Promise<LoadedLocalIndex> {
+  const indexPath = path.resolve(options.indexPath);
+  let indexFile = readLocalIndex(indexPath);
+
+  if (!indexFile) {
+    console.log(`No local search index at ${indexPath}; indexing ${options.docsDir} in memory`);
+    indexFile = await buildLocalIndex(path.resolve(options.docsDir));
+  }
+
+  const chunksById = new Map<string, LocalIndexChunk>();
+  indexFile.chunks.forEach((chunk) => chunksById.set(chunk.id, chunk));
+
+  return {
+    chunksById,
+    bm25: buildBm25Index(
+      indexFile.chunks.map((chunk) => ({
+        id: chunk.id,
+        // Index the title and section with the content so heading terms also match.
+        text: `${chunk.title}\n${chunk.section}\n${chunk.content}`
+      }))
+    )
+  };
+}
+
+function getIndexFileMtimeMs(indexPath: string): number {
+  try {
+    return fs.statSync(indexPath).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+function getLoadedIndex(options: LocalIndexOptions): Promise<LoadedLocalIndex> {
+  // Reload when the index file is rebuilt, e.g. by `npm run upload-docs`, while the server is running.
+  const indexPath = path.resolve(options.indexPath);
+  const mtimeMs = getIndexFileMtimeMs(indexPath);
+  const loaded = loadedIndexes.get(indexPath);
+  if (loaded && loaded.mtimeMs === mtimeMs) {
+    return loaded.promise;
+  }
+
+  const promise = loadLocalIndex(options).catch((error) => {
+    loadedIndexes.delete(indexPath);
+    throw error;
+  });
+  loadedIndexes.set(indexPath, { promise, mtimeMs });
+  return promise;
+}
+
+async function searchLocalIndex(options: LocalIndexOptions, query: string): Promise<DocumentationSearchResponse> {
+  try {
+    const { chunksById, bm25 } = await getLoadedIndex(options);
+    const results: SearchResult[] = searchBm25Index(bm25, query, MAX_LOCAL_RESULTS)
+      .map((match): SearchResult | null => {
+        const chunk = chunksById.get(match.id);
+        if (!chunk) {
+          return null;
+        }
+
+        return {
+          content: chunk.content,
+          source: chunk.source,
+          score: match.score / (match.score + BM25_SCORE_HALF_SATURATION),
+          chunkIndex: chunk.chunkIndex,
+          section: chunk.section || undefined
+        };
+      })
+      .filter((result): result is SearchResult => result !== null);
+
+    if (results.length === 0) {
+      return {
+        results: [],
+        error: {
+          type: "NoDocumentMatches",
+          message: "The search didn't find relevant documents in the knowledge base."
+        }
+      };
+    }
+
+    return { results };
+  } catch (error) {
+    console.error("Local index search error:", error);
+    return {
+      results: [],
+      error: {
+        type: "VectorSearchError",
+        message: "The information you requested could not be found in our knowledge base."
+      }
+    };
+  }
+}
+
+/**
+ * Chunks of one documentation file in order, optionally limited to a section and its subsections
+ */
+export async function findLocalIndexChunks(
+  options: LocalIndexOptions,
+  source: string,
+  section?: string
+): Promise<LocalIndexChunk[]> {
+  const { chunksById } = await getLoadedIndex(options);
+  const wantedSource = source.replace(/^\.?\//, '').toLowerCase();
+  const wantedSection = (section || '').toLowerCase();
+  const chunks: LocalIndexChunk[] = [];
+
+  chunksById.forEach((chunk) => {
+    const chunkSection = chunk.section.toLowerCase();
+    if (
+      chunk.source.toLowerCase() === wantedSource &&
+      (!wantedSection || chunkSection === wantedSection || chunkSection.startsWith(`${wantedSection} > `))
+    ) {
+      chunks.push(chunk);
+    }
+  });
+
+  return chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Retrieval provider that searches an in-process BM25 index of a docs directory
+ */
+export function createLocalIndexProvider(options: LocalIndexOptions): RetrievalProvider {
+  return {
+    name: 'local',
+    search: (query) => searchLocalIndex(options, query)
+  };
+}
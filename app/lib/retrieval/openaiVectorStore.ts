@@ -0,0 +1,111 @@
+import { getOpenAIClient } from '../openaiClient';
+import type { DocumentationSearchResponse, RetrievalProvider, SearchResult } from './types';
+
+const MAX_VECTOR_STORE_RESULTS = 20; // Request more results for better re-ranking
+
+// Define types for the vector store search API
+interface VectorStoreSearchResult {
+  file_id: string;
+  filename?: string;
+  score: number;
+  attributes?: Record<string, string | number | boolean> | null;
+  content?: Array<{ type: string; text?: string }>;
+}
+
+function toSearchResult(item: VectorStoreSearchResult): SearchResult | null {
+  const content = (item.content || [])
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n')
+    .trim();
+
+  if (!content) {
+    return null;
+  }
+
+  const attributes = item.attributes || {};
+  const chunkIndex = Number(attributes.chunkIndex);
+
+  return {
+    content,
+    source:
+      (typeof attributes.source === 'string' && attributes.source) ||
+      item.filename ||
+      item.file_id ||
+      'Global Payments documentation',
+    score: typeof item.score === 'number' ? item.score : 0,
+    fileId: item.file_id,
+    chunkIndex: Number.isInteger(chunkIndex) ? chunkIndex : undefined,
+    section: typeof attributes.section === 'string' ? attributes.section : undefined
+  };
+}
+
+/**
+ * Search Global Payments documentation chunks directly in the OpenAI vector store
+ */
+async function searchVectorStore(vectorStoreId: string, query: string): Promise<DocumentationSearchResponse> {
+  try {
+    console.log("Searching documentation with query:", query);
+    console.log("Using vector store ID:", vectorStoreId);
+
+    const page = await getOpenAIClient().vectorStores.search(vectorStoreId, {
+      query,
+      max_num_results: MAX_VECTOR_STORE_RESULTS,
+      rewrite_query: false
+    });
+    const items: VectorStoreSearchResult[] = Array.isArray(page?.data) ? page.data : [];
+
+    const results = items
+      .map(toSearchResult)
+      .filter((result): result is SearchResult => result !== null)
+      .sort((a, b) => b.score - a.score);
+
+    console.log(
+      "Vector store search results:",
+      JSON.stringify(
+        results.map(({ source, chunkIndex, score }) => ({ source, chunkIndex, score })),
+        null,
+        2
+      )
+    );
+
+    if (results.length === 0) {
+      console.log("No results from vector store search");
+      return {
+        results: [],
+        error: {
+          type: "NoDocumentMatches",
+          message: "The search didn't find relevant documents in the knowledge base."
+        }
+      };
+    }
+
+    return { results };
+  } catch (error: any) {
+    console.error("Vector store search error:", error);
+    console.error("Vector store search error details:", JSON.stringify({
+      message: error?.message,
+      status: error?.status,
+      code: error?.code,
+      type: error?.type
+    }, null, 2));
+
+    return {
+      results: [],
+      error: {
+        type: "VectorSearchError",
+        message: "The information you requested could not be found in our knowledge base."
+      }
+    };
+  }
+}
+
+/**
+ * Retrieval provider backed by an OpenAI vector store
+ */
+export function createOpenAIVectorStoreProvider(vectorStoreId: string): RetrievalProvider {
+  return {
+    name: 'openai',
+    search: (query) => searchVectorStore(vectorStoreId, query)
+  };
+}
@@ -0,0 +1,31 @@
+// Define type for search results
+export interface SearchResult {
+  content: string; // The retrieved chunk text
+  source: string; // Documentation file the chunk came from
+  score: number; // Similarity score in the 0-1 range
+  chunkIndex?: number;
+  section?: string;
+  fileId?: string;
+}
+
+// Define type for documentation search response
+export interface DocumentationSearchResponse {
+  results: SearchResult[];
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+export interface RetrievalSearchOptions {
+  model: string;
+}
+
+/**
+ * A backend that can search the documentation corpus for a query.
+ * Providers never throw; failures are reported through `error` on the response.
+ */
+export interface RetrievalProvider {
+  name: string;
+  search(query: string, options: RetrievalSearchOptions): Promise<DocumentationSearchResponse>;
+}
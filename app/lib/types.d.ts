@@ -33,37 +33,3 @@ declare module 'openai' {
     };
   }
 }
-
-declare module 'agents' {
-  export class Agent {
-    constructor(options: {
-      name: string;
-      instructions: string;
-      tools?: Array<{
-        name: string;
-        description: string;
-        parameters: {
-          type: string;
-          properties: {
-            [key: string]: {
-              type: string;
-              description: string;
-            };
-          };
-          required: string[];
-        };
-        handler: (...args: any[]) => any;
-      }>;
-    });
-  }
-
-  export class Runner {
-    run(options: {
-      agent: Agent;
-      input: string;
-    }): Promise<{
-      final_output: string;
-      [key: string]: any;
-    }>;
-  }
-} 
\ No newline at end of file
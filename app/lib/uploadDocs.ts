@@ -1,25 +1,33 @@
 import fs from 'fs';
 import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import dotenv from 'dotenv';
-import fetch from 'node-fetch';
+import { chunkLoadedDocument } from './chunking';
+import type { DocumentChunk } from './chunking';
+import { listDocumentationFiles, loadDocumentationFile } from './docLoaders';
+import type { LoadedDocument } from './docLoaders';
+import { hashContent, loadIngestManifest, saveIngestManifest } from './ingestManifest';
+import { getKnowledgeBase } from './knowledgeBases';
+import type { ManifestChunk, ManifestFile } from './ingestManifest';
+import { bumpDocsVersion } from './docsVersion';
+import { getOpenAIClient } from './openaiClient';
+import { createLocalIndexFile, toLocalIndexChunk, writeLocalIndex } from './retrieval/localIndex';
+import type { LocalIndexChunk } from './retrieval/localIndex';
+import { createResponseCodeCatalog, extractDocumentResponseCodes, writeResponseCodeCatalog } from './responseCodes';
+import type { ResponseCode } from './responseCodes/types';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
 
 // Import OpenAI properly
-const { OpenAI } = require('openai');
+const { toFile } = require('openai');
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
-// Use provided vector store info
-const VECTOR_STORE_NAME = process.env.VECTOR_STORE_NAME || 'globalpaymentsdocs';
-const VECTOR_STORE_ID = process.env.VECTOR_STORE_ID || 'vs_69288aa80bf881918d805ebd82e191f9';
-const FILE_ID = process.env.FILE_ID || '';
+// Vector store attribute values are limited to 512 characters
+const MAX_ATTRIBUTE_LENGTH = 512;
+// Our chunks are already split on document structure; stop the vector store from re-splitting them.
+const CHUNKING_STRATEGY = {
+  type: 'static',
+  static: { max_chunk_size_tokens: 4096, chunk_overlap_tokens: 0 }
+};
 
 // Define types for summary data
 interface DocumentFile {
@@ -36,160 +44,363 @@ interface SummaryData {
   processedAt: string;
 }
 
-interface EmbeddingData {
-  embedding: number[];
-  index: number;
-  object: string;
+export interface UploadDocsOptions {
+  dryRun?: boolean;
+  knowledgeBaseId?: string; // Defaults to the default knowledge base
+}
+
+export interface IngestReport {
+  addedFiles: string[];
+  changedFiles: string[];
+  removedFiles: string[];
+  unchangedFiles: string[];
+  failedFiles: string[];
+  uploadedChunks: number;
+  updatedChunks: number;
+  deletedChunks: number;
+  reusedChunks: number;
+  failedChunks: number;
+}
+
+function buildChunkAttributes(source: string, title: string, chunk: DocumentChunk, hash: string) {
+  return {
+    source: source.slice(0, MAX_ATTRIBUTE_LENGTH),
+    title: title.slice(0, MAX_ATTRIBUTE_LENGTH),
+    section: chunk.section.slice(0, MAX_ATTRIBUTE_LENGTH),
+    chunkIndex: chunk.chunkIndex,
+    contentHash: hash
+  };
 }
 
 /**
- * Uploads Global Payments documentation to the OpenAI vector store
+ * Upload a single chunk as its own vector store file so it can be replaced or removed independently
  */
-async function uploadDocs() {
-  console.log('Starting document upload process...');
-  
+async function uploadChunk(
+  vectorStoreId: string,
+  source: string,
+  title: string,
+  chunk: DocumentChunk,
+  hash: string
+): Promise<string> {
+  const openai = getOpenAIClient();
+  const chunkFileName = `${source.replace(/[\\/]/g, '__').replace(/\.[^/.]+$/, '')}_${chunk.chunkIndex}.md`;
+  const uploadedFile = await openai.files.create({
+    file: await toFile(Buffer.from(chunk.content, 'utf-8'), chunkFileName),
+    purpose: 'assistants'
+  });
+
+  try {
+    await openai.vectorStores.files.create(vectorStoreId, {
+      file_id: uploadedFile.id,
+      attributes: buildChunkAttributes(source, title, chunk, hash),
+      chunking_strategy: CHUNKING_STRATEGY
+    });
+  } catch (error) {
+    // Nothing records the file yet, so remove it rather than leave it orphaned in the account.
+    try {
+      await openai.files.del(uploadedFile.id);
+    } catch (deleteError) {
+      console.error(`Error removing unattached file ${uploadedFile.id}:`, deleteError);
+    }
+    throw error;
+  }
+
+  return uploadedFile.id;
+}
+
+async function deleteChunk(vectorStoreId: string, fileId: string) {
+  const openai = getOpenAIClient();
+
+  try {
+    await openai.vectorStores.files.del(vectorStoreId, fileId);
+  } catch (error: any) {
+    // Already detached from the vector store; still remove the underlying file below.
+    if (error?.status !== 404) {
+      throw error;
+    }
+  }
+
+  try {
+    await openai.files.del(fileId);
+  } catch (error: any) {
+    if (error?.status !== 404) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Uploads a knowledge base's documentation to its OpenAI vector store.
+ * Only chunks whose content hash is not in the ingest manifest are uploaded; chunks of
+ * removed files or sections are deleted from the vector store.
+ */
+async function uploadDocs(options: UploadDocsOptions = {}): Promise<IngestReport> {
+  const { dryRun = false, knowledgeBaseId } = options;
+  const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+  if (!knowledgeBase) {
+    throw new Error(`Unknown knowledge base "${knowledgeBaseId}"`);
+  }
+
+  const { vectorStoreId, vectorStoreName } = knowledgeBase;
+  console.log(`Starting document upload process for ${knowledgeBase.name}${dryRun ? ' (dry run)' : ''}...`);
+
   // Check if documents directory exists
-  const docsDir = path.join(process.cwd(), 'docs');
+  const docsDir = path.resolve(knowledgeBase.docsDir);
   if (!fs.existsSync(docsDir)) {
-    console.error('Error: docs directory not found. Please create a docs directory and add your documentation files.');
+    console.error(
+      `Error: docs directory ${knowledgeBase.docsDir} not found. Please create it and add your documentation files.`
+    );
     process.exit(1);
   }
-  
+
   // Get all files from the docs directory
-  const files = fs.readdirSync(docsDir).filter(file => file.endsWith('.md') || file.endsWith('.txt'));
-  
+  const files = listDocumentationFiles(docsDir);
+
   if (files.length === 0) {
-    console.error('Error: No markdown or text files found in the docs directory.');
+    console.error(`Error: No supported documentation files found in ${knowledgeBase.docsDir}.`);
     process.exit(1);
   }
-  
+
   console.log(`Found ${files.length} documentation files.`);
-  console.log(`Using Vector Store: ${VECTOR_STORE_NAME} (ID: ${VECTOR_STORE_ID})`);
-  console.log(`Using File ID: ${FILE_ID}`);
-  
-  // Text splitter for chunking documents - reduce chunk size for better results and lower token usage
-  const textSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 5000,  // Changed from 1000 to 5000
-    chunkOverlap: 200, // Changed from 100 to 200
-  });
-  
+  console.log(`Using Vector Store: ${vectorStoreName} (ID: ${vectorStoreId})`);
+
+  const manifestPath = path.resolve(knowledgeBase.ingestManifestPath);
+  const manifest = loadIngestManifest(manifestPath, vectorStoreId);
+  const report: IngestReport = {
+    addedFiles: [],
+    changedFiles: [],
+    removedFiles: [],
+    unchangedFiles: [],
+    failedFiles: [],
+    uploadedChunks: 0,
+    updatedChunks: 0,
+    deletedChunks: 0,
+    reusedChunks: 0,
+    failedChunks: 0
+  };
+
   let totalChunks = 0;
-  
+  // Lexical index over the ingested chunks, searched alongside the vector store by the hybrid provider
+  const lexicalIndexChunks: LocalIndexChunk[] = [];
+  // Response codes from the docs' tables and lists, looked up by the agent's lookup_response_codes tool
+  const responseCodes: ResponseCode[] = [];
+
   // Create a summary file that we can use for reference
-  const summaryPath = path.join(process.cwd(), 'docs', 'summary.json');
+  const summaryPath = path.join(docsDir, 'summary.json');
   let summaryData: SummaryData = {
     files: [],
     totalChunks: 0,
     processedAt: new Date().toISOString()
   };
-  
+
   // Process each file
   for (const file of files) {
-    // Skip .gitkeep file and our own summary file
-    if (file === '.gitkeep' || file === 'summary.json') continue;
-    
-    console.log(`Processing ${file}...`);
-    const filePath = path.join(docsDir, file);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    
-    // Extract title and section information where possible
-    const fileTitle = path.basename(file, path.extname(file)).replace(/[-_]/g, ' ');
-    const headingMatch = content.match(/^# (.+)$/m);
-    const title = headingMatch ? headingMatch[1] : fileTitle;
-    
+    let document: LoadedDocument;
+
+    try {
+      document = await loadDocumentationFile(docsDir, file);
+    } catch (error) {
+      // Keep whatever was uploaded previously rather than treating the file as removed.
+      console.error(`Error loading ${file}; leaving its uploaded chunks untouched:`, error);
+      report.failedFiles.push(file);
+      continue;
+    }
+
+    const { source, title, content } = document;
+    const fileHash = hashContent(content);
+    const previousFile = manifest.files[source];
+
     // Split text into chunks
-    const chunks = await textSplitter.splitText(content);
-    console.log(`Split into ${chunks.length} chunks.`);
-    
-    // Process chunks in batches to generate embeddings and upload
-    const batchSize = 20; // Smaller batch size to avoid rate limits
-    
-    for (let i = 0; i < chunks.length; i += batchSize) {
-      const batchChunks = chunks.slice(i, i + batchSize);
-      
+    const documentChunks = chunkLoadedDocument(document);
+    const chunks = documentChunks.map((chunk) => chunk.content);
+
+    // Add to summary data
+    summaryData.files.push({
+      filename: source,
+      title: title,
+      chunkCount: chunks.length,
+      firstChunk: chunks[0],
+      sampleChunks: chunks.length > 5 ? [chunks[0], chunks[Math.floor(chunks.length/2)], chunks[chunks.length-1]] : chunks
+    });
+    totalChunks += chunks.length;
+    documentChunks.forEach((chunk) => lexicalIndexChunks.push(toLocalIndexChunk(document, chunk)));
+    responseCodes.push(...extractDocumentResponseCodes(document, documentChunks));
+
+    if (previousFile && previousFile.hash === fileHash && previousFile.chunks.length === chunks.length) {
+      report.unchangedFiles.push(source);
+      report.reusedChunks += previousFile.chunks.length;
+      continue;
+    }
+
+    (previousFile ? report.changedFiles : report.addedFiles).push(source);
+    console.log(`Processing ${source} (${previousFile ? 'changed' : 'new'}): ${chunks.length} chunks.`);
+
+    // Reuse previously uploaded chunks whose content is unchanged, keyed by content hash.
+    const reusableChunks = new Map<string, ManifestChunk[]>();
+    (previousFile?.chunks || []).forEach((chunk) => {
+      reusableChunks.set(chunk.hash, [...(reusableChunks.get(chunk.hash) || []), chunk]);
+    });
+
+    const nextChunks: ManifestChunk[] = [];
+    let hasFailures = false;
+
+    for (const chunk of documentChunks) {
+      const chunkHash = hashContent(chunk.content);
+      const reusable = reusableChunks.get(chunkHash)?.shift();
+
       try {
-        // Create embeddings for the batch
-        const embeddingResponse = await openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: batchChunks
-        });
-        
-        // Prepare items for the vector store
-        const vectors = embeddingResponse.data.map((item: EmbeddingData, index: number) => {
-          const chunkIndex = i + index;
-          // Extract section title if available (look for markdown headings)
-          const sectionMatch = batchChunks[index].match(/^#+\s+(.+)$/m);
-          const section = sectionMatch ? sectionMatch[1] : '';
-          
-          return {
-            id: `${file.replace(/\.[^/.]+$/, '')}_${chunkIndex}`,
-            values: item.embedding,
-            metadata: {
-              content: batchChunks[index],
-              source: file,
-              title: title,
-              section: section,
-              chunkIndex: chunkIndex,
-              file_id: FILE_ID // Associate with the specific file ID
+        if (reusable) {
+          report.reusedChunks++;
+
+          // The chunk moved or its heading changed; refresh the attributes used for citations.
+          if (reusable.chunkIndex !== chunk.chunkIndex || reusable.section !== chunk.section) {
+            if (!dryRun) {
+              await getOpenAIClient().vectorStores.files.update(vectorStoreId, reusable.fileId, {
+                attributes: buildChunkAttributes(source, title, chunk, chunkHash)
+              });
             }
-          };
-        });
-        
-        // Upload vectors to the OpenAI vector store using direct API call
-        const uploadResponse = await fetch(`https://api.openai.com/v1/vector_stores/${VECTOR_STORE_ID}/vectors/upsert`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-            'OpenAI-Organization': process.env.OPENAI_ORG_ID || ''
-          },
-          body: JSON.stringify({
-            vectors: vectors,
-            file_id: FILE_ID // Specify the file ID to associate with these vectors
-          })
+            report.updatedChunks++;
+          }
+
+          nextChunks.push({ ...reusable, chunkIndex: chunk.chunkIndex, section: chunk.section });
+          continue;
+        }
+
+        const fileId = dryRun ? '' : await uploadChunk(vectorStoreId, source, title, chunk, chunkHash);
+        nextChunks.push({
+          hash: chunkHash,
+          chunkIndex: chunk.chunkIndex,
+          section: chunk.section,
+          fileId
         });
-        
-        if (!uploadResponse.ok) {
-          const errorData = await uploadResponse.json();
-          throw new Error(`API error: ${uploadResponse.status} - ${JSON.stringify(errorData)}`);
+        report.uploadedChunks++;
+      } catch (error) {
+        hasFailures = true;
+        report.failedChunks++;
+        console.error(`Error uploading chunk ${chunk.chunkIndex} for ${source}:`, error);
+        // The attribute update failed; the file is still in the vector store with its old attributes,
+        // so keep tracking it as-is and let the next run retry the update.
+        if (reusable) {
+          nextChunks.push(reusable);
         }
-        
-        console.log(`Uploaded vectors ${i} to ${Math.min(i + batchSize, chunks.length)} for ${file}`);
-        
-        // Add a small delay between batches to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    // Anything left over was removed or rewritten in this revision of the file.
+    const staleChunks: ManifestChunk[] = [];
+    reusableChunks.forEach((chunks) => staleChunks.push(...chunks));
+
+    for (const staleChunk of staleChunks) {
+      try {
+        if (!dryRun) {
+          await deleteChunk(vectorStoreId, staleChunk.fileId);
+        }
+        report.deletedChunks++;
       } catch (error) {
-        console.error(`Error processing batch ${i} to ${i + batchSize} for ${file}:`, error);
+        report.failedChunks++;
+        console.error(`Error deleting stale chunk ${staleChunk.fileId} for ${source}:`, error);
       }
     }
-    
-    // Add to summary data
-    const fileInfo: DocumentFile = {
-      filename: file,
-      title: title,
-      chunkCount: chunks.length,
-      firstChunk: chunks[0],
-      sampleChunks: chunks.length > 5 ? [chunks[0], chunks[Math.floor(chunks.length/2)], chunks[chunks.length-1]] : chunks
+
+    const manifestFile: ManifestFile = {
+      // Leave the file hash unset on partial failures so the next run retries it.
+      hash: hasFailures ? '' : fileHash,
+      title,
+      ingestedAt: new Date().toISOString(),
+      chunks: nextChunks
     };
-    
-    summaryData.files.push(fileInfo);
-    totalChunks += chunks.length;
+
+    if (!dryRun) {
+      manifest.files[source] = manifestFile;
+      // Save after every file so an interrupted run keeps its progress.
+      saveIngestManifest(manifestPath, manifest);
+    }
   }
-  
+
+  // Delete vectors for documentation files that no longer exist.
+  const currentSources = new Set(files);
+  for (const [source, manifestFile] of Object.entries(manifest.files)) {
+    if (currentSources.has(source)) {
+      continue;
+    }
+
+    report.removedFiles.push(source);
+    console.log(`Removing ${source}: ${manifestFile.chunks.length} chunks.`);
+    const remainingChunks: ManifestChunk[] = [];
+
+    for (const chunk of manifestFile.chunks) {
+      try {
+        if (!dryRun) {
+          await deleteChunk(vectorStoreId, chunk.fileId);
+        }
+        report.deletedChunks++;
+      } catch (error) {
+        report.failedChunks++;
+        remainingChunks.push(chunk);
+        console.error(`Error deleting chunk ${chunk.fileId} for removed file ${source}:`, error);
+      }
+    }
+
+    if (!dryRun) {
+      if (remainingChunks.length > 0) {
+        manifest.files[source] = { ...manifestFile, chunks: remainingChunks };
+      } else {
+        delete manifest.files[source];
+      }
+      saveIngestManifest(manifestPath, manifest);
+    }
+  }
+
   // Update summary data
   summaryData.totalChunks = totalChunks;
-  
+
   // Write the summary to file
-  fs.writeFileSync(summaryPath, JSON.stringify(summaryData, null, 2));
-  
-  console.log(`Upload complete! Uploaded a total of ${totalChunks} chunks to OpenAI Vector Store.`);
-  console.log(`Used file ID: ${FILE_ID} for better organization.`);
-  console.log(`Summary information saved to ${summaryPath}`);
+  if (!dryRun) {
+    fs.writeFileSync(summaryPath, JSON.stringify(summaryData, null, 2));
+    writeLocalIndex(createLocalIndexFile(lexicalIndexChunks), path.resolve(knowledgeBase.localIndexPath));
+    writeResponseCodeCatalog(createResponseCodeCatalog(responseCodes), path.resolve(knowledgeBase.responseCodesPath));
+  }
+
+  // Answers cached before this ingest may cite removed or outdated content.
+  const docsChanged =
+    report.addedFiles.length + report.changedFiles.length + report.removedFiles.length + report.updatedChunks > 0;
+  if (!dryRun && docsChanged) {
+    const { version } = bumpDocsVersion(knowledgeBase.docsVersionPath);
+    console.log(`Docs version bumped to ${version}; cached answers for ${knowledgeBase.id} are invalidated`);
+  }
+
+  logIngestReport(report);
+  console.log(`${dryRun ? 'Dry run' : 'Upload'} complete! ${totalChunks} chunks across ${files.length} files.`);
+  if (!dryRun) {
+    console.log(`Ingest manifest saved to ${manifestPath}`);
+    console.log(`Summary information saved to ${summaryPath}`);
+    console.log(`Lexical search index saved with ${lexicalIndexChunks.length} chunks`);
+    console.log(`Response code catalog saved with ${responseCodes.length} codes`);
+  }
+
+  return report;
+}
+
+function logIngestReport(report: IngestReport) {
+  const listFiles = (label: string, sources: string[]) => {
+    console.log(`${label} (${sources.length})${sources.length > 0 ? ':' : ''}`);
+    sources.forEach((source) => console.log(`  ${source}`));
+  };
+
+  listFiles('Added files', report.addedFiles);
+  listFiles('Changed files', report.changedFiles);
+  listFiles('Removed files', report.removedFiles);
+  listFiles('Failed to load', report.failedFiles);
+  console.log(`Unchanged files: ${report.unchangedFiles.length}`);
+  console.log(
+    `Chunks uploaded: ${report.uploadedChunks}, updated: ${report.updatedChunks}, ` +
+      `deleted: ${report.deletedChunks}, reused: ${report.reusedChunks}, failed: ${report.failedChunks}`
+  );
 }
 
 // Run the process if this file is executed directly
 if (require.main === module) {
-  uploadDocs().catch(console.error);
+  uploadDocs({ dryRun: process.argv.includes('--dry-run') }).catch(console.error);
 }
 
-export { uploadDocs }; 
+export { uploadDocs };
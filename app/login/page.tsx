@@ -0,0 +1,110 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { fetchAuthSession, signInWithPassword } from '../lib/authClient';
+import type { AuthMode } from '../lib/auth/types';
+
+const LOGIN_ERROR_MESSAGES: Record<string, string> = {
+  sso_unavailable: 'Single sign-on is not configured on this server.',
+  sso_failed: 'Single sign-on failed. Please try again.',
+  sso_expired: 'The sign-in attempt expired. Please try again.',
+  sso_not_allowed: 'This account is not allowed to use the helper.'
+};
+
+function readReturnTo(): string {
+  const returnTo = new URLSearchParams(window.location.search).get('returnTo') || '/';
+  // Same check as the server: only follow same-site paths.
+  return returnTo.startsWith('/') && !returnTo.startsWith('//') && !returnTo.includes('\\') ? returnTo : '/';
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<AuthMode | null>(null);
+  const [returnTo, setReturnTo] = useState('/');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const nextReturnTo = readReturnTo();
+    setReturnTo(nextReturnTo);
+
+    const errorCode = new URLSearchParams(window.location.search).get('error');
+    if (errorCode) {
+      setError(LOGIN_ERROR_MESSAGES[errorCode] || 'Sign-in failed. Please try again.');
+    }
+
+    fetchAuthSession().then((session) => {
+      // Nothing to do here when auth is off or the user is already signed in.
+      if (session && (session.mode === 'none' || session.user)) {
+        window.location.replace(nextReturnTo);
+        return;
+      }
+      setMode(session?.mode || 'password');
+    });
+  }, []);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      await signInWithPassword(username, password);
+      window.location.replace(returnTo);
+    } catch (signInError) {
+      setError(signInError instanceof Error ? signInError.message : 'Sign-in failed. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <div className="login-card">
+        <h1>Global Payments Developer Helper</h1>
+        <p className="login-subtitle">Sign in to ask questions about the documentation.</p>
+
+        {error && (
+          <p className="login-error" role="alert">
+            {error}
+          </p>
+        )}
+
+        {mode === 'oidc' && (
+          <a className="login-button" href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}>
+            Sign in with single sign-on
+          </a>
+        )}
+
+        {mode === 'password' && (
+          <form className="login-form" onSubmit={handleSubmit}>
+            <label>
+              Username
+              <input
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                required
+                autoFocus
+              />
+            </label>
+            <label>
+              Password
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </label>
+            <button type="submit" className="login-button" disabled={isSubmitting}>
+              {isSubmitting ? 'Signing in...' : 'Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,37 @@
 'use client';
 
-import { useState, useRef, useEffect, type MouseEvent as ReactMouseEvent } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import ChatInput from './components/ChatInput';
-import ChatMessages from './components/ChatMessages';
+import ChatMessages, { getMessageElementId } from './components/ChatMessages';
 import ChatHistory from './components/ChatHistory';
 import ErrorDisplay from './components/ErrorDisplay';
 import Header from './components/Header';
+import CitationFootnotes from './components/CitationFootnotes';
+import MarkdownMessage from './components/MarkdownMessage';
+import ResponseCodeTable from './components/ResponseCodeTable';
+import type { MessageFeedback } from './components/FeedbackButtons';
+import { readServerSentEvents } from './lib/chatStream';
+import {
+  appendConversationMessages,
+  createConversation,
+  deleteConversation,
+  fetchConversation,
+  listConversations,
+  updateConversation,
+} from './lib/conversationsClient';
+import { clearStoredChatHistory, readStoredChatHistory, writeStoredChatHistory } from './lib/chatHistoryStorage';
+import { submitFeedback } from './lib/feedbackClient';
+import { clearSearchHighlight, getSearchTerms, highlightSearchTerms, searchChatHistory } from './lib/historySearch';
+import { fetchKnowledgeBases } from './lib/knowledgeBasesClient';
+import { fetchAuthSession, redirectToLogin, signOut } from './lib/authClient';
+import type { AuthIdentity } from './lib/auth/types';
+import { isKnowledgeBaseId } from './lib/knowledgeBases/validation';
+import type { KnowledgeBaseSummary } from './lib/knowledgeBases/types';
+import type { ConversationUpdate, StoredMessage } from './lib/conversations/types';
+import { normalizeConversationTitle, normalizeFolderName } from './lib/conversations/validation';
+import type { Citation } from './lib/citations';
+import { normalizeResponseCodes } from './lib/responseCodes/validation';
+import type { ResponseCode } from './lib/responseCodes/types';
 
 // Message type
 export type Message = {
@@ -14,17 +40,39 @@ export type Message = {
   role: 'user' | 'assistant';
   timestamp: string; // Store timestamp as string to avoid hydration issues
   isError?: boolean;
+  retryAt?: string; // When a rate limit or quota lets the user ask again
+  isStreaming?: boolean;
   hasVectorStoreError?: boolean;
   vectorStoreErrorMessage?: string;
+  citations?: Citation[];
+  responseCodes?: ResponseCode[]; // Codes the agent looked up in the response code catalog
+  reasoningEffort?: string;
+  feedback?: MessageFeedback;
   rawApiResponse?: any;
 };
 
 type ChatSession = {
   id: string;
   title: string;
+  knowledgeBase?: string; // Unset for chats started before knowledge bases existed; they use the default
+  pinned?: boolean; // Listed above every other chat
+  folder?: string;
+  archivedAt?: string; // Hidden in the archived section of the history instead of deleted
+  hasCustomTitle?: boolean; // Renamed by the user, so the first question no longer names the chat
   createdAt: string;
   updatedAt: string;
   messages: Message[];
+  needsServerLoad?: boolean; // Newer copy on the server; messages are fetched when the chat is opened
+};
+
+// What the server is known to hold for a conversation, so only changes are sent
+type SyncedConversation = {
+  title: string;
+  hasCustomTitle: boolean;
+  pinned: boolean;
+  folder: string | null;
+  archived: boolean;
+  messageIds: Set<string>;
 };
 
 type LastUserMessage = {
@@ -32,10 +80,19 @@ type LastUserMessage = {
   content: string;
 } | null;
 
-const CHAT_HISTORY_STORAGE_KEY = 'docsbotgp_chat_history_v1';
+// Message picked from the history search, scrolled to once its chat is showing
+type SearchJump = {
+  chatId: string;
+  messageId: string;
+  terms: string[];
+} | null;
+
 const ACTIVE_CHAT_STORAGE_KEY = 'docsbotgp_active_chat_v1';
 const HISTORY_COLLAPSE_STORAGE_KEY = 'docsbotgp_history_collapsed_v1';
+const KNOWLEDGE_BASE_STORAGE_KEY = 'docsbotgp_knowledge_base_v1';
 const DEFAULT_CHAT_TITLE = 'New Chat';
+const DEFAULT_LOADING_STATUS = 'Searching documentation...';
+const STREAM_IDLE_TIMEOUT_MS = 90000;
 const DEFAULT_WELCOME_MESSAGE =
   'Hello! I\'m the Global Payments Developer Helper. How can I assist you with Global Payments Inc. documentation today?';
 
@@ -52,11 +109,12 @@ const createWelcomeMessage = (): Message => ({
   timestamp: '--:--',
 });
 
-const createSession = (): ChatSession => {
+const createSession = (knowledgeBase?: string): ChatSession => {
   const nowIso = new Date().toISOString();
   return {
     id: createId('chat'),
     title: DEFAULT_CHAT_TITLE,
+    knowledgeBase,
     createdAt: nowIso,
     updatedAt: nowIso,
     messages: [createWelcomeMessage()],
@@ -68,8 +126,18 @@ const toSafeTimestamp = (value: string) => {
   return Number.isNaN(parsedTimestamp) ? 0 : parsedTimestamp;
 };
 
-const sortSessionsByNewest = (sessions: ChatSession[]) =>
-  [...sessions].sort((a, b) => toSafeTimestamp(b.updatedAt) - toSafeTimestamp(a.updatedAt));
+// Pinned chats first and archived chats last, newest first within each
+const getSessionRank = (session: ChatSession) => (session.archivedAt ? 2 : session.pinned ? 0 : 1);
+const sortSessions = (sessions: ChatSession[]) =>
+  [...sessions].sort(
+    (a, b) => getSessionRank(a) - getSessionRank(b) || toSafeTimestamp(b.updatedAt) - toSafeTimestamp(a.updatedAt)
+  );
+
+const getSessionOrganization = (session: Pick<ChatSession, 'pinned' | 'folder' | 'archivedAt'>) => ({
+  pinned: !!session.pinned,
+  folder: session.folder || null,
+  archived: !!session.archivedAt,
+});
 
 const buildChatTitleFromMessage = (content: string): string => {
   const normalized = content.trim().replace(/\s+/g, ' ');
@@ -84,6 +152,22 @@ const buildChatTitleFromMessage = (content: string): string => {
   return `${normalized.slice(0, 54).trimEnd()}...`;
 };
 
+const sanitizeStoredCitations = (citations: unknown): Citation[] | undefined => {
+  if (!Array.isArray(citations)) {
+    return undefined;
+  }
+
+  return citations.filter((citation): citation is Citation => {
+    return (
+      !!citation &&
+      typeof citation === 'object' &&
+      Number.isInteger(citation.id) &&
+      typeof citation.source === 'string' &&
+      typeof citation.snippet === 'string'
+    );
+  });
+};
+
 const sanitizeStoredMessage = (message: unknown): Message | null => {
   if (!message || typeof message !== 'object') {
     return null;
@@ -103,9 +187,17 @@ const sanitizeStoredMessage = (message: unknown): Message | null => {
         ? candidate.timestamp
         : getCurrentTimeLabel(),
     isError: Boolean(candidate.isError),
+    retryAt: typeof candidate.retryAt === 'string' ? candidate.retryAt : undefined,
     hasVectorStoreError: Boolean(candidate.hasVectorStoreError),
     vectorStoreErrorMessage:
       typeof candidate.vectorStoreErrorMessage === 'string' ? candidate.vectorStoreErrorMessage : '',
+    citations: sanitizeStoredCitations(candidate.citations),
+    responseCodes: normalizeResponseCodes(candidate.responseCodes),
+    reasoningEffort: typeof candidate.reasoningEffort === 'string' ? candidate.reasoningEffort : undefined,
+    feedback:
+      candidate.feedback && (candidate.feedback.rating === 'up' || candidate.feedback.rating === 'down')
+        ? candidate.feedback
+        : undefined,
   };
 };
 
@@ -127,6 +219,12 @@ const sanitizeStoredSession = (session: unknown): ChatSession | null => {
       typeof candidate.title === 'string' && candidate.title.trim()
         ? candidate.title.trim()
         : DEFAULT_CHAT_TITLE,
+    knowledgeBase: isKnowledgeBaseId(candidate.knowledgeBase) ? candidate.knowledgeBase : undefined,
+    // Sessions saved in the v1 format have none of these and come back unpinned, unfiled and active.
+    pinned: candidate.pinned === true || undefined,
+    folder: normalizeFolderName(candidate.folder),
+    archivedAt: typeof candidate.archivedAt === 'string' && candidate.archivedAt ? candidate.archivedAt : undefined,
+    hasCustomTitle: candidate.hasCustomTitle === true || undefined,
     createdAt:
       typeof candidate.createdAt === 'string' && candidate.createdAt
         ? candidate.createdAt
@@ -139,6 +237,29 @@ const sanitizeStoredSession = (session: unknown): ChatSession | null => {
   };
 };
 
+// Loading status shown while the agent runs a tool
+const getToolCallStatus = (name: unknown, args: unknown): string => {
+  const query = (args as Record<string, unknown> | null)?.query;
+  switch (name) {
+    case 'search_documentation':
+      return typeof query === 'string' && query
+        ? `Searching documentation for "${query}"...`
+        : DEFAULT_LOADING_STATUS;
+    case 'get_documentation_section':
+      return 'Reading the full documentation section...';
+    case 'lookup_response_codes':
+      return 'Looking up response codes...';
+    default:
+      return 'Checking documentation...';
+  }
+};
+
+// Messages worth keeping on the server: finished answers without transient errors or debug payloads
+const toStoredMessages = (messages: Message[]): StoredMessage[] =>
+  messages
+    .filter((message) => !message.isStreaming && !message.isError)
+    .map(({ rawApiResponse, isStreaming, feedback, ...message }) => message);
+
 export default function HomePage() {
   const initialSessionRef = useRef<ChatSession | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -153,16 +274,40 @@ export default function HomePage() {
   const [chatSessions, setChatSessions] = useState<ChatSession[]>(() => [getInitialSession()]);
   const [activeChatId, setActiveChatId] = useState<string>(() => getInitialSession().id);
   const [hasLoadedPersistedHistory, setHasLoadedPersistedHistory] = useState(false);
+  const [isServerSyncEnabled, setIsServerSyncEnabled] = useState(false);
+  const syncedConversationsRef = useRef(new Map<string, SyncedConversation>());
+  const serverLoadsRef = useRef(new Map<string, Promise<void>>());
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingStatus, setLoadingStatus] = useState(DEFAULT_LOADING_STATUS);
   const [lastUserMessage, setLastUserMessage] = useState<LastUserMessage>(null);
   const [contextWindowNotices, setContextWindowNotices] = useState<Record<string, string>>({});
   const [isHistoryCollapsed, setIsHistoryCollapsed] = useState(false);
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBaseSummary[]>([]);
+  const [defaultKnowledgeBase, setDefaultKnowledgeBase] = useState('');
+  const [preferredKnowledgeBase, setPreferredKnowledgeBase] = useState('');
+  const [authUser, setAuthUser] = useState<AuthIdentity | null>(null);
+  const [historySearchQuery, setHistorySearchQuery] = useState('');
+  const [searchJump, setSearchJump] = useState<SearchJump>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const activeChat = chatSessions.find((session) => session.id === activeChatId) ?? chatSessions[0];
   const messages = activeChat?.messages ?? [];
   const contextWindowNotice = contextWindowNotices[activeChatId] || '';
+  const isSearchingHistory = getSearchTerms(historySearchQuery).length > 0;
   const isMobileViewport = () => window.matchMedia('(max-width: 767px)').matches;
 
+  // Knowledge base for a chat's next question: chats that already have questions keep the one they
+  // were asked against, empty chats follow the last selection in the header.
+  const getSessionKnowledgeBase = (session: ChatSession | undefined): string | undefined => {
+    if (session?.knowledgeBase) {
+      return session.knowledgeBase;
+    }
+
+    const hasQuestions = !!session?.messages.some((message) => message.role === 'user');
+    const isPreferenceAvailable = knowledgeBases.some((knowledgeBase) => knowledgeBase.id === preferredKnowledgeBase);
+    return !hasQuestions && isPreferenceAvailable ? preferredKnowledgeBase : undefined;
+  };
+  const selectedKnowledgeBase = getSessionKnowledgeBase(activeChat) || defaultKnowledgeBase;
+
   const playAssistantReplySound = () => {
     if (typeof window === 'undefined') {
       return;
@@ -209,41 +354,17 @@ export default function HomePage() {
     playChime();
   };
 
-  // Add a cache to store formatted message content and prevent duplicate processing
-  const formattedContentCache = useRef(new Map<string, string>());
-  
-  // Function to clear cache for a specific message ID
-  const clearCacheForMessage = (messageId: string) => {
-    // Find and remove all cache entries for this message ID
-    const keysToRemove: string[] = [];
-    formattedContentCache.current.forEach((_, key) => {
-      if (key.startsWith(`${messageId}-`)) {
-        keysToRemove.push(key);
-      }
-    });
-    
-    keysToRemove.forEach(key => {
-      formattedContentCache.current.delete(key);
-      console.log(`Cleared cache for key: ${key}`);
-    });
-  };
-  
   // Restore local chat history from browser storage.
   useEffect(() => {
     try {
-      const rawStoredSessions = window.localStorage.getItem(CHAT_HISTORY_STORAGE_KEY);
+      const parsedSessions = readStoredChatHistory();
       const rawStoredActiveChatId = window.localStorage.getItem(ACTIVE_CHAT_STORAGE_KEY);
 
-      if (!rawStoredSessions) {
-        return;
-      }
-
-      const parsedSessions = JSON.parse(rawStoredSessions);
-      if (!Array.isArray(parsedSessions)) {
+      if (!parsedSessions) {
         return;
       }
 
-      const restoredSessions = sortSessionsByNewest(
+      const restoredSessions = sortSessions(
         parsedSessions
           .map(sanitizeStoredSession)
           .filter((session): session is ChatSession => session !== null)
@@ -277,19 +398,252 @@ export default function HomePage() {
     }
 
     try {
-      const persistableSessions = chatSessions.map((session) => ({
-        ...session,
-        // Drop large raw API payloads to keep localStorage within quota.
-        messages: session.messages.map(({ rawApiResponse, ...message }) => message),
-      }));
+      const persistableSessions = chatSessions
+        // Chats only known from the server list have no messages yet; they are listed again on load.
+        .filter((session) => !(session.needsServerLoad && session.messages.length === 0))
+        .map(({ needsServerLoad, ...session }) => ({
+          ...session,
+          // Drop large raw API payloads and partially streamed answers to keep localStorage consistent.
+          messages: session.messages
+            .filter((message) => !message.isStreaming)
+            .map(({ rawApiResponse, ...message }) => message),
+        }));
 
-      window.localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(persistableSessions));
+      writeStoredChatHistory(persistableSessions);
       window.localStorage.setItem(ACTIVE_CHAT_STORAGE_KEY, activeChatId);
     } catch (error) {
       console.error('Unable to persist local chat history:', error);
     }
   }, [chatSessions, activeChatId, hasLoadedPersistedHistory]);
 
+  // Merge conversations from the server store once local history is restored.
+  // When the store is disabled or unreachable, chats stay in localStorage only.
+  useEffect(() => {
+    if (!hasLoadedPersistedHistory) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    listConversations().then((summaries) => {
+      if (isCancelled || !summaries) {
+        return;
+      }
+
+      setChatSessions((prev) => {
+        const localSessions = new Map(prev.map((session) => [session.id, session]));
+        const merged = [...prev];
+
+        summaries.forEach((summary) => {
+          const localSession = localSessions.get(summary.id);
+          const isServerNewer =
+            !localSession || toSafeTimestamp(summary.updatedAt) > toSafeTimestamp(localSession.updatedAt);
+
+          // Messages already held locally are on the server too, unless the local copy is newer;
+          // anything that is not will be appended (the server ignores ids it already has).
+          syncedConversationsRef.current.set(summary.id, {
+            title: summary.title,
+            hasCustomTitle: !!summary.hasCustomTitle,
+            ...getSessionOrganization(summary),
+            messageIds: new Set(
+              localSession && isServerNewer ? localSession.messages.map((message) => message.id) : []
+            ),
+          });
+
+          // Pins, folders and archiving are sent to the server as soon as they change and do not
+          // touch updatedAt, so the server's copy of them always wins.
+          const organization = {
+            pinned: summary.pinned || undefined,
+            folder: summary.folder || undefined,
+            archivedAt: summary.archivedAt || undefined,
+          };
+
+          if (!localSession) {
+            merged.push({
+              id: summary.id,
+              title: summary.title,
+              hasCustomTitle: summary.hasCustomTitle || undefined,
+              knowledgeBase: summary.knowledgeBase,
+              ...organization,
+              createdAt: summary.createdAt,
+              updatedAt: summary.updatedAt,
+              messages: [],
+              needsServerLoad: true,
+            });
+          } else {
+            const index = merged.findIndex((session) => session.id === summary.id);
+            // A rename on either side keeps the chat from being retitled after its first question.
+            const hasCustomTitle = summary.hasCustomTitle || localSession.hasCustomTitle;
+            merged[index] = isServerNewer
+              ? { ...localSession, ...organization, hasCustomTitle, title: summary.title, needsServerLoad: true }
+              : { ...localSession, ...organization, hasCustomTitle };
+          }
+        });
+
+        return sortSessions(merged);
+      });
+      setIsServerSyncEnabled(true);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [hasLoadedPersistedHistory]);
+
+  // Fetch a chat's messages from the server and merge in any the server has not seen yet.
+  // Concurrent calls for the same chat share one request.
+  const loadServerConversation = (chatId: string): Promise<void> => {
+    const pendingLoad = serverLoadsRef.current.get(chatId);
+    if (pendingLoad) {
+      return pendingLoad;
+    }
+
+    const load = fetchConversation(chatId)
+      .then((conversation) => {
+        const serverSession = sanitizeStoredSession(conversation);
+        if (!serverSession) {
+          return;
+        }
+
+        const synced = syncedConversationsRef.current.get(chatId);
+        serverSession.messages.forEach((message) => synced?.messageIds.add(message.id));
+
+        setChatSessions((prev) =>
+          prev.map((session) => {
+            if (session.id !== chatId) {
+              return session;
+            }
+
+            // Keep local messages the server has not seen yet; they are appended on the next sync.
+            const serverMessageIds = new Set(serverSession.messages.map((message) => message.id));
+            const localOnlyMessages = session.messages.filter((message) => !serverMessageIds.has(message.id));
+
+            return {
+              ...session,
+              title: serverSession.title,
+              hasCustomTitle: serverSession.hasCustomTitle || session.hasCustomTitle,
+              knowledgeBase: serverSession.knowledgeBase || session.knowledgeBase,
+              messages: [...serverSession.messages, ...localOnlyMessages],
+              needsServerLoad: false,
+            };
+          })
+        );
+      })
+      .catch((error) => {
+        console.error('Unable to load conversation from server:', error);
+        // Keep whatever is available locally instead of retrying on every render.
+        setChatSessions((prev) =>
+          prev.map((session) => (session.id === chatId ? { ...session, needsServerLoad: false } : session))
+        );
+      })
+      .finally(() => {
+        serverLoadsRef.current.delete(chatId);
+      });
+
+    serverLoadsRef.current.set(chatId, load);
+    return load;
+  };
+
+  // Fetch the full conversation when a chat with a newer server copy is opened.
+  useEffect(() => {
+    if (isServerSyncEnabled && activeChat?.needsServerLoad) {
+      loadServerConversation(activeChat.id);
+    }
+  }, [isServerSyncEnabled, activeChat?.id, activeChat?.needsServerLoad]);
+
+  // Searching covers message contents, so chats only listed from the server are fetched as soon
+  // as a search starts.
+  useEffect(() => {
+    if (!isServerSyncEnabled || !isSearchingHistory) {
+      return;
+    }
+
+    chatSessions
+      .filter((session) => session.needsServerLoad)
+      .forEach((session) => loadServerConversation(session.id));
+  }, [isServerSyncEnabled, isSearchingHistory]);
+
+  // Push new chats, new messages, renames, pins, folders and archiving to the server store.
+  useEffect(() => {
+    if (!isServerSyncEnabled) {
+      return;
+    }
+
+    const syncedConversations = syncedConversationsRef.current;
+
+    chatSessions.forEach((session) => {
+      if (session.needsServerLoad) {
+        return;
+      }
+
+      const storedMessages = toStoredMessages(session.messages);
+      const synced = syncedConversations.get(session.id);
+
+      if (!synced) {
+        // Don't store chats that only contain the welcome message.
+        if (!storedMessages.some((message) => message.role === 'user')) {
+          return;
+        }
+
+        const organization = getSessionOrganization(session);
+        syncedConversations.set(session.id, {
+          title: session.title,
+          hasCustomTitle: !!session.hasCustomTitle,
+          ...organization,
+          messageIds: new Set(storedMessages.map((message) => message.id)),
+        });
+        createConversation({
+          id: session.id,
+          title: session.title,
+          hasCustomTitle: session.hasCustomTitle,
+          knowledgeBase: session.knowledgeBase,
+          ...organization,
+          messages: storedMessages,
+        }).catch((error) => {
+          console.error('Unable to save conversation to server:', error);
+          syncedConversations.delete(session.id);
+        });
+        return;
+      }
+
+      const unsyncedMessages = storedMessages.filter((message) => !synced.messageIds.has(message.id));
+      if (unsyncedMessages.length > 0) {
+        unsyncedMessages.forEach((message) => synced.messageIds.add(message.id));
+        appendConversationMessages(session.id, unsyncedMessages).catch((error) => {
+          console.error('Unable to save messages to server:', error);
+          unsyncedMessages.forEach((message) => synced.messageIds.delete(message.id));
+        });
+      }
+
+      const organization = getSessionOrganization(session);
+      const changes: ConversationUpdate = {};
+      if (synced.title !== session.title) {
+        changes.title = session.title;
+      }
+      if (synced.hasCustomTitle !== !!session.hasCustomTitle) {
+        changes.hasCustomTitle = !!session.hasCustomTitle;
+      }
+      if (synced.pinned !== organization.pinned) {
+        changes.pinned = organization.pinned;
+      }
+      if (synced.folder !== organization.folder) {
+        changes.folder = organization.folder;
+      }
+      if (synced.archived !== organization.archived) {
+        changes.archived = organization.archived;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        const { messageIds, ...previous } = synced;
+        Object.assign(synced, { title: session.title, hasCustomTitle: !!session.hasCustomTitle, ...organization });
+        updateConversation(session.id, changes).catch((error) => {
+          console.error('Unable to update conversation on server:', error);
+          Object.assign(synced, previous);
+        });
+      }
+    });
+  }, [chatSessions, isServerSyncEnabled]);
+
   useEffect(() => {
     return () => {
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
@@ -375,27 +729,146 @@ export default function HomePage() {
     };
   }, []);
 
-  // Scroll to bottom of messages
+  // Scroll to bottom of messages, unless a search result is about to be scrolled to
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (!searchJump) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
   }, [messages]);
 
+  // Scroll to the message picked from the history search once it is rendered. Chats fetched from
+  // the server get here again when their messages arrive.
+  useEffect(() => {
+    if (!searchJump || searchJump.chatId !== activeChatId) {
+      return;
+    }
+
+    const messageElement = document.getElementById(getMessageElementId(searchJump.messageId));
+    if (!messageElement) {
+      // Give up once the chat is fully loaded and the message is not in it.
+      if (!activeChat?.needsServerLoad) {
+        setSearchJump(null);
+      }
+      return;
+    }
+
+    messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    messageElement.classList.remove('is-search-target');
+    // Restart the flash when the same result is picked twice.
+    void messageElement.offsetWidth;
+    messageElement.classList.add('is-search-target');
+    highlightSearchTerms(messageElement, searchJump.terms);
+    setSearchJump(null);
+  }, [searchJump, activeChatId, messages]);
+
+  // Term highlights belong to the chat they were found in and to the current search.
+  useEffect(() => {
+    if (!isSearchingHistory) {
+      clearSearchHighlight();
+    }
+  }, [isSearchingHistory]);
+
+  useEffect(() => () => clearSearchHighlight(), [activeChatId]);
+
+  // Load the configured knowledge bases and the one last picked in this browser.
+  useEffect(() => {
+    try {
+      const savedKnowledgeBase = window.localStorage.getItem(KNOWLEDGE_BASE_STORAGE_KEY);
+      if (isKnowledgeBaseId(savedKnowledgeBase)) {
+        setPreferredKnowledgeBase(savedKnowledgeBase);
+      }
+    } catch (error) {
+      console.error('Unable to restore knowledge base preference:', error);
+    }
+
+    let isCancelled = false;
+    fetchKnowledgeBases().then((list) => {
+      if (isCancelled || !list) {
+        return;
+      }
+
+      setKnowledgeBases(list.knowledgeBases);
+      setDefaultKnowledgeBase(list.defaultKnowledgeBase);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // Show who is signed in when auth is on.
+  useEffect(() => {
+    let isCancelled = false;
+    fetchAuthSession().then((session) => {
+      if (!isCancelled && session?.user) {
+        setAuthUser(session.user);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Unable to sign out:', error);
+    }
+
+    // The next person on this browser should not see these chats; the server keeps its copy.
+    try {
+      clearStoredChatHistory();
+      window.localStorage.removeItem(ACTIVE_CHAT_STORAGE_KEY);
+    } catch (error) {
+      console.error('Unable to clear local chat history:', error);
+    }
+    redirectToLogin();
+  };
+
   const handleCreateChat = () => {
     if (isLoading) {
       return;
     }
 
-    const nextSession = createSession();
+    const nextSession = createSession(getSessionKnowledgeBase(undefined));
     setChatSessions((prev) => [nextSession, ...prev]);
     setActiveChatId(nextSession.id);
     setLastUserMessage(null);
-    formattedContentCache.current.clear();
+    setSearchJump(null);
 
     if (isMobileViewport()) {
       setIsHistoryCollapsed(true);
     }
   };
 
+  // Answers in one chat come from one knowledge base, so switching it mid-conversation starts a new chat.
+  const handleKnowledgeBaseChange = (knowledgeBaseId: string) => {
+    if (isLoading || knowledgeBaseId === selectedKnowledgeBase) {
+      return;
+    }
+
+    setPreferredKnowledgeBase(knowledgeBaseId);
+    try {
+      window.localStorage.setItem(KNOWLEDGE_BASE_STORAGE_KEY, knowledgeBaseId);
+    } catch (error) {
+      console.error('Unable to persist knowledge base preference:', error);
+    }
+
+    if (!activeChat || activeChat.messages.some((message) => message.role === 'user')) {
+      const nextSession = createSession(knowledgeBaseId);
+      setChatSessions((prev) => [nextSession, ...prev]);
+      setActiveChatId(nextSession.id);
+      setLastUserMessage(null);
+      return;
+    }
+
+    setChatSessions((prev) =>
+      prev.map((session) => (session.id === activeChat.id ? { ...session, knowledgeBase: knowledgeBaseId } : session))
+    );
+  };
+
   const handleSelectChat = (chatId: string) => {
     if (isLoading || chatId === activeChatId) {
       return;
@@ -403,13 +876,87 @@ export default function HomePage() {
 
     setActiveChatId(chatId);
     setLastUserMessage(null);
-    formattedContentCache.current.clear();
+    setSearchJump(null);
 
     if (isMobileViewport()) {
       setIsHistoryCollapsed(true);
     }
   };
 
+  // Open a chat from the history search, scrolled to the matching message when one was picked
+  const handleOpenSearchResult = (chatId: string, messageId?: string) => {
+    if (isLoading) {
+      return;
+    }
+
+    setSearchJump(messageId ? { chatId, messageId, terms: getSearchTerms(historySearchQuery) } : null);
+    if (chatId !== activeChatId) {
+      setActiveChatId(chatId);
+      setLastUserMessage(null);
+    }
+
+    if (isMobileViewport()) {
+      setIsHistoryCollapsed(true);
+    }
+  };
+
+  // Keep at least one chat outside the archive, starting a new one when needed
+  const withOpenSession = (sessions: ChatSession[]) =>
+    sessions.some((session) => !session.archivedAt)
+      ? sessions
+      : [createSession(getSessionKnowledgeBase(undefined)), ...sessions];
+  const getFirstOpenSession = (sessions: ChatSession[]) =>
+    sessions.find((session) => !session.archivedAt) ?? sessions[0];
+
+  // Renaming, pinning, filing and archiving leave updatedAt alone so chats keep their place by last activity.
+  const updateSession = (chatId: string, changes: Partial<ChatSession>) => {
+    setChatSessions((prev) =>
+      sortSessions(prev.map((session) => (session.id === chatId ? { ...session, ...changes } : session)))
+    );
+  };
+
+  const handleRenameChat = (chatId: string, title: string) => {
+    if (!title.trim()) {
+      return;
+    }
+
+    updateSession(chatId, { title: normalizeConversationTitle(title), hasCustomTitle: true });
+  };
+
+  const handleSetChatPinned = (chatId: string, pinned: boolean) => {
+    updateSession(chatId, { pinned: pinned || undefined });
+  };
+
+  const handleMoveChatToFolder = (chatId: string, folder: string) => {
+    updateSession(chatId, { folder: normalizeFolderName(folder) });
+  };
+
+  const handleArchiveChat = (chatId: string) => {
+    if (isLoading) {
+      return;
+    }
+
+    const nextSessions = withOpenSession(
+      sortSessions(
+        chatSessions.map((session) =>
+          session.id === chatId ? { ...session, archivedAt: new Date().toISOString() } : session
+        )
+      )
+    );
+
+    setChatSessions(nextSessions);
+    if (chatId === activeChatId) {
+      setActiveChatId(getFirstOpenSession(nextSessions).id);
+      setLastUserMessage(null);
+      setSearchJump(null);
+    }
+  };
+
+  const handleRestoreChat = (chatId: string) => {
+    updateSession(chatId, { archivedAt: undefined });
+  };
+
+  // Permanent removal, offered for archived chats
   const handleDeleteChat = (chatId: string) => {
     if (isLoading) {
       return;
@@ -427,16 +974,19 @@ export default function HomePage() {
       return;
     }
 
-    const remainingSessions = sortSessionsByNewest(
-      chatSessions.filter((session) => session.id !== chatId)
-    );
-
-    const nextSessions = remainingSessions.length > 0 ? remainingSessions : [createSession()];
+    const nextSessions = withOpenSession(sortSessions(chatSessions.filter((session) => session.id !== chatId)));
     const nextActiveChatId =
       chatId === activeChatId || !nextSessions.some((session) => session.id === activeChatId)
-        ? nextSessions[0].id
+        ? getFirstOpenSession(nextSessions).id
         : activeChatId;
 
+    if (syncedConversationsRef.current.has(chatId)) {
+      syncedConversationsRef.current.delete(chatId);
+      deleteConversation(chatId).catch((error) => {
+        console.error('Unable to delete conversation on server:', error);
+      });
+    }
+
     setChatSessions(nextSessions);
     setActiveChatId(nextActiveChatId);
     setLastUserMessage((previous) =>
@@ -446,7 +996,43 @@ export default function HomePage() {
       const { [chatId]: _removed, ...rest } = previous;
       return rest;
     });
-    formattedContentCache.current.clear();
+  };
+
+  const handleMessageFeedback = async (message: Message, feedback: MessageFeedback) => {
+    const chatId = activeChatId;
+    const chatMessages = activeChat?.messages ?? [];
+    const messageIndex = chatMessages.findIndex((candidate) => candidate.id === message.id);
+    // The question is the closest user message before the answer.
+    const question =
+      chatMessages
+        .slice(0, Math.max(messageIndex, 0))
+        .reverse()
+        .find((candidate) => candidate.role === 'user')?.content || '';
+
+    await submitFeedback({
+      conversationId: chatId,
+      messageId: message.id,
+      rating: feedback.rating,
+      reason: feedback.reason,
+      comment: feedback.comment,
+      question,
+      answer: message.content,
+      sources: message.citations || [],
+      reasoningEffort: message.reasoningEffort,
+    });
+
+    setChatSessions((prev) =>
+      prev.map((session) =>
+        session.id === chatId
+          ? {
+              ...session,
+              messages: session.messages.map((candidate) =>
+                candidate.id === message.id ? { ...candidate, feedback } : candidate
+              ),
+            }
+          : session
+      )
+    );
   };
 
   const handleToggleHistory = () => {
@@ -485,6 +1071,7 @@ export default function HomePage() {
     }
 
     setLastUserMessage({ chatId: targetChatId, content: trimmedContent });
+    const knowledgeBase = getSessionKnowledgeBase(targetSession);
 
     const userMessage: Message = {
       id: createId('msg'),
@@ -494,7 +1081,7 @@ export default function HomePage() {
     };
 
     setChatSessions((prev) =>
-      sortSessionsByNewest(
+      sortSessions(
         prev.map((session) => {
           if (session.id !== targetChatId) {
             return session;
@@ -502,11 +1089,12 @@ export default function HomePage() {
 
           const userMessageCount = session.messages.filter((message) => message.role === 'user').length;
           const shouldUpdateTitle =
-            session.title === DEFAULT_CHAT_TITLE || userMessageCount === 0;
+            !session.hasCustomTitle && (session.title === DEFAULT_CHAT_TITLE || userMessageCount === 0);
 
           return {
             ...session,
             title: shouldUpdateTitle ? buildChatTitleFromMessage(trimmedContent) : session.title,
+            knowledgeBase,
             updatedAt: new Date().toISOString(),
             messages: [...session.messages, userMessage],
           };
@@ -515,6 +1103,59 @@ export default function HomePage() {
     );
 
     setIsLoading(true);
+    setLoadingStatus(DEFAULT_LOADING_STATUS);
+
+    const streamingMessageId = createId('msg');
+    let hasStreamingMessage = false;
+    let streamedContent = '';
+    let streamedCitations: Citation[] = [];
+
+    const upsertStreamingMessage = (content: string) => {
+      streamedContent = content;
+      const isFirstChunk = !hasStreamingMessage;
+      hasStreamingMessage = true;
+
+      setChatSessions((prev) =>
+        prev.map((session) => {
+          if (session.id !== targetChatId) {
+            return session;
+          }
+
+          const streamingMessage: Message = {
+            id: streamingMessageId,
+            content,
+            role: 'assistant',
+            timestamp: getCurrentTimeLabel(),
+            isStreaming: true,
+            citations: streamedCitations,
+          };
+
+          return {
+            ...session,
+            messages: isFirstChunk
+              ? [...session.messages, streamingMessage]
+              : session.messages.map((message) =>
+                  message.id === streamingMessageId ? { ...message, content } : message
+                ),
+          };
+        })
+      );
+    };
+
+    const removeStreamingMessage = () => {
+      if (!hasStreamingMessage) {
+        return;
+      }
+
+      hasStreamingMessage = false;
+      setChatSessions((prev) =>
+        prev.map((session) =>
+          session.id === targetChatId
+            ? { ...session, messages: session.messages.filter((message) => message.id !== streamingMessageId) }
+            : session
+        )
+      );
+    };
 
     try {
       const historyForRequest = [...targetSession.messages, userMessage]
@@ -526,24 +1167,95 @@ export default function HomePage() {
 
       // Send message to API
       const controller = new AbortController();
-      // GPT-5 models can take longer due to reasoning, increase timeout to 90 seconds
-      const timeoutId = setTimeout(() => controller.abort(), 90000);
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: trimmedContent, messages: historyForRequest }),
-        signal: controller.signal
-      }).finally(() => {
+      // GPT-5 models can take longer due to reasoning, so abort only after 90 seconds without any progress
+      let timeoutId = setTimeout(() => controller.abort(), STREAM_IDLE_TIMEOUT_MS);
+      const resetIdleTimeout = () => {
         clearTimeout(timeoutId);
-      });
+        timeoutId = setTimeout(() => controller.abort(), STREAM_IDLE_TIMEOUT_MS);
+      };
+
+      let data: any = null;
+
+      try {
+        const response = await fetch('/api/chat', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+          },
+          body: JSON.stringify({
+            message: trimmedContent,
+            messages: historyForRequest,
+            knowledgeBase,
+            stream: true,
+          }),
+          signal: controller.signal
+        });
+
+        if (response.status === 401) {
+          // The session expired; sign in again and come back.
+          redirectToLogin();
+        }
 
-      if (!response.ok) {
-        throw new Error('Failed to send message');
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => null);
+          throw Object.assign(new Error(errorBody?.message || 'Failed to send message'), {
+            status: response.status,
+            retryAfterSeconds:
+              Number(errorBody?.retryAfterSeconds) || Number(response.headers.get('retry-after')) || 0,
+          });
+        }
+
+        if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+          await readServerSentEvents(response, ({ event, data: eventData }) => {
+            resetIdleTimeout();
+
+            switch (event) {
+              case 'retrieval_started':
+                setLoadingStatus(DEFAULT_LOADING_STATUS);
+                break;
+              case 'sources': {
+                streamedCitations = sanitizeStoredCitations(eventData?.sources) || [];
+                const sourceCount = streamedCitations.length;
+                setLoadingStatus(
+                  sourceCount > 0
+                    ? `Found ${sourceCount} relevant source${sourceCount === 1 ? '' : 's'}. Writing answer...`
+                    : 'Checking documentation coverage...'
+                );
+                break;
+              }
+              case 'tool_call':
+                setLoadingStatus(getToolCallStatus(eventData?.name, eventData?.arguments));
+                break;
+              case 'token':
+                if (typeof eventData?.delta === 'string' && eventData.delta) {
+                  upsertStreamingMessage(streamedContent + eventData.delta);
+                }
+                break;
+              case 'reset':
+                setLoadingStatus('Taking a closer look at the documentation...');
+                removeStreamingMessage();
+                streamedContent = '';
+                break;
+              case 'done':
+                data = eventData;
+                break;
+              case 'error':
+                throw new Error(eventData?.message || 'Streaming request failed');
+              default:
+                break;
+            }
+          });
+        } else {
+          data = await response.json();
+        }
+      } finally {
+        clearTimeout(timeoutId);
       }
 
-      const data = await response.json();
+      if (!data) {
+        throw new Error('The response stream ended before the answer was complete');
+      }
       
       // Log the raw API response for debugging
       console.log("Raw API response from server:", JSON.stringify({
@@ -567,7 +1279,7 @@ export default function HomePage() {
       
       // Add bot response to state with vector store error info if present
       const botMessage: Message = {
-        id: createId('msg'),
+        id: streamingMessageId,
         content:
           typeof data.response === 'string' && data.response
             ? data.response
@@ -576,22 +1288,28 @@ export default function HomePage() {
         timestamp: getCurrentTimeLabel(),
         hasVectorStoreError: !!data.vectorStoreError,
         vectorStoreErrorMessage: data.vectorStoreError?.message || '',
+        citations: sanitizeStoredCitations(data.metadata?.citations) || [],
+        responseCodes: normalizeResponseCodes(data.metadata?.responseCodes),
+        reasoningEffort:
+          typeof data.metadata?.reasoningEffort === 'string' ? data.metadata.reasoningEffort : undefined,
         rawApiResponse: data.raw_api_response
       };
       
-      clearCacheForMessage(botMessage.id);
-
       setChatSessions((prev) =>
-        sortSessionsByNewest(
+        sortSessions(
           prev.map((session) => {
             if (session.id !== targetChatId) {
               return session;
             }
 
+            const withoutStreamingMessage = session.messages.filter(
+              (message) => message.id !== streamingMessageId
+            );
+
             return {
               ...session,
               updatedAt: new Date().toISOString(),
-              messages: [...session.messages, botMessage],
+              messages: [...withoutStreamingMessage, botMessage],
             };
           })
         )
@@ -599,11 +1317,20 @@ export default function HomePage() {
       playAssistantReplySound();
     } catch (error: any) {
       console.error('Error sending message:', error);
+      removeStreamingMessage();
 
       // Determine error message based on error type
       let errorContent = 'Sorry, I encountered an error processing your request. Please try again.';
+      let retryAt: string | undefined;
       if (error?.name === 'AbortError') {
         errorContent = 'The request timed out. Please try again with a simpler question.';
+      } else if (error?.status === 429) {
+        // Rate limited or out of quota: show the server's explanation and count down to the retry time.
+        errorContent = error.message;
+        retryAt =
+          error.retryAfterSeconds > 0
+            ? new Date(Date.now() + error.retryAfterSeconds * 1000).toISOString()
+            : undefined;
       }
 
       // Add error message
@@ -613,10 +1340,11 @@ export default function HomePage() {
         role: 'assistant',
         timestamp: getCurrentTimeLabel(),
         isError: true,
+        retryAt,
       };
 
       setChatSessions((prev) =>
-        sortSessionsByNewest(
+        sortSessions(
           prev.map((session) => {
             if (session.id !== targetChatId) {
               return session;
@@ -636,595 +1364,15 @@ export default function HomePage() {
     }
   };
 
-  // Helper function to format message content with better styling
-  const formatMessageContent = (content: string) => {
-    const escapeHtml = (value: string) => {
-      return value
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;');
-    };
-
-    const codeBlockPlaceholders: string[] = [];
-    const normalizeInlineTagSpacing = (value: string) =>
-      value
-        .replace(/([A-Za-z0-9])(<strong>)/g, '$1 $2')
-        .replace(/(<\/strong>)([A-Za-z0-9])/g, '$1 $2')
-        .replace(/([A-Za-z0-9])(<em>)/g, '$1 $2')
-        .replace(/(<\/em>)([A-Za-z0-9])/g, '$1 $2');
-
-    const renderCodeBlock = (code: string, language = '') => {
-      const normalizedLanguage = language.toLowerCase();
-      const displayLanguage = normalizedLanguage || 'code';
-      const trimmedCode = code.replace(/\s+$/, '');
-
-      if (normalizedLanguage === 'json') {
-        const highlightedJson = escapeHtml(trimmedCode)
-          .replace(/"([^"]+)":/g, '<span class="key">"$1"</span>:')
-          .replace(/: "([^"]+)"/g, ': <span class="string">"$1"</span>')
-          .replace(/: (true|false|null)/g, ': <span class="boolean">$1</span>')
-          .replace(/: (\d+(?:\.\d+)?)/g, ': <span class="number">$1</span>');
-
-        return `<div class="code-block-wrap"><button type="button" class="code-copy-button" aria-label="Copy code snippet" title="Copy code">Copy code</button><pre data-language="json"><code class="json">${highlightedJson}</code></pre></div>`;
-      }
-
-      return `<div class="code-block-wrap"><button type="button" class="code-copy-button" aria-label="Copy code snippet" title="Copy code">Copy code</button><pre data-language="${displayLanguage}"><code class="${normalizedLanguage}">${escapeHtml(trimmedCode)}</code></pre></div>`;
-    };
-
-    const createCodePlaceholder = (code: string, language = '') => {
-      const placeholderId = codeBlockPlaceholders.length;
-      codeBlockPlaceholders.push(renderCodeBlock(code, language));
-      return `__CODE_BLOCK_${placeholderId}__`;
-    };
-
-    const restoreCodePlaceholders = (value: string) => {
-      return value.replace(/__CODE_BLOCK_(\d+)__/g, (match, indexText) => {
-        const index = Number.parseInt(indexText, 10);
-        return Number.isNaN(index) ? match : (codeBlockPlaceholders[index] || match);
-      });
-    };
-
-    const extractCodeBlocks = (value: string) => {
-      const normalizedValue = value.replace(/\r\n/g, '\n');
-      const lines = normalizedValue.split('\n');
-      const outputLines: string[] = [];
-      let isInsideFence = false;
-      let activeFenceChar = '`';
-      let activeFenceLength = 3;
-      let activeFenceIndent = 0;
-      let activeLanguage = '';
-      let activeCodeLines: string[] = [];
-
-      const closeFence = () => {
-        outputLines.push(createCodePlaceholder(activeCodeLines.join('\n'), activeLanguage));
-        isInsideFence = false;
-        activeFenceChar = '`';
-        activeFenceLength = 3;
-        activeFenceIndent = 0;
-        activeLanguage = '';
-        activeCodeLines = [];
-      };
-
-      for (const line of lines) {
-        if (!isInsideFence) {
-          const singleLineFenceMatch = line.match(/^\s*(`{3,}|~{3,})([a-zA-Z0-9_-]+)?\s+(.*?)\s*\1\s*$/);
-          if (singleLineFenceMatch) {
-            outputLines.push(createCodePlaceholder(singleLineFenceMatch[3] || '', (singleLineFenceMatch[2] || '').toLowerCase()));
-            continue;
-          }
-
-          const openingFenceMatch = line.match(/^(\s*)(`{3,}|~{3,})([a-zA-Z0-9_-]+)?(?:\s+(.*))?\s*$/);
-          if (openingFenceMatch) {
-            isInsideFence = true;
-            activeFenceIndent = openingFenceMatch[1].length;
-            activeFenceChar = openingFenceMatch[2][0];
-            activeFenceLength = openingFenceMatch[2].length;
-            activeLanguage = (openingFenceMatch[3] || '').toLowerCase();
-            activeCodeLines = [];
-
-            if (openingFenceMatch[4]) {
-              activeCodeLines.push(openingFenceMatch[4]);
-            }
-
-            continue;
-          }
-
-          outputLines.push(line);
-          continue;
-        }
-
-        const closingFenceMatch = line.match(/^\s*(`{3,}|~{3,})\s*$/);
-        if (
-          closingFenceMatch &&
-          closingFenceMatch[1][0] === activeFenceChar &&
-          closingFenceMatch[1].length >= activeFenceLength
-        ) {
-          closeFence();
-          continue;
-        }
-
-        if (activeFenceIndent > 0 && line.startsWith(' '.repeat(activeFenceIndent))) {
-          activeCodeLines.push(line.slice(activeFenceIndent));
-        } else {
-          activeCodeLines.push(line);
-        }
-      }
-
-      if (isInsideFence) {
-        closeFence();
-      }
-
-      let extractedContent = outputLines.join('\n');
-
-      extractedContent = extractedContent.replace(/``([a-z0-9_-]+)?\s+([^\n`]+)``/gi, (match, language, code) => {
-        return createCodePlaceholder(code || '', (language || '').toLowerCase());
-      });
-
-      extractedContent = extractedContent.replace(/^`([a-z0-9_-]+)\s+(.+)$/gim, (match, language, code) => {
-        return createCodePlaceholder(code || '', (language || '').toLowerCase());
-      });
-
-      return extractedContent;
-    };
-
-    // Extract code blocks first so downstream markdown formatting does not mangle snippets.
-    content = extractCodeBlocks(content);
-
-    // Prevent broken or irrelevant embedded images in assistant markdown; convert to normal links.
-    content = content.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, altText, imageTarget) => {
-      const [firstPart] = String(imageTarget).trim().split(/\s+/);
-      const href = firstPart?.replace(/^<|>$/g, '') || '';
-
-      if (!href) {
-        return altText ? String(altText) : '';
-      }
-
-      const label = altText ? `Image: ${String(altText).trim()}` : 'Image link';
-      return `[${label}](${href})`;
-    });
-
-    // Escape raw HTML that is not in fenced code blocks to avoid accidental rendering.
-    content = escapeHtml(content);
-
-    // First, detect if the content contains tables and handle them specially
-    if (content.includes('|')) {
-      // Extract table sections from the content
-      const tableSections: string[] = [];
-      const contentWithoutTables = content.replace(/\n([\s]*\|[^\n]+\|\n)([\s]*\|[^\n]+\|\n)+([\s]*\|[^\n]+\|)?/g, 
-        (match) => {
-          tableSections.push(match);
-          return '\n{{TABLE_PLACEHOLDER_' + (tableSections.length - 1) + '}}\n';
-        }
-      );
-
-      // Process the non-table content with standard formatting
-      let formattedContent = contentWithoutTables
-        // Headers
-        .replace(/^#### (.*$)/gm, '<h4 class="message-h4">$1</h4>')
-        .replace(/^### (.*$)/gm, '<h3 class="message-h3">$1</h3>')
-        .replace(/^## (.*$)/gm, '<h2 class="message-h2">$1</h2>')
-        .replace(/^# (.*$)/gm, '<h1 class="message-h1">$1</h1>')
-        .replace(/^\s*(?:---|\*\*\*|___)\s*$/gm, '<hr>')
-        
-        // Emphasis
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-        .replace(/\*(.*?)\*/g, '<em>$1</em>')
-        .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
-        
-        // Ordered and unordered lists
-        .replace(/^\s*\d+[.)]\s+(.*?)$/gm, (match, item) => {
-          return `<li>${item}</li>`;
-        })
-        .replace(/^\s*\*\s+(.*?)$/gm, (match, item) => {
-          return `<li>${item}</li>`;
-        })
-        .replace(/^\s*-\s+(.*?)$/gm, (match, item) => {
-          return `<li>${item}</li>`;
-        })
-        
-        // Fix nested lists by adding start/end tags
-        .replace(/(<li>.*<\/li>)(\n)(?=<li>)/g, '$1</ul><ul>');
-      
-      // Process inline code
-      formattedContent = formattedContent.replace(/`(.*?)`/g, '<code>$1</code>');
-      formattedContent = normalizeInlineTagSpacing(formattedContent);
-      
-      // Group list items in ul tags
-      formattedContent = formattedContent.replace(/(<li>.*?<\/li>)(?:\s*\n\s*<li>.*?<\/li>)*/g, '<ul>$&</ul>');
-      
-      // Convert newlines to <br> tags outside of specific elements
-      formattedContent = formattedContent.replace(/\n(?![<])/g, '<br>');
-      
-      // Process tables and replace placeholders
-      tableSections.forEach((tableText: string, index: number) => {
-        // Parse the markdown table
-        const tableRows = tableText.trim().split('\n');
-        let htmlTable = '<div class="table-responsive"><table class="markdown-table">';
-        
-        tableRows.forEach((row: string, rowIndex: number) => {
-          const cells = row.split('|').slice(1, -1); // Remove first and last empty cells
-          
-          if (cells.length > 0) {
-            if (rowIndex === 0) {
-              // Header row
-              htmlTable += '<thead><tr>';
-              cells.forEach((cell: string) => {
-                htmlTable += `<th>${cell.trim()}</th>`;
-              });
-              htmlTable += '</tr></thead><tbody>';
-            } else if (rowIndex === 1 && cells.every((cell: string) => cell.trim().match(/^[-:]+$/))) {
-              // This is the separator row, skip it
-            } else {
-              // Data row
-              htmlTable += '<tr>';
-              cells.forEach((cell: string) => {
-                htmlTable += `<td>${cell.trim()}</td>`;
-              });
-              htmlTable += '</tr>';
-            }
-          }
-        });
-        
-        htmlTable += '</tbody></table></div>';
-        formattedContent = formattedContent.replace(`{{TABLE_PLACEHOLDER_${index}}}`, htmlTable);
-      });
-      
-      return restoreCodePlaceholders(formattedContent);
-    }
-    
-    // Special handling for API response codes from Global Payments
-    if (content.includes("API response codes for soft declines from Global Payments")) {
-      // Create a completely custom HTML output for this specific case
-      // This bypasses the normal formatting process for guaranteed display
-      try {
-        // Use a line-by-line approach instead of complex regex
-        interface ApiCode {
-          code: string;
-          reason: string;
-          description: string;
-        }
-        
-        const apiCodes: ApiCode[] = [];
-        const lines = content.split('\n');
-        
-        // Log the actual lines for debugging
-        console.log("Raw content lines:", lines);
-        
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim();
-          
-          // Skip empty lines or titles
-          if (!line || line.includes("API response codes for soft declines")) {
-            continue;
-          }
-          
-          // Match different possible patterns for API code lines
-          const bulletPattern = /^-\s+\*\*(\d+)\*\*:?\s*(.*?)$/;
-          const bulletWithEmphasisPattern = /^-\s+\*\*(\d+)\*\*\s*-\s*\*([^*]+)\*:?\s*(.*?)$/;
-          const numberedPattern = /^\d+\.\s+\*\*(\d+)\*\*:?\s*(.*?)$/;
-          const numberedWithEmphasisPattern = /^\d+\.\s+\*\*(\d+)\*\*\s*-\s*\*([^*]+)\*:?\s*(.*?)$/;
-          
-          let code = null;
-          let reason = null;
-          let description = null;
-          
-          if (bulletWithEmphasisPattern.test(line)) {
-            const match = line.match(bulletWithEmphasisPattern);
-            if (match) {
-              code = match[1];
-              reason = match[2];
-              description = match[3] || '';
-            }
-          } else if (numberedWithEmphasisPattern.test(line)) {
-            const match = line.match(numberedWithEmphasisPattern);
-            if (match) {
-              code = match[1];
-              reason = match[2];
-              description = match[3] || '';
-            }
-          } else if (bulletPattern.test(line)) {
-            const match = line.match(bulletPattern);
-            if (match) {
-              code = match[1];
-              
-              // Check if description contains an emphasized part
-              const descParts = (match[2] || '').split(' - ');
-              if (descParts.length > 1 && descParts[0].startsWith('*') && descParts[0].endsWith('*')) {
-                reason = descParts[0].replace(/^\*|\*$/g, '');
-                description = descParts.slice(1).join(' - ');
-              } else {
-                description = match[2] || '';
-              }
-            }
-          } else if (numberedPattern.test(line)) {
-            const match = line.match(numberedPattern);
-            if (match) {
-              code = match[1];
-              
-              // Check if description contains an emphasized part
-              const descParts = (match[2] || '').split(' - ');
-              if (descParts.length > 1 && descParts[0].startsWith('*') && descParts[0].endsWith('*')) {
-                reason = descParts[0].replace(/^\*|\*$/g, '');
-                description = descParts.slice(1).join(' - ');
-              } else {
-                description = match[2] || '';
-              }
-            }
-          } else if (line.includes('**') && line.includes('**')) {
-            // Simple fallback matcher for any line with a bold number
-            const basicMatch = line.match(/\*\*(\d+)\*\*/);
-            if (basicMatch) {
-              code = basicMatch[1];
-              description = line.replace(/\*\*\d+\*\*:?\s*/, '');
-            }
-          }
-          
-          if (code) {
-            console.log(`Found code: ${code}, reason: ${reason}, desc: ${description || ''}`);
-            apiCodes.push({
-              code,
-              reason: reason || '',
-              description: (description || '').trim()
-            });
-          }
-        }
-        
-        // Log the captured codes
-        console.log(`Total API codes captured: ${apiCodes.length}`);
-        console.log("Captured codes:", apiCodes.map(c => c.code).join(', '));
-        
-        // Known API codes that should be included
-        const knownCodes = ['20001', '20002', '20003', '20004', '20005', '20006', '20009', '20012', '20013', '20014', '20046'];
-        
-        // Check if any known codes are missing
-        const missingCodes = knownCodes.filter(code => !apiCodes.some(item => item.code === code));
-        if (missingCodes.length > 0) {
-          console.log("Missing codes detected:", missingCodes.join(', '));
-          
-          // Add missing codes with generic descriptions
-          missingCodes.forEach(code => {
-            apiCodes.push({
-              code,
-              reason: '',
-              description: 'See documentation for details'
-            });
-          });
-          
-          // Sort the codes numerically
-          apiCodes.sort((a, b) => parseInt(a.code) - parseInt(b.code));
-        }
-        
-        // If we found codes, generate custom HTML
-        if (apiCodes.length > 0) {
-          let html = '<div class="api-response-section">';
-          html += '<h3>API Response Codes for Soft Declines</h3>';
-          html += '<ul class="api-codes-list">';
-          
-          apiCodes.forEach(item => {
-            html += '<li class="api-code-item">';
-            html += `<span class="api-code"><strong>${item.code}</strong></span>`;
-            
-            if (item.reason) {
-              html += ` - <span class="api-reason"><em>${item.reason}</em></span>`;
-            }
-            
-            if (item.description) {
-              html += `: <span class="api-description">${item.description}</span>`;
-            }
-            
-            html += '</li>';
-          });
-          
-          html += '</ul></div>';
-          return restoreCodePlaceholders(html);
-        }
-      } catch (e) {
-        console.error('Error in custom API code formatter:', e);
-        // Fall back to default formatting if the custom handler fails
-      }
-    }
-    
-    // Special handling for SDK response patterns
-    if (content.includes("SDKs for mobile applications") || content.includes("Global Payments supports the following SDKs")) {
-      // First process all bold texts
-      content = content.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-      
-      // Process the entire SDK list structure
-      // 1. Format the SDK category headers (1. **Category**:)
-      content = content.replace(/(\d+)\.\s+(?:\*\*([^:]*?)\*\*|<strong>([^:]*?)<\/strong>):\s*/gm, (match, number, category1, category2) => {
-        const category = category1 || category2;
-        return `<h3 class="sdk-category"><span class="number-marker">${number}.</span> <strong>${category}</strong>:</h3>`;
-      });
-      
-      // 2. Format the individual SDK items (- **SDK Name**: Description)
-      content = content.replace(/^\s*-\s+(?:\*\*([^:]*?)\*\*|<strong>([^:]*?)<\/strong>):\s*(.*?)$/gm, (match, sdk1, sdk2, description) => {
-        const sdk = sdk1 || sdk2;
-        return `<div class="sdk-item"><strong>${sdk}</strong>: ${description}</div>`;
-      });
-      
-      // 3. Format the concluding paragraph
-      const paragraphs = content.split('\n\n');
-      if (paragraphs.length > 1) {
-        const lastParagraph = paragraphs[paragraphs.length - 1];
-        if (!lastParagraph.startsWith('<') && !lastParagraph.includes('**') && !lastParagraph.includes('<strong>')) {
-          paragraphs[paragraphs.length - 1] = `<p class="sdk-conclusion">${lastParagraph}</p>`;
-          content = paragraphs.join('\n\n');
-        }
-      }
-      
-      return restoreCodePlaceholders(content);
-    }
-    
-    let formattedContent = content;
-
-    // Format inline code with single backticks
-    formattedContent = formattedContent.replace(/`([^`\n]+)`/g, '<code>$1</code>');
-    
-    // Format bold texts
-    formattedContent = formattedContent.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    
-    // Format italic text
-    formattedContent = formattedContent.replace(/\*(.*?)\*/g, '<em>$1</em>');
-    
-    // Format markdown links
-    formattedContent = formattedContent.replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>');
-    formattedContent = normalizeInlineTagSpacing(formattedContent);
-
-    // Format headers with improved class names
-    formattedContent = formattedContent.replace(/^#### (.*?)(?:\n|$)/gm, '<h4 class="message-h4">$1</h4>');
-    formattedContent = formattedContent.replace(/^### (.*?)(?:\n|$)/gm, '<h3 class="message-h3">$1</h3>');
-    formattedContent = formattedContent.replace(/^## (.*?)(?:\n|$)/gm, '<h2 class="message-h2">$1</h2>');
-    formattedContent = formattedContent.replace(/^# (.*?)(?:\n|$)/gm, '<h1 class="message-h1">$1</h1>');
-    formattedContent = formattedContent.replace(/^\s*(?:---|\*\*\*|___)\s*$/gm, '<hr>');
-    
-    // Format blockquotes
-    formattedContent = formattedContent.replace(/^> (.*?)(?:\n|$)/gm, '<blockquote>$1</blockquote>');
-    
-    // Standard unordered lists
-    const unorderedListRegex = /^\s*[-*]\s+(.*?)$/gm;
-    if (formattedContent.match(unorderedListRegex)) {
-      // First, mark all list items to preserve them
-      formattedContent = formattedContent.replace(unorderedListRegex, '___LIST_ITEM___$1___END_LIST_ITEM___\n');
-      
-      // Replace all list items with proper HTML
-      formattedContent = formattedContent.replace(/___LIST_ITEM___(.*?)___END_LIST_ITEM___/g, '<li>$1</li>');
-      
-      // Wrap consecutive list items in a ul tag
-      formattedContent = formattedContent.replace(/(<li>.*?<\/li>\s*)+/g, match => {
-        return `<ul class="api-list">${match}</ul>`;
-      });
-    }
-    
-    // Standard numbered lists for other cases (supports "1." and "1)")
-    const numberedListRegex = /^(\s*)(\d+)[.)]\s+(.*)$/gm;
-    if (formattedContent.match(numberedListRegex)) {
-      formattedContent = formattedContent.replace(numberedListRegex, (match, indent, listNum, itemText) => {
-        let result = `<li class="numbered-item"><span class="number-marker">${listNum}.</span><span class="numbered-item-text">`;
-        result += itemText || '';
-        result += '</span>';
-        result += '</li>';
-        return result;
-      });
-      
-      formattedContent = formattedContent.replace(/(<li class="numbered-item">.*?<\/li>\n?)+/g, match => {
-        return `<ol class="custom-numbered-list">${match}</ol>`;
-      });
-    }
-
-    // Format tables if present (simple markdown tables)
-    const tableRegex = /^\|(.+)\|$/gm;
-    if (formattedContent.match(tableRegex)) {
-      // Find table headers
-      formattedContent = formattedContent.replace(/^\|(.*)\|[\s]*\n\|([-|:]+)\|[\s]*\n/gm, (match, headers, separators) => {
-        const headerCells = headers.split('|').map((cell: string) => cell.trim());
-        let tableHTML = '<table><thead><tr>';
-        
-        headerCells.forEach((cell: string) => {
-          tableHTML += `<th>${cell}</th>`;
-        });
-        
-        tableHTML += '</tr></thead><tbody>';
-        return tableHTML;
-      });
-      
-      // Process table rows
-      formattedContent = formattedContent.replace(/^\|(.*)\|$/gm, (match, row) => {
-        if (row.includes('---')) return ''; // Skip separator row
-        
-        const cells = row.split('|').map((cell: string) => cell.trim());
-        let rowHTML = '<tr>';
-        
-        cells.forEach((cell: string) => {
-          rowHTML += `<td>${cell}</td>`;
-        });
-        
-        rowHTML += '</tr>';
-        return rowHTML;
-      });
-      
-      // Close table tags
-      formattedContent = formattedContent.replace(/<tbody>([^<]*)<\/tr>/g, '<tbody>$1</tr></tbody></table>');
-    }
-
-    // Isolate code placeholders so paragraph formatting does not wrap them.
-    formattedContent = formattedContent.replace(/(__CODE_BLOCK_\d+__)/g, '\n\n$1\n\n');
-
-    // Format paragraphs (preserving existing HTML)
-    const paragraphs = formattedContent.split('\n\n');
-    formattedContent = paragraphs
-      .map(p => {
-        const trimmed = p.trim();
-
-        if (/^__CODE_BLOCK_\d+__$/.test(trimmed)) {
-          return trimmed;
-        }
-
-        if (
-          !trimmed.startsWith('<') || 
-          (trimmed.startsWith('<') && !trimmed.endsWith('>'))
-        ) {
-          return `<p>${trimmed}</p>`;
-        }
-        return trimmed;
-      })
-      .join('');
-      
-    // Clean up any remaining single newlines (not in code blocks)
-    formattedContent = formattedContent.replace(/([^>])\n([^<])/g, '$1 $2');
-
-    return restoreCodePlaceholders(formattedContent);
-  };
-
-  const handleFormattedContentClick = async (event: ReactMouseEvent<HTMLDivElement>) => {
-    const clickTarget = event.target as HTMLElement;
-    const copyButton = clickTarget.closest<HTMLButtonElement>('.code-copy-button');
-    if (!copyButton) {
-      return;
-    }
-
-    event.preventDefault();
-    event.stopPropagation();
-
-    const codeElement = copyButton
-      .closest('.code-block-wrap')
-      ?.querySelector('code');
-    const codeText = codeElement?.textContent || '';
-
-    if (!codeText.trim()) {
-      return;
-    }
-
-    const originalLabel = copyButton.textContent || 'Copy code';
-
-    try {
-      if (navigator.clipboard && window.isSecureContext) {
-        await navigator.clipboard.writeText(codeText);
-      } else {
-        const textArea = document.createElement('textarea');
-        textArea.value = codeText;
-        textArea.setAttribute('readonly', '');
-        textArea.style.position = 'fixed';
-        textArea.style.opacity = '0';
-        textArea.style.pointerEvents = 'none';
-        document.body.appendChild(textArea);
-        textArea.select();
-        document.execCommand('copy');
-        document.body.removeChild(textArea);
-      }
-
-      copyButton.textContent = 'Copied';
-      copyButton.classList.add('copied');
-    } catch (error) {
-      console.error('Unable to copy code snippet:', error);
-      copyButton.textContent = 'Copy failed';
-      copyButton.classList.remove('copied');
-    }
-
-    window.setTimeout(() => {
-      copyButton.textContent = originalLabel;
-      copyButton.classList.remove('copied');
-    }, 1400);
-  };
+  const renderAssistantFooter = (message: Message) => (
+    <>
+      <ResponseCodeTable codes={message.responseCodes || []} />
+      <CitationFootnotes messageId={message.id} citations={message.citations || []} />
+      <div className="documentation-link">
+        <a href="https://developer.globalpay.com" target="_blank" rel="noopener noreferrer">View Official Documentation →</a>
+      </div>
+    </>
+  );
 
   // Custom renderer for message content
   const renderMessageContent = (message: Message) => {
@@ -1233,6 +1381,7 @@ export default function HomePage() {
         <ErrorDisplay 
           message={message.content} 
           onRetry={handleRetry} 
+          retryAt={message.retryAt}
         />
       );
     }
@@ -1329,161 +1478,16 @@ export default function HomePage() {
     }
     // MODIFIED CODE END
     
-    // Check cache after potentially updating the content
-    const messageKey = `${message.id}-${message.content.length}`;
-    if (formattedContentCache.current.has(messageKey)) {
-      console.log(`Using cached formatted content for message ${message.id}`);
-      const cachedContent = formattedContentCache.current.get(messageKey) || '';
-      
-      return (
-        <div>
-          <div
-            onClick={handleFormattedContentClick}
-            dangerouslySetInnerHTML={{ __html: cachedContent }}
-          />
-
-          {message.role === 'assistant' && (
-            <>
-              <div className="documentation-link">
-                <a href="https://developer.globalpay.com" target="_blank" rel="noopener noreferrer">View Official Documentation →</a>
-              </div>
-            </>
-          )}
-        </div>
-      );
-    }
-
-    // Debug logging for message content length
-    console.log(`Message content length before formatting: ${message.content.length}`);
-    console.log(`First 100 chars: ${message.content.substring(0, 100)}`);
-    console.log(`Last 100 chars: ${message.content.substring(message.content.length - 100)}`);
-    
-    // Format the content
-    const formattedContent = formatMessageContent(message.content);
-    console.log(`Formatted content length: ${formattedContent.length}`);
-    
-    // Check if this is an API response codes message - if the formatted content is suspiciously short, don't use it
-    if (message.content.includes("API response codes for") && 
-       (message.content.includes("soft declines") || message.content.includes("hard declines"))) {
-      
-      // Try displaying the raw content directly without formatting
-      console.log("Using raw content display for API codes");
-      console.log("Raw content:", message.content);
-      
-      // Get the known codes that should be included
-      const knownCodes = ['20001', '20002', '20003', '20004', '20005', '20006', '20009', '20012', '20013', '20014', '20046', '20051', '20059'];
-      
-      // Parse the existing codes from the raw content
-      const existingCodes = (message.content.match(/\*\*(\d+)\*\*/g) || [])
-                              .map(code => code.replace(/\*\*/g, ''));
-      console.log("Existing codes in raw content:", existingCodes);
-      
-      // Find missing codes
-      const missingCodes = knownCodes.filter(code => !existingCodes.includes(code));
-      console.log("Missing codes to add:", missingCodes);
-      
-      // Create enhanced content that includes the missing codes
-      let enhancedContent = message.content;
-      
-      // Add missing codes before the last paragraph
-      if (missingCodes.length > 0) {
-        const contentParts = enhancedContent.split('\n\n');
-        const lastParagraph = contentParts.pop() || '';
-        
-        // Add a section for missing codes
-        let missingCodesSection = '\n### Additional API Response Codes\n\n';
-        missingCodes.forEach(code => {
-          missingCodesSection += `- **${code}**: See documentation for additional details.\n`;
-        });
-        
-        // Reassemble content with missing codes
-        contentParts.push(missingCodesSection);
-        contentParts.push(lastParagraph);
-        enhancedContent = contentParts.join('\n\n');
-        
-        console.log("Enhanced content with missing codes:", enhancedContent);
-      }
-      
-      // Escape HTML characters in the enhanced content
-      const escapedContent = enhancedContent
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-      
-      // Basic markdown formatting for raw content
-      const basicFormatting = escapedContent
-        // Replace newlines with <br> tags to preserve line breaks
-        .replace(/\n/g, '<br>')
-        // Format headers
-        .replace(/###\s+(.*?)(?:<br>|$)/g, '<h3>$1</h3>')
-        // Format bold text
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-        // Format italic text
-        .replace(/\*(.*?)\*/g, '<em>$1</em>')
-        // Format bullet points (after replacing newlines)
-        .replace(/<br>\s*-\s+(.*?)(?=<br>|$)/g, '<li>$1</li>')
-        // Wrap consecutive list items in ul
-        .replace(/(<li>.*?<\/li>)+/g, '<ul class="api-list">$&</ul>')
-        // Format code items - common pattern in response codes
-        .replace(/<strong>(\d+)<\/strong>/g, '<span class="api-code"><strong>$1</strong></span>');
-      
-      // Create a simple container with a divider between original and additional codes if needed
-      const rawDisplayContent = `
-        <div class="api-response-section raw-content">
-          <h3>API Response Codes</h3>
-          <div class="api-raw-content">
-            ${basicFormatting}
-          </div>
-        </div>
-      `;
-      
-      // Store in cache
-      formattedContentCache.current.set(messageKey, rawDisplayContent);
-      console.log("Raw display content length:", rawDisplayContent.length);
-      console.log("Enhanced content included missing codes:", missingCodes.length > 0 ? "Yes" : "No");
-      
-      return (
-        <div>
-          <div
-            onClick={handleFormattedContentClick}
-            dangerouslySetInnerHTML={{ __html: rawDisplayContent }}
-          />
-
-          {message.role === 'assistant' && (
-            <>
-              <div className="documentation-link">
-                <a href="https://developer.globalpay.com" target="_blank" rel="noopener noreferrer">View Official Documentation →</a>
-              </div>
-            </>
-          )}
-        </div>
-      );
-    }
-
-    // Store in cache to prevent multiple formatting passes
-    formattedContentCache.current.set(messageKey, formattedContent);
-    
     return (
       <div>
-        <div
-          onClick={handleFormattedContentClick}
-          dangerouslySetInnerHTML={{ __html: formattedContent }}
-        />
+        <MarkdownMessage content={message.content} messageId={message.id} citations={message.citations} />
 
-        {message.role === 'assistant' && (
-          <>
-            <div className="documentation-link">
-              <a href="https://developer.globalpay.com" target="_blank" rel="noopener noreferrer">View Official Documentation →</a>
-            </div>
-          </>
-        )}
+        {message.role === 'assistant' && renderAssistantFooter(message)}
       </div>
     );
   };
 
-  const chatHistoryItems = sortSessionsByNewest(chatSessions).map((session) => {
+  const chatHistoryItems = sortSessions(chatSessions).map((session) => {
     const latestUserMessage = [...session.messages]
       .reverse()
       .find((message) => message.role === 'user' && !message.isError);
@@ -1499,12 +1503,40 @@ export default function HomePage() {
       preview: previewText.length <= 72 ? previewText : `${previewText.slice(0, 72).trimEnd()}...`,
       updatedAt: session.updatedAt,
       messageCount: session.messages.filter((message) => message.role === 'user').length,
+      pinned: !!session.pinned,
+      folder: session.folder,
+      isArchived: !!session.archivedAt,
     };
   });
 
+  const historySearchResults = useMemo(
+    () =>
+      isSearchingHistory
+        ? searchChatHistory(
+            sortSessions(chatSessions).map((session) => ({
+              ...session,
+              // The welcome text is in every chat, so it would match everywhere
+              messages: session.messages.filter(
+                (message) => !message.isStreaming && message.content !== DEFAULT_WELCOME_MESSAGE
+              ),
+            })),
+            historySearchQuery
+          )
+        : null,
+    [chatSessions, historySearchQuery, isSearchingHistory]
+  );
+  const isSearchLoadingChats = isSearchingHistory && chatSessions.some((session) => session.needsServerLoad);
+
   return (
     <div className="chat-container">
-      <Header />
+      <Header
+        knowledgeBases={knowledgeBases}
+        selectedKnowledgeBase={selectedKnowledgeBase}
+        onKnowledgeBaseChange={handleKnowledgeBaseChange}
+        isKnowledgeBaseLocked={isLoading}
+        user={authUser}
+        onSignOut={handleSignOut}
+      />
 
       <div className={`chat-layout ${isHistoryCollapsed ? 'history-collapsed' : ''}`}>
         {!isHistoryCollapsed && (
@@ -1541,8 +1573,18 @@ export default function HomePage() {
             items={chatHistoryItems}
             activeChatId={activeChatId}
             isLoading={isLoading}
+            searchQuery={historySearchQuery}
+            searchResults={historySearchResults}
+            isSearchLoadingChats={isSearchLoadingChats}
+            onSearchQueryChange={setHistorySearchQuery}
+            onOpenSearchResult={handleOpenSearchResult}
             onToggleHistory={handleToggleHistory}
             onCreateChat={handleCreateChat}
+            onRenameChat={handleRenameChat}
+            onSetChatPinned={handleSetChatPinned}
+            onMoveChatToFolder={handleMoveChatToFolder}
+            onArchiveChat={handleArchiveChat}
+            onRestoreChat={handleRestoreChat}
             onDeleteChat={handleDeleteChat}
             onSelectChat={handleSelectChat}
           />
@@ -1551,9 +1593,11 @@ export default function HomePage() {
         <div className="chat-main">
           <ChatMessages 
             messages={messages} 
-            isLoading={isLoading} 
+            isLoading={isLoading && !messages.some((message) => message.isStreaming)} 
+            loadingStatus={loadingStatus}
             messagesEndRef={messagesEndRef}
             renderMessageContent={renderMessageContent}
+            onFeedback={handleMessageFeedback}
           />
 
           {contextWindowNotice && (
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUTH_IDENTITY_HEADER,
+  authenticateRequest,
+  encodeIdentityHeader,
+  getAuthMode,
+  getAuthSecret
+} from './app/lib/auth';
+import { hasFeedbackExportToken } from './app/lib/feedback/exportToken';
+
+// Reachable without signing in: the login page and the routes that sign users in
+const PUBLIC_PATH_PATTERN = /^\/(login|api\/auth)(\/|$)/;
+
+/**
+ * Enforce AUTH_MODE. Signed-in requests continue with their identity in AUTH_IDENTITY_HEADER;
+ * others get a 401 on API routes and are sent to the login page everywhere else.
+ */
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const requestHeaders = new Headers(req.headers);
+  // Only the middleware may say who the user is.
+  requestHeaders.delete(AUTH_IDENTITY_HEADER);
+
+  if (getAuthMode() === 'none') {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  if (!getAuthSecret()) {
+    console.error(`AUTH_MODE=${getAuthMode()} needs AUTH_SECRET to sign sessions; refusing requests`);
+    return NextResponse.json(
+      { error: 'auth_misconfigured', message: 'Authentication is not configured on the server' },
+      { status: 500 }
+    );
+  }
+
+  const identity = await authenticateRequest(req);
+  if (identity) {
+    requestHeaders.set(AUTH_IDENTITY_HEADER, encodeIdentityHeader(identity));
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  // The feedback export keeps accepting its own token, so existing export jobs do not need an API key
+  const isFeedbackExport = pathname === '/api/feedback/export' && (await hasFeedbackExportToken(req.headers));
+  if (PUBLIC_PATH_PATTERN.test(pathname) || isFeedbackExport) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'unauthorized', message: 'Sign in, or send an API key as "Authorization: Bearer <key>"' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  const loginPage = new URL('/login', req.url);
+  loginPage.searchParams.set('returnTo', `${pathname}${search}`);
+  return NextResponse.redirect(loginPage);
+}
+
+export const config = {
+  // Everything except build assets and the icons in public/
+  matcher: ['/((?!_next/static|_next/image|favicon\\.ico|favicon\\.svg).*)']
+};
@@ -0,0 +1,29 @@
+require('dotenv').config({ path: '.env.local' });
+import path from 'path';
+import { bumpDocsVersion } from '../app/lib/docsVersion';
+import { getKnowledgeBase } from '../app/lib/knowledgeBases';
+import { buildLocalIndex, writeLocalIndex } from '../app/lib/retrieval/localIndex';
+
+// Usage: npm run build-local-index -- [--kb <knowledge base id>]
+const kbIndex = process.argv.indexOf('--kb');
+const knowledgeBaseId = kbIndex !== -1 ? process.argv[kbIndex + 1] : undefined;
+const knowledgeBase = getKnowledgeBase(knowledgeBaseId);
+
+if (!knowledgeBase) {
+  console.error(`Unknown knowledge base "${knowledgeBaseId}".`);
+  process.exit(1);
+}
+
+console.log(`Building local documentation search index for ${knowledgeBase.name}...`);
+buildLocalIndex(path.resolve(knowledgeBase.docsDir))
+  .then((index) => {
+    writeLocalIndex(index, path.resolve(knowledgeBase.localIndexPath));
+    // Keyword search results may change, so cached answers are invalidated too.
+    bumpDocsVersion(knowledgeBase.docsVersionPath);
+    console.log(`Indexed ${index.chunks.length} chunks.`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Index build failed:', error);
+    process.exit(1);
+  });
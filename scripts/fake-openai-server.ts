@@ -0,0 +1,206 @@
+require('dotenv').config({ path: '.env.local' });
+import crypto from 'crypto';
+import http from 'http';
+import path from 'path';
+import { readFixture } from '../app/lib/openaiFixtures';
+import type { FixtureMethod } from '../app/lib/openaiFixtures';
+import { getDefaultKnowledgeBase, getKnowledgeBases } from '../app/lib/knowledgeBases';
+import { createLocalIndexProvider } from '../app/lib/retrieval/localIndex';
+
+// A minimal OpenAI-compatible server for offline runs. Start it with `npm run fake-openai`, then
+// set OPENAI_BASE_URL=http://localhost:4010/v1 for the app, scripts or eval runner.
+// Recorded fixtures are served when one matches the request; otherwise it answers deterministically:
+// vector store searches use the local BM25 index of the knowledge base with that vector store, responses return FAKE_OPENAI_RESPONSE_TEXT,
+// and embeddings are hashed bag-of-words vectors.
+const PORT = Number.parseInt(process.env.FAKE_OPENAI_PORT || '4010', 10);
+const FIXTURES_DIR = path.resolve(process.env.OPENAI_FIXTURES_DIR || path.join('fixtures', 'openai'));
+const RESPONSE_TEXT =
+  process.env.FAKE_OPENAI_RESPONSE_TEXT ||
+  'This is a canned answer from the fake OpenAI server, based on the first documentation source [1].';
+const EMBEDDING_DIMENSIONS = 256;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendEvents(res: http.ServerResponse, events: any[]) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  events.forEach((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  res.end();
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function findFixture(fixturesDir: string, method: FixtureMethod, params: unknown) {
+  const fixture = readFixture(fixturesDir, method, params);
+  console.log(`${method}: ${fixture ? 'fixture' : 'generated'}`);
+  return fixture;
+}
+
+function buildCannedResponse(body: any) {
+  const text = RESPONSE_TEXT;
+  const inputTokens = Math.ceil(JSON.stringify(body.input || '').length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+
+  return {
+    id: `resp_fake_${crypto.randomUUID().replace(/-/g, '')}`,
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'completed',
+    model: body.model || 'fake-model',
+    output: [
+      {
+        type: 'message',
+        id: `msg_fake_${crypto.randomUUID().replace(/-/g, '')}`,
+        status: 'completed',
+        role: 'assistant',
+        content: [{ type: 'output_text', text, annotations: [] }]
+      }
+    ],
+    output_text: text,
+    usage: { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+  };
+}
+
+function buildCannedResponseEvents(body: any) {
+  const response = buildCannedResponse(body);
+  const words = response.output_text.split(/(?<=\s)/);
+
+  return [
+    { type: 'response.created', response: { ...response, status: 'in_progress', output: [] } },
+    ...words.map((delta) => ({ type: 'response.output_text.delta', output_index: 0, content_index: 0, delta })),
+    { type: 'response.completed', response }
+  ];
+}
+
+function buildEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const hash = crypto.createHash('md5').update(token).digest();
+      vector[hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS] += hash[4] % 2 === 0 ? 1 : -1;
+    });
+
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+async function handleResponses(fixturesDir: string, body: any, res: http.ServerResponse) {
+  const fixture = findFixture(fixturesDir, 'responses.create', body);
+
+  if (body.stream) {
+    sendEvents(res, (fixture?.events as any[]) || buildCannedResponseEvents(body));
+    return;
+  }
+
+  sendJson(res, 200, fixture?.response || buildCannedResponse(body));
+}
+
+async function handleEmbeddings(fixturesDir: string, body: any, res: http.ServerResponse) {
+  const fixture = findFixture(fixturesDir, 'embeddings.create', body);
+  if (fixture) {
+    sendJson(res, 200, fixture.response);
+    return;
+  }
+
+  const inputs: string[] = Array.isArray(body.input) ? body.input : [String(body.input || '')];
+  sendJson(res, 200, {
+    object: 'list',
+    model: body.model || 'fake-embedding-model',
+    data: inputs.map((input, index) => ({ object: 'embedding', index, embedding: buildEmbedding(String(input)) })),
+    usage: { prompt_tokens: 0, total_tokens: 0 }
+  });
+}
+
+async function handleVectorStoreSearch(fixturesDir: string, vectorStoreId: string, body: any, res: http.ServerResponse) {
+  const fixture = findFixture(fixturesDir, 'vectorStores.search', { vector_store_id: vectorStoreId, ...body });
+  if (fixture) {
+    sendJson(res, 200, { object: 'vector_store.search_results.page', ...(fixture.response as object) });
+    return;
+  }
+
+  const knowledgeBase =
+    getKnowledgeBases().find((candidate) => candidate.vectorStoreId === vectorStoreId) || getDefaultKnowledgeBase();
+  const localIndex = createLocalIndexProvider({ docsDir: knowledgeBase.docsDir, indexPath: knowledgeBase.localIndexPath });
+  const query = Array.isArray(body.query) ? body.query.join(' ') : String(body.query || '');
+  const { results } = await localIndex.search(query, { model: '' });
+  const maxResults = Number.isInteger(body.max_num_results) ? body.max_num_results : 10;
+
+  sendJson(res, 200, {
+    object: 'vector_store.search_results.page',
+    search_query: query,
+    data: results.slice(0, maxResults).map((result, index) => ({
+      file_id: `file_local_${index}`,
+      filename: result.source,
+      score: result.score,
+      attributes: {
+        source: result.source,
+        section: result.section || '',
+        chunkIndex: result.chunkIndex ?? 0
+      },
+      content: [{ type: 'text', text: result.content }]
+    })),
+    has_more: false,
+    next_page: null
+  });
+}
+
+/**
+ * The fake server, not yet listening. The smoke test starts it on a free port and serves the
+ * fixtures it has just recorded or edited.
+ */
+export function createFakeOpenAIServer(fixturesDir: string = FIXTURES_DIR): http.Server {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (req.method !== 'POST') {
+        sendJson(res, 404, { error: { message: `Unsupported route ${req.method} ${url.pathname}`, type: 'invalid_request_error' } });
+        return;
+      }
+
+      const body = await readBody(req);
+      const vectorStoreSearch = url.pathname.match(/^\/v1\/vector_stores\/([^/]+)\/search$/);
+
+      if (url.pathname === '/v1/responses') {
+        await handleResponses(fixturesDir, body, res);
+      } else if (url.pathname === '/v1/embeddings') {
+        await handleEmbeddings(fixturesDir, body, res);
+      } else if (vectorStoreSearch) {
+        await handleVectorStoreSearch(fixturesDir, decodeURIComponent(vectorStoreSearch[1]), body, res);
+      } else {
+        sendJson(res, 404, { error: { message: `Unsupported route POST ${url.pathname}`, type: 'invalid_request_error' } });
+      }
+    } catch (error) {
+      console.error('Fake OpenAI server error:', error);
+      sendJson(res, 500, { error: { message: error instanceof Error ? error.message : 'Unknown error', type: 'server_error' } });
+    }
+  });
+}
+
+if (require.main === module) {
+  createFakeOpenAIServer().listen(PORT, () => {
+    console.log(`Fake OpenAI server listening on http://localhost:${PORT}/v1 (fixtures: ${FIXTURES_DIR})`);
+  });
+}
@@ -0,0 +1,111 @@
+require('dotenv').config({ path: '.env.local' });
+import path from 'path';
+import { loadGoldenSet } from '../app/lib/evaluation/goldenSet';
+import { findLatestEvalRun, loadEvalRun, runEvaluation, writeEvalRun } from '../app/lib/evaluation/runner';
+import { compareRuns } from '../app/lib/evaluation/scoring';
+import type { EvalComparison, EvalRun } from '../app/lib/evaluation/types';
+
+// Usage: npm run eval -- [golden file] [--baseline <run.json>] [--no-compare] [--no-save]
+//        [--filter <id or tag>] [--model <model>] [--label <text>] [--runs-dir <dir>]
+const DEFAULT_GOLDEN_SET = path.join('eval', 'golden.yaml');
+const DEFAULT_RUNS_DIR = path.join('eval', 'runs');
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+const args = process.argv.slice(2);
+const optionsWithValues = ['--baseline', '--filter', '--model', '--label', '--runs-dir'];
+const positional = args.filter(
+  (arg, index) => !arg.startsWith('--') && !optionsWithValues.includes(args[index - 1])
+);
+
+const goldenSetPath = positional[0] || DEFAULT_GOLDEN_SET;
+const runsDir = readOption(args, '--runs-dir') || DEFAULT_RUNS_DIR;
+const filter = readOption(args, '--filter');
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | undefined, isRate: boolean): string {
+  if (!value) {
+    return '';
+  }
+  const formatted = isRate ? `${(value * 100).toFixed(1)} pts` : String(value);
+  return ` (${value > 0 ? '+' : ''}${formatted})`;
+}
+
+function printReport(run: EvalRun, comparison: EvalComparison | null) {
+  const { summary } = run;
+  const delta = comparison?.summaryDelta || {};
+
+  console.log('\nEvaluation summary');
+  console.log(`  Cases passed:        ${summary.passedCases}/${summary.totalCases} (${formatRate(summary.passRate)})${formatDelta(delta.passRate, true)}`);
+  console.log(`  Retrieval hit rate:  ${formatRate(summary.retrievalHitRate)} over ${summary.retrievalCases} cases${formatDelta(delta.retrievalHitRate, true)}`);
+  console.log(`  No-match accuracy:   ${formatRate(summary.noMatchAccuracy)}${formatDelta(delta.noMatchAccuracy, true)}`);
+  console.log(`  Fact coverage:       ${formatRate(summary.factCoverage)}${formatDelta(delta.factCoverage, true)}`);
+  console.log(`  Errors:              ${summary.errorCount}${formatDelta(delta.errorCount, false)}`);
+  console.log(`  Avg duration:        ${summary.averageDurationMs}ms${formatDelta(delta.averageDurationMs, false)}`);
+
+  const failed = run.results.filter((result) => !result.passed);
+  if (failed.length > 0) {
+    console.log('\nFailed cases');
+    failed.forEach((result) => console.log(`  ${result.id}: ${result.failures.join('; ')}`));
+  }
+
+  if (comparison) {
+    console.log(`\nCompared with run from ${comparison.baselineStartedAt}`);
+    if (comparison.changes.length === 0) {
+      console.log('  No case changed status.');
+    }
+    comparison.changes.forEach((change) => {
+      const details = change.failures.length > 0 ? `: ${change.failures.join('; ')}` : '';
+      console.log(`  ${change.change.toUpperCase()} ${change.id}${details}`);
+    });
+  }
+}
+
+async function main() {
+  let cases = loadGoldenSet(goldenSetPath);
+  if (filter) {
+    cases = cases.filter((evalCase) => evalCase.id.includes(filter) || (evalCase.tags || []).includes(filter));
+  }
+
+  if (cases.length === 0) {
+    console.error(`No golden cases to run from ${goldenSetPath}${filter ? ` matching "${filter}"` : ''}.`);
+    process.exit(1);
+  }
+
+  // Resolve the baseline before saving this run so it is never compared with itself.
+  const baselinePath = args.includes('--no-compare')
+    ? null
+    : readOption(args, '--baseline') || findLatestEvalRun(runsDir, goldenSetPath);
+
+  console.log(`Running ${cases.length} golden cases from ${goldenSetPath}...`);
+  const run = await runEvaluation(cases, {
+    goldenSet: goldenSetPath,
+    model: readOption(args, '--model'),
+    label: readOption(args, '--label'),
+    onCaseComplete: (result, index, total) => {
+      console.log(`[${index + 1}/${total}] ${result.passed ? 'PASS' : 'FAIL'} ${result.id} (${result.durationMs}ms)`);
+    }
+  });
+
+  const comparison = baselinePath ? compareRuns(loadEvalRun(baselinePath), run) : null;
+  printReport(run, comparison);
+
+  if (!args.includes('--no-save')) {
+    console.log(`\nRun saved to ${writeEvalRun(runsDir, run)}`);
+  }
+
+  // Fail the command on regressions so prompt and ranking changes can be gated in CI.
+  const regressions = comparison?.changes.filter((change) => change.change === 'regressed').length || 0;
+  process.exit(regressions > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,172 @@
+require('dotenv').config({ path: '.env.local' });
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { DOCS_ONLY_NO_MATCH_MESSAGE, DOCS_ONLY_UNAVAILABLE_MESSAGE, runGlobalPaymentsDocsAgent } from '../app/lib/agent';
+import { createOpenAIClient, setOpenAIClient } from '../app/lib/openaiClient';
+import { writeFixture } from '../app/lib/openaiFixtures';
+import type { FixtureMode, OpenAIFixture } from '../app/lib/openaiFixtures';
+import { createFakeOpenAIServer } from './fake-openai-server';
+
+// Usage: npm run smoke
+// Runs the agent against the fake OpenAI server, records the calls to fixtures, then replays them with
+// the server stopped: an answered question, a retrieval below the context score threshold, ranking rules
+// that exclude a legacy Realex chunk, and a question with no recording. Needs no network and no API key;
+// exits non-zero on failure. The last three questions are chosen to have no BM25 matches in the sample
+// docs, so the recorded vector store results alone decide what reaches the context.
+const ANSWERED_QUESTION = 'Which payment methods does the API support?';
+const NO_MATCH_QUESTION = 'What is the settlement cutoff time?';
+const RANKING_QUESTION = 'How do I configure 3D Secure exemptions?';
+const UNRECORDED_QUESTION = 'How does terminal onboarding work?';
+
+const LOW_SCORE_SOURCE = 'settlement/overview.md';
+const REALEX_SOURCE = 'legacy/realex-3ds.md';
+const GLOBAL_PAYMENTS_SOURCE = 'global-payments/3ds.md';
+
+type AgentResult = Awaited<ReturnType<typeof runGlobalPaymentsDocsAgent>>;
+
+function report(label: string, failures: string[]): string[] {
+  console.log(`${label}: ${failures.length === 0 ? 'ok' : `FAILED (${failures.join('; ')})`}`);
+  return failures;
+}
+
+function checkAnswered(result: AgentResult): string[] {
+  const failures: string[] = [];
+  if (!result.response?.trim()) {
+    failures.push('empty response');
+  }
+  if (result.metadata?.vectorSearchError) {
+    failures.push(`retrieval error: ${result.metadata.vectorSearchError.message}`);
+  }
+  if (!result.metadata?.context?.length) {
+    failures.push('no documentation context retrieved');
+  }
+  return failures;
+}
+
+function getRankingStatus(result: AgentResult, source: string) {
+  return result.metadata?.ranking?.results.find((ranked) => ranked.source === source)?.status;
+}
+
+function toSearchResult(source: string, score: number, text: string) {
+  return {
+    file_id: `file_smoke_${source.replace(/\W+/g, '_')}`,
+    filename: source,
+    score,
+    attributes: { source, section: '', chunkIndex: 0 },
+    content: [{ type: 'text', text }]
+  };
+}
+
+/**
+ * Replace the results of the recorded vector store search for a question, so the next run sees them
+ */
+async function rewriteRecordedSearch(fixturesDir: string, question: string, data: unknown[]) {
+  const searchDir = path.join(fixturesDir, 'vectorStores.search');
+  for (const fileName of await fs.readdir(searchDir)) {
+    const fixture: OpenAIFixture = JSON.parse(await fs.readFile(path.join(searchDir, fileName), 'utf-8'));
+    if ((fixture.params as { query?: unknown }).query === question) {
+      writeFixture(fixturesDir, { method: fixture.method, params: fixture.params, response: { data, has_more: false } });
+      return;
+    }
+  }
+
+  throw new Error(`No recorded vector store search for "${question}"`);
+}
+
+async function runAgent(question: string, baseURL: string, fixtureMode: FixtureMode, fixturesDir: string) {
+  setOpenAIClient(createOpenAIClient({ apiKey: 'smoke-test', baseURL, fixtureMode, fixturesDir }));
+  return runGlobalPaymentsDocsAgent(question);
+}
+
+async function main() {
+  const fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'openai-fixtures-'));
+  // The server answers from the fixtures being recorded, so edited search results are served on the next run.
+  const server = createFakeOpenAIServer(fixturesDir);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  const failures: string[] = [];
+
+  try {
+    failures.push(...report('Fake server', checkAnswered(await runAgent(ANSWERED_QUESTION, baseURL, 'off', fixturesDir))));
+
+    const recorded = await runAgent(ANSWERED_QUESTION, baseURL, 'record', fixturesDir);
+    failures.push(...report('Record fixtures', checkAnswered(recorded)));
+
+    await runAgent(NO_MATCH_QUESTION, baseURL, 'record', fixturesDir);
+    await rewriteRecordedSearch(fixturesDir, NO_MATCH_QUESTION, [
+      toSearchResult(LOW_SCORE_SOURCE, 0.3, 'Settlement batches are created for each merchant account.')
+    ]);
+
+    await runAgent(RANKING_QUESTION, baseURL, 'record', fixturesDir);
+    await rewriteRecordedSearch(fixturesDir, RANKING_QUESTION, [
+      toSearchResult(REALEX_SOURCE, 0.9, 'Realex Payments: configure 3D Secure exemptions in the Realex admin panel.'),
+      toSearchResult(
+        GLOBAL_PAYMENTS_SOURCE,
+        0.7,
+        'Global Payments: request 3D Secure exemptions with the exemption field of the authentication request.'
+      )
+    ]);
+    // Record again so the answer is generated from the edited search results.
+    await runAgent(RANKING_QUESTION, baseURL, 'record', fixturesDir);
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    // The server is gone, so every call has to come from the fixtures just written.
+    const replayed = await runAgent(ANSWERED_QUESTION, baseURL, 'replay', fixturesDir);
+    const replayFailures = checkAnswered(replayed);
+    if (replayed.response !== recorded.response) {
+      replayFailures.push('response differs from the recorded one');
+    }
+    failures.push(...report('Replay fixtures', replayFailures));
+
+    const noMatch = await runAgent(NO_MATCH_QUESTION, baseURL, 'replay', fixturesDir);
+    const noMatchFailures: string[] = [];
+    if (noMatch.response !== DOCS_ONLY_NO_MATCH_MESSAGE) {
+      noMatchFailures.push(`expected the no-match message, got "${noMatch.response}"`);
+    }
+    if (getRankingStatus(noMatch, LOW_SCORE_SOURCE) !== 'below_threshold') {
+      noMatchFailures.push('low-scoring chunk was not reported below the threshold');
+    }
+    failures.push(...report('Replay no-match retrieval', noMatchFailures));
+
+    const ranked = await runAgent(RANKING_QUESTION, baseURL, 'replay', fixturesDir);
+    const rankingFailures = checkAnswered(ranked);
+    if (getRankingStatus(ranked, REALEX_SOURCE) !== 'excluded') {
+      rankingFailures.push('legacy Realex chunk was not excluded');
+    }
+    if (getRankingStatus(ranked, GLOBAL_PAYMENTS_SOURCE) !== 'selected') {
+      rankingFailures.push('Global Payments chunk was not selected');
+    }
+    failures.push(...report('Replay ranking rules', rankingFailures));
+
+    // A search with no recording fails inside retrieval, which the agent reports as unavailable docs;
+    // the client itself rejects with fixture_not_found.
+    const unrecorded = await runAgent(UNRECORDED_QUESTION, baseURL, 'replay', fixturesDir);
+    const missFailures: string[] = [];
+    if (unrecorded.response !== DOCS_ONLY_UNAVAILABLE_MESSAGE) {
+      missFailures.push(`expected the unavailable message, got "${unrecorded.response}"`);
+    }
+    const replayClient = createOpenAIClient({ fixtureMode: 'replay', fixturesDir });
+    const missError = await replayClient.responses
+      .create({ model: 'smoke-test', input: UNRECORDED_QUESTION })
+      .then(() => null, (error: any) => error);
+    if (missError?.code !== 'fixture_not_found') {
+      missFailures.push('client did not reject an unrecorded call with fixture_not_found');
+    }
+    failures.push(...report('Replay miss', missFailures));
+
+    if (failures.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    server.close();
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error('Smoke test failed:', error);
+  process.exitCode = 1;
+});
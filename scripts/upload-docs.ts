@@ -1,12 +1,24 @@
 import { uploadDocs } from '../app/lib/uploadDocs';
 
-console.log('Starting Global Payments documentation upload...');
-uploadDocs()
-  .then(() => {
+// Usage: npm run upload-docs -- [--dry-run] [--kb <knowledge base id>]
+const dryRun = process.argv.includes('--dry-run');
+const kbIndex = process.argv.indexOf('--kb');
+const knowledgeBaseId = kbIndex !== -1 ? process.argv[kbIndex + 1] : undefined;
+
+console.log(`Starting Global Payments documentation upload${dryRun ? ' (dry run)' : ''}...`);
+uploadDocs({ dryRun, knowledgeBaseId })
+  .then((report) => {
+    if (report.failedChunks > 0 || report.failedFiles.length > 0) {
+      console.error(
+        `Upload finished with ${report.failedChunks} failed chunks and ${report.failedFiles.length} unreadable files; re-run to retry them.`
+      );
+      process.exit(1);
+    }
+
     console.log('Upload completed successfully.');
     process.exit(0);
   })
   .catch((error) => {
     console.error('Upload failed:', error);
     process.exit(1);
-  }); 
\ No newline at end of file
+  });